@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createAccount, createSession } from '@/lib/accounts';
+import { limitedResponse } from '@/lib/api-route';
+import type { Role } from '@/lib/classroom';
+import { errorResponse, readJson, setSessionCookie } from '@/lib/classroom-route';
+import { ClassroomError } from '@/lib/classroom-store';
+import { clientId, consume, getLimits } from '@/lib/rate-limit';
+import { getStore } from '@/lib/store';
+
+// POST { username, name, password, role, teacherCode? }
+// Registers a local account and signs it in. Registering as a teacher needs
+// TEACHER_SIGNUP_CODE when that is set.
+export async function POST(req: Request) {
+  try {
+    const rate = await consume(getStore('limits'), clientId(req), getLimits().rate);
+    if (!rate.ok) return limitedResponse(rate);
+
+    const { username, name, password, role, teacherCode } = await readJson(req);
+    if (typeof username !== 'string' || typeof name !== 'string' || typeof password !== 'string') {
+      throw new ClassroomError('username, name and password are required.', 400);
+    }
+    const account = await createAccount({
+      username,
+      name,
+      password,
+      role: role as Role,
+      teacherCode: typeof teacherCode === 'string' ? teacherCode : undefined,
+    });
+    return setSessionCookie(NextResponse.json({ account }, { status: 201 }), await createSession(account));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
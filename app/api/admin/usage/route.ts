@@ -0,0 +1,55 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { summariseUsage, type UsageSummary } from '@/lib/usage';
+import { readUsage } from '@/lib/usage-log';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const authorised = (req: Request, token: string) => {
+  const given = Buffer.from(req.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// UTC midnight of a YYYY-MM-DD date, or NaN.
+const parseDate = (value: string) => (DATE.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN);
+
+const byCost = (a: UsageSummary, b: UsageSummary) => b.costUsd - a.costUsd || b.analyses - a.analyses;
+
+// GET /api/admin/usage?from=2026-10-01&to=2026-10-19
+// Totals of recorded model calls, overall and by UTC day, client, task and
+// kind (analysis, model answer or tutor reply), for
+// the inclusive date range (all records by default). Needs
+// `Authorization: Bearer <ADMIN_TOKEN>`; the route is off while ADMIN_TOKEN is unset.
+export async function GET(req: Request) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'The admin API is disabled. Set ADMIN_TOKEN to enable it.' }, { status: 503 });
+  }
+  if (!authorised(req, token)) {
+    return NextResponse.json({ error: 'Unauthorised' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const from = params.get('from');
+  const to = params.get('to');
+  const start = from ? parseDate(from) : 0;
+  const end = to ? parseDate(to) + DAY : Infinity;
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return NextResponse.json({ error: 'from and to must be dates in the form YYYY-MM-DD' }, { status: 400 });
+  }
+
+  const records = await readUsage(start, end);
+  return NextResponse.json({
+    from,
+    to,
+    totals: summariseUsage(records, () => 'all')[0] ?? null,
+    byDay: summariseUsage(records, (record) => new Date(record.createdAt).toISOString().slice(0, 10)).sort((a, b) =>
+      a.key.localeCompare(b.key),
+    ),
+    byUser: summariseUsage(records, (record) => record.client).sort(byCost),
+    byTask: summariseUsage(records, (record) => record.task).sort(byCost),
+    byKind: summariseUsage(records, (record) => record.kind ?? 'analysis').sort(byCost),
+  });
+}
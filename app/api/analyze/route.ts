@@ -1,125 +1,168 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { analysisCacheKey, cacheTtlMs, createAnalysisCache } from '@/lib/analysis-cache';
+import { analyzeEssay, localAnalysis, type AnalyzeInput, type AnalyzeOutcome } from '@/lib/analyze';
+import { bodyErrorResponse, limitedResponse, readJsonBody, unmeteredUsage } from '@/lib/api-route';
+import type { AnalyzeErrorBody, AnalyzeStreamEvent, FeedbackData } from '@/lib/feedback';
+import { parseAnalyzeRequest } from '@/lib/input-safety';
+import { loadPrompts, PromptConfigError, type PromptSet } from '@/lib/prompts';
+import { getProvider, ProviderConfigError, type LLMProvider } from '@/lib/providers';
+import { clientId, consume, getLimits } from '@/lib/rate-limit';
+import { getStore, StoreConfigError } from '@/lib/store';
+import type { AnalysisUsage, UsageRecord } from '@/lib/usage';
+import { recordUsage } from '@/lib/usage-log';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+const NDJSON = 'application/x-ndjson';
+
+// A cache hit needs no streaming: the whole result goes out as one `done` event.
+const cachedResponse = (data: FeedbackData, stream: boolean) =>
+  stream
+    ? new Response(JSON.stringify({ type: 'done', data } satisfies AnalyzeStreamEvent) + '\n', {
+        headers: { 'Content-Type': NDJSON, 'X-Analysis-Cache': 'hit' },
+      })
+    : NextResponse.json(data, { headers: { 'X-Analysis-Cache': 'hit' } });
+
+const malformedError = (outcome: Extract<AnalyzeOutcome, { ok: false }>): AnalyzeErrorBody => ({
+  error: 'The model returned malformed feedback',
+  fields: outcome.issues.map((issue) => issue.path),
+  issues: outcome.issues,
 });
 
+// Streams one NDJSON event per validated section, then a final `done` or
+// `error` event. Aborting the request (or cancelling the body) stops the
+// provider call. If the provider fails, the offline corrections are still
+// sent before the error. `onDone` gets the outcome after the last event, or
+// undefined if the provider failed; it must not throw.
+function streamAnalysis(
+  input: AnalyzeInput,
+  provider: LLMProvider,
+  prompts: PromptSet,
+  req: Request,
+  onDone: (outcome?: AnalyzeOutcome) => Promise<void>,
+) {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort(req.signal.reason));
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing more is sent once the client has gone
+      const send = (event: AnalyzeStreamEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+      let sentCorrections = false;
+      let outcome: AnalyzeOutcome | undefined;
+
+      try {
+        outcome = await analyzeEssay(input, provider, {
+          signal: abort.signal,
+          prompts,
+          onSection: (section) => {
+            sentCorrections ||= section.key === 'corrections';
+            send({ type: 'section', section });
+          },
+        });
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('Error analyzing essay:', error);
+          if (!sentCorrections) send({ type: 'section', section: { key: 'corrections', value: localAnalysis(input).corrections } });
+          send({ type: 'error', error: 'Failed to analyze essay', degraded: true });
+        }
+      }
+      if (outcome) send(outcome.ok ? { type: 'done', data: outcome.data } : { type: 'error', ...malformedError(outcome) });
+
+      // After the last event, so bookkeeping never changes what the client was told
+      await onDone(outcome);
+
+      try {
+        controller.close();
+      } catch {
+        // Already closed because the client went away.
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': NDJSON, 'Cache-Control': 'no-cache, no-transform' },
+  });
+}
+
 export async function POST(req: Request) {
+  let input: AnalyzeInput | undefined;
   try {
-    const { essay, taskType } = await req.json();
+    const limits = getLimits();
+    const client = clientId(req);
+    const limitStore = getStore('limits');
+    const rate = await consume(limitStore, client, limits.rate);
+    if (!rate.ok) return limitedResponse(rate);
 
-    if (!essay) {
-      return NextResponse.json({ error: 'Essay content is required' }, { status: 400 });
+    const read = await readJsonBody(req);
+    if (!read.ok) return bodyErrorResponse(read);
+
+    const parsed = parseAnalyzeRequest(read.body);
+    if (!parsed.ok) {
+      return NextResponse.json<AnalyzeErrorBody>({ error: parsed.error }, { status: 400 });
     }
+    input = parsed.input;
 
-    const prompt = `
-      Act as an expert IELTS examiner. Analyze the following IELTS Writing ${taskType || 'Task 2'} essay.
-      
-      Essay:
-      "${essay}"
-      
-      Provide the response in the following JSON format. 
-      IMPORTANT: 
-      1. In "prioritized_suggestions", focus on high-impact changes that would arguably increase the band score by at least 0.5. Provide a concrete "example_fix" that shows exactly how to rewrite a specific part of the essay to solve the issue. If applicable, provide "apply_to_text" (exact match) and "replacement_text".
-      2. In "enrichment", suggest at least 8-12 advanced vocabulary items or collocations relevant to this essay's topic. Provide "target_text" (exact match in essay) and "replacement_text" if the new word can directly replace something in the essay.
-      3. In "corrections", be thorough. Identify ALL grammar, vocabulary, and punctuation errors. Aim for at least 5-10 corrections if errors exist.
-
-      Format:
-      {
-        "band_score": number,
-        "prioritized_suggestions": [
-          {
-            "priority": "high" | "medium" | "low",
-            "issue": "string (concise problem description)",
-            "suggestion": "string (actionable advice)",
-            "example_fix": "string (a concrete example of how to rewrite a sentence or paragraph from the essay to apply this advice)",
-            "apply_to_text": "string | null (exact text from essay to replace, if applicable)",
-            "replacement_text": "string | null (the improved text)",
-            "category": "Task Achievement" | "Coherence" | "Lexical" | "Grammar"
-          }
-        ],
-        "enrichment": [
-          {
-             "word": "string (the advanced word/collocation)",
-             "phonetic": "string (IPA)",
-             "type": "verb" | "noun" | "adjective" | "phrase",
-             "definition": "string (brief meaning)",
-             "example_sentence": "string (example sentence)",
-             "context_in_essay": "string (suggestion: 'Use this instead of X')",
-             "target_text": "string | null (exact text from essay to replace)",
-             "replacement_text": "string | null (the full replacement string)"
-          }
-        ],
-        "feedback": {
-          "task_achievement": {
-            "summary": "string",
-            "tips": [
-              {
-                "tip": "string (the advice)",
-                "example_implementation": "string (obvious example of this tip in action)",
-                "apply_to_text": "string | null (exact text from essay to replace/append to, if applicable)",
-                "replacement_text": "string | null (the improved text)"
-              }
-            ]
-          },
-          "coherence_cohesion": {
-            "summary": "string",
-            "tips": [
-              {
-                "tip": "string",
-                "example_implementation": "string",
-                "apply_to_text": "string | null",
-                "replacement_text": "string | null"
-              }
-            ]
-          },
-          "lexical_resource": {
-            "summary": "string",
-            "tips": [
-              {
-                "tip": "string",
-                "example_implementation": "string",
-                "apply_to_text": "string | null",
-                "replacement_text": "string | null"
-              }
-            ]
-          },
-          "grammatical_range_accuracy": {
-            "summary": "string",
-            "tips": [
-              {
-                "tip": "string",
-                "example_implementation": "string",
-                "apply_to_text": "string | null",
-                "replacement_text": "string | null"
-              }
-            ]
-          }
-        },
-        "corrections": [
-          {
-            "original": "string (exact text from essay)",
-            "replacement": "string (better alternative)",
-            "type": "grammar" | "vocabulary" | "coherence",
-            "explanation": "string (reason)"
-          }
-        ],
-        "general_comment": "string"
+    const provider = getProvider();
+    const prompts = loadPrompts();
+    const stream = !!req.headers.get('accept')?.includes(NDJSON);
+    const started = Date.now();
+    const { taskMode } = input;
+    const track = (outcome: UsageRecord['outcome'], usage?: AnalysisUsage) =>
+      recordUsage({ client, taskMode, promptVersion: prompts.version, outcome, usage: usage ?? unmeteredUsage(provider, started) });
+
+    // Identical submissions are answered from the cache and do not count against the quota
+    const cache = createAnalysisCache(getStore('cache'), cacheTtlMs());
+    const cacheKey = analysisCacheKey(input, prompts.version, provider);
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      const usage: AnalysisUsage = { ...unmeteredUsage(provider, started), attempts: 0, cache: 'hit' };
+      await track('ok', usage);
+      return cachedResponse({ ...cached, usage }, stream);
+    }
+
+    const quota = await consume(limitStore, client, limits.quota);
+    if (!quota.ok) return limitedResponse(quota);
+
+    // Records the outcome once the answer is known. A failure here is logged
+    // rather than thrown, so it cannot turn an answered request into an error.
+    const finish = async (outcome?: AnalyzeOutcome) => {
+      try {
+        if (!outcome) return await track('error');
+        await track(outcome.ok ? 'ok' : 'malformed', outcome.usage);
+        if (outcome.ok) await cache.set(cacheKey, outcome.data);
+      } catch (error) {
+        console.error('Could not record the analysis:', error);
       }
-    `;
+    };
+
+    if (stream) {
+      return streamAnalysis(input, provider, prompts, req, finish);
+    }
 
-    const completion = await openai.chat.completions.create({
-      messages: [{ role: "user", content: prompt }],
-      model: "gpt-4o", 
-      response_format: { type: "json_object" },
+    const outcome = await analyzeEssay(input, provider, { signal: req.signal, prompts }).catch(async (error) => {
+      await finish();
+      throw error;
     });
+    await finish(outcome);
 
-    const result = JSON.parse(completion.choices[0].message.content || '{}');
+    if (outcome.ok) {
+      return NextResponse.json(outcome.data);
+    }
 
-    return NextResponse.json(result);
+    return NextResponse.json<AnalyzeErrorBody>(malformedError(outcome), { status: 502 });
   } catch (error) {
+    // Without the model, the offline checks are still worth returning
+    const degraded = input && { degraded: true, partial: localAnalysis(input) };
+    if (error instanceof ProviderConfigError || error instanceof PromptConfigError || error instanceof StoreConfigError) {
+      console.error('Analysis is misconfigured:', error.message);
+      return NextResponse.json<AnalyzeErrorBody>({ error: error.message, ...degraded }, { status: 503 });
+    }
     console.error('Error analyzing essay:', error);
-    return NextResponse.json({ error: 'Failed to analyze essay' }, { status: 500 });
+    return NextResponse.json<AnalyzeErrorBody>({ error: 'Failed to analyze essay', ...degraded }, { status: 500 });
   }
 }
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withAccount } from '@/lib/classroom-route';
+import { getAssignmentDetail } from '@/lib/classroom-store';
+
+// GET: the assignment with its submissions: all of them for the teacher, the student's own otherwise.
+export async function GET(req: Request, { params }: { params: Promise<{ assignmentId: string }> }) {
+  const { assignmentId } = await params;
+  return withAccount(req, async (account) => NextResponse.json(await getAssignmentDetail(account, assignmentId)));
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { limitedResponse } from '@/lib/api-route';
+import { accountClient, readJson, withAccount } from '@/lib/classroom-route';
+import { analyseSubmission, ClassroomError, saveSubmission, submissionTarget } from '@/lib/classroom-store';
+import { parseAnalyzeRequest } from '@/lib/input-safety';
+import { consume, getLimits } from '@/lib/rate-limit';
+import { getStore } from '@/lib/store';
+
+// POST { essay }
+// Submits the student's essay, replacing an earlier one until the teacher
+// starts reviewing it, and analyses it straight away. The submission is kept
+// even if the analysis fails; its `analysisError` says why.
+export async function POST(req: Request, { params }: { params: Promise<{ assignmentId: string }> }) {
+  const { assignmentId } = await params;
+  return withAccount(req, async (account) => {
+    const rate = await consume(getStore('limits'), accountClient(account), getLimits().rate);
+    if (!rate.ok) return limitedResponse(rate);
+
+    const { essay } = await readJson(req);
+    const assignment = await submissionTarget(account, assignmentId);
+    const parsed = parseAnalyzeRequest({ essay, taskMode: assignment.taskMode, question: assignment.question });
+    if (!parsed.ok) throw new ClassroomError(parsed.error, 400);
+
+    const result = await analyseSubmission(parsed.input, accountClient(account));
+    return NextResponse.json({ submission: await saveSubmission(account, assignment, parsed.input.essay, result) }, { status: 201 });
+  });
+}
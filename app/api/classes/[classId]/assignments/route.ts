@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { parseAssignmentRequest } from '@/lib/classroom';
+import { readJson, withAccount } from '@/lib/classroom-route';
+import { ClassroomError, createAssignment } from '@/lib/classroom-store';
+
+// POST { title, question, taskMode, deadline }: sets an assignment (the class's teacher only).
+export async function POST(req: Request, { params }: { params: Promise<{ classId: string }> }) {
+  const { classId } = await params;
+  return withAccount(req, async (account) => {
+    const parsed = parseAssignmentRequest(await readJson(req));
+    if (!parsed.ok) throw new ClassroomError(parsed.error, 400);
+    return NextResponse.json({ assignment: await createAssignment(account, classId, parsed.input) }, { status: 201 });
+  });
+}
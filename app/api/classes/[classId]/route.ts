@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withAccount } from '@/lib/classroom-route';
+import { getClassDetail } from '@/lib/classroom-store';
+
+// GET: the class with its assignments, and for its teacher its students and join code.
+export async function GET(req: Request, { params }: { params: Promise<{ classId: string }> }) {
+  const { classId } = await params;
+  return withAccount(req, async (account) => NextResponse.json(await getClassDetail(account, classId)));
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { readJson, withAccount } from '@/lib/classroom-route';
+import { joinClass } from '@/lib/classroom-store';
+
+// POST { code }: joins the class with that code (students only).
+export async function POST(req: Request) {
+  return withAccount(req, async (account) => {
+    const { code } = await readJson(req);
+    const classroom = await joinClass(account, code);
+    return NextResponse.json({ classId: classroom.id });
+  });
+}
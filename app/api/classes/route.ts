@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { readJson, withAccount } from '@/lib/classroom-route';
+import { createClass, listClasses } from '@/lib/classroom-store';
+
+// GET: the classes the signed-in account teaches or belongs to.
+export async function GET(req: Request) {
+  return withAccount(req, async (account) => NextResponse.json({ classes: await listClasses(account) }));
+}
+
+// POST { name }: creates a class (teachers only), with a code for students to join by.
+export async function POST(req: Request) {
+  return withAccount(req, async (account) => {
+    const { name } = await readJson(req);
+    return NextResponse.json({ classroom: await createClass(account, name) }, { status: 201 });
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import {
+  ESSAY_TYPES,
+  QUESTION_BANK_VERSION,
+  TOPICS,
+  filterQuestions,
+  pickRandom,
+  type EssayType,
+  type QuestionFilter,
+  type QuestionGroup,
+} from '@/lib/question-bank';
+import { isTaskModeId } from '@/lib/tasks';
+
+const GROUPS: QuestionGroup[] = ['task1-academic', 'task1-general', 'task2'];
+
+// GET /api/questions?group=task2&type=discussion&topic=education
+// Add `random=1` to get a single random match instead of the full list,
+// and `exclude=<id>` to avoid repeating the current question.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const group = params.get('group');
+  const mode = params.get('mode');
+  const type = params.get('type');
+
+  if (group && !GROUPS.includes(group as QuestionGroup)) {
+    return NextResponse.json({ error: `Unknown group "${group}"` }, { status: 400 });
+  }
+  if (mode && !isTaskModeId(mode)) {
+    return NextResponse.json({ error: `Unknown task mode "${mode}"` }, { status: 400 });
+  }
+  if (type && !ESSAY_TYPES.includes(type as EssayType)) {
+    return NextResponse.json({ error: `Unknown essay type "${type}"` }, { status: 400 });
+  }
+
+  const filter: QuestionFilter = {
+    group: (group as QuestionGroup) || undefined,
+    taskMode: isTaskModeId(mode) ? mode : undefined,
+    essayType: (type as EssayType) || undefined,
+    topic: params.get('topic') || undefined,
+  };
+  const questions = filterQuestions(filter);
+
+  if (params.get('random')) {
+    const exclude = params.get('exclude');
+    const candidates = questions.length > 1 ? questions.filter((q) => q.id !== exclude) : questions;
+    const question = pickRandom(candidates);
+    if (!question) {
+      return NextResponse.json({ error: 'No questions match these filters' }, { status: 404 });
+    }
+    return NextResponse.json({ version: QUESTION_BANK_VERSION, question });
+  }
+
+  return NextResponse.json({ version: QUESTION_BANK_VERSION, topics: TOPICS, questions });
+}
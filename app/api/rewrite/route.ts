@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { bodyErrorResponse, limitedResponse, readJsonBody, unmeteredUsage } from '@/lib/api-route';
+import type { AnalyzeErrorBody } from '@/lib/feedback';
+import { loadPrompts, PromptConfigError } from '@/lib/prompts';
+import { getProvider, ProviderConfigError } from '@/lib/providers';
+import { clientId, consume, getLimits } from '@/lib/rate-limit';
+import { parseRewriteRequest, rewriteEssay } from '@/lib/rewrite';
+import { getStore, StoreConfigError } from '@/lib/store';
+import type { AnalysisUsage, UsageRecord } from '@/lib/usage';
+import { recordUsage } from '@/lib/usage-log';
+
+// POST { essay, taskMode, question?, targetBand }
+// Rewrites the essay as a model answer at the target band, aligned with the
+// original sentence by sentence (see lib/model-answer.ts). Counts against the
+// same rate limit and daily quota as /api/analyze.
+export async function POST(req: Request) {
+  try {
+    const limits = getLimits();
+    const client = clientId(req);
+    const limitStore = getStore('limits');
+    const rate = await consume(limitStore, client, limits.rate);
+    if (!rate.ok) return limitedResponse(rate);
+
+    const read = await readJsonBody(req);
+    if (!read.ok) return bodyErrorResponse(read);
+
+    const parsed = parseRewriteRequest(read.body);
+    if (!parsed.ok) {
+      return NextResponse.json<AnalyzeErrorBody>({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.input;
+
+    const provider = getProvider();
+    const prompts = loadPrompts();
+    const started = Date.now();
+    const track = (outcome: UsageRecord['outcome'], usage?: AnalysisUsage) =>
+      recordUsage({
+        client,
+        taskMode: input.taskMode,
+        promptVersion: prompts.version,
+        kind: 'rewrite',
+        outcome,
+        usage: usage ?? unmeteredUsage(provider, started),
+      });
+
+    const quota = await consume(limitStore, client, limits.quota);
+    if (!quota.ok) return limitedResponse(quota);
+
+    const outcome = await rewriteEssay(input, provider, { signal: req.signal, prompts }).catch(async (error) => {
+      await track('error');
+      throw error;
+    });
+    await track(outcome.ok ? 'ok' : 'malformed', outcome.usage);
+
+    if (outcome.ok) {
+      return NextResponse.json(outcome.data);
+    }
+    return NextResponse.json<AnalyzeErrorBody>(
+      { error: 'The model returned a malformed model answer', issues: outcome.issues },
+      { status: 502 },
+    );
+  } catch (error) {
+    if (error instanceof ProviderConfigError || error instanceof PromptConfigError || error instanceof StoreConfigError) {
+      console.error('Model answers are misconfigured:', error.message);
+      return NextResponse.json<AnalyzeErrorBody>({ error: error.message }, { status: 503 });
+    }
+    console.error('Error rewriting essay:', error);
+    return NextResponse.json<AnalyzeErrorBody>({ error: 'Failed to write a model answer' }, { status: 500 });
+  }
+}
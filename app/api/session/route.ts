@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { authenticate, createSession, currentAccount, endSession, sessionToken } from '@/lib/accounts';
+import { limitedResponse } from '@/lib/api-route';
+import type { Account } from '@/lib/classroom';
+import { errorResponse, readJson, setSessionCookie } from '@/lib/classroom-route';
+import { ClassroomError } from '@/lib/classroom-store';
+import { clientId, consume, getLimits } from '@/lib/rate-limit';
+import { getStore } from '@/lib/store';
+
+// GET: the signed-in account, or null.
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json<{ account: Account | null }>({ account: (await currentAccount(req)) ?? null });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// POST { username, password }
+// Signs in, setting the HTTP-only session cookie. Attempts count against the
+// same per-minute rate limit as /api/analyze.
+export async function POST(req: Request) {
+  try {
+    const rate = await consume(getStore('limits'), clientId(req), getLimits().rate);
+    if (!rate.ok) return limitedResponse(rate);
+
+    const { username, password } = await readJson(req);
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      throw new ClassroomError('username and password are required.', 400);
+    }
+    const account = await authenticate(username, password);
+    return setSessionCookie(NextResponse.json({ account }), await createSession(account));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// DELETE: signs out.
+export async function DELETE(req: Request) {
+  try {
+    const token = sessionToken(req);
+    if (token) await endSession(token);
+    return setSessionCookie(NextResponse.json({ account: null }), null);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
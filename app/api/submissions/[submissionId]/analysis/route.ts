@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { limitedResponse } from '@/lib/api-route';
+import { accountClient, withAccount } from '@/lib/classroom-route';
+import { reanalyseSubmission } from '@/lib/classroom-store';
+import { consume, getLimits } from '@/lib/rate-limit';
+import { getStore } from '@/lib/store';
+
+// POST: analyses a submission again after its analysis failed.
+export async function POST(req: Request, { params }: { params: Promise<{ submissionId: string }> }) {
+  const { submissionId } = await params;
+  return withAccount(req, async (account) => {
+    const rate = await consume(getStore('limits'), accountClient(account), getLimits().rate);
+    if (!rate.ok) return limitedResponse(rate);
+    return NextResponse.json({ submission: await reanalyseSubmission(account, submissionId, accountClient(account)) });
+  });
+}
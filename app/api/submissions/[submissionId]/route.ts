@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { readJson, withAccount } from '@/lib/classroom-route';
+import { getSubmissionDetail, saveReview } from '@/lib/classroom-store';
+
+// GET: the submission with its assignment and student. Students see the
+// teacher's review only once it has been returned.
+export async function GET(req: Request, { params }: { params: Promise<{ submissionId: string }> }) {
+  const { submissionId } = await params;
+  return withAccount(req, async (account) => NextResponse.json(await getSubmissionDetail(account, submissionId)));
+}
+
+// PUT { bands, corrections, criterionComments, comment, status }
+// Saves the teacher's review (see TeacherReview in lib/classroom.ts);
+// `status: "returned"` shows it to the student.
+export async function PUT(req: Request, { params }: { params: Promise<{ submissionId: string }> }) {
+  const { submissionId } = await params;
+  return withAccount(req, async (account) => NextResponse.json({ submission: await saveReview(account, submissionId, await readJson(req)) }));
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { bodyErrorResponse, limitedResponse, readJsonBody, unmeteredUsage } from '@/lib/api-route';
+import type { AnalyzeErrorBody } from '@/lib/feedback';
+import { INPUT_LIMITS } from '@/lib/input-safety';
+import { loadPrompts, PromptConfigError } from '@/lib/prompts';
+import { getProvider, ProviderConfigError } from '@/lib/providers';
+import { clientId, consume, getLimits } from '@/lib/rate-limit';
+import { getStore, StoreConfigError } from '@/lib/store';
+import type { TutorStreamEvent } from '@/lib/tutor';
+import { buildTutorMessages, parseTutorRequest, replyAsTutor } from '@/lib/tutor-reply';
+import type { AnalysisUsage } from '@/lib/usage';
+import { recordUsage } from '@/lib/usage-log';
+
+// POST { essay, taskMode, question?, feedback, focus?, messages }
+// Streams the tutor's answer to the last message as NDJSON: `delta` events
+// with the raw text, then `done` with the reply and its suggested edits, or
+// `error`. Counts against the same rate limit and daily quota as /api/analyze.
+export async function POST(req: Request) {
+  try {
+    const limits = getLimits();
+    const client = clientId(req);
+    const limitStore = getStore('limits');
+    const rate = await consume(limitStore, client, limits.rate);
+    if (!rate.ok) return limitedResponse(rate);
+
+    const read = await readJsonBody(req, INPUT_LIMITS.tutorBodyBytes);
+    if (!read.ok) return bodyErrorResponse(read);
+
+    const parsed = parseTutorRequest(read.body);
+    if (!parsed.ok) {
+      return NextResponse.json<AnalyzeErrorBody>({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.input;
+
+    const provider = getProvider();
+    const prompts = loadPrompts();
+    // A prompt version without tutor.md is a 503 here, before the stream starts and before it costs quota
+    buildTutorMessages(input, prompts);
+    const started = Date.now();
+    const track = (outcome: 'ok' | 'error', usage?: AnalysisUsage) =>
+      recordUsage({
+        client,
+        taskMode: input.taskMode,
+        promptVersion: prompts.version,
+        kind: 'tutor',
+        outcome,
+        usage: usage ?? unmeteredUsage(provider, started),
+      });
+
+    const quota = await consume(limitStore, client, limits.quota);
+    if (!quota.ok) return limitedResponse(quota);
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    req.signal.addEventListener('abort', () => abort.abort(req.signal.reason));
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: TutorStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        try {
+          const outcome = await replyAsTutor(input, provider, {
+            signal: abort.signal,
+            prompts,
+            onDelta: (delta) => send({ type: 'delta', text: delta }),
+          });
+          send({ type: 'done', message: outcome.message });
+          await track('ok', outcome.usage);
+        } catch (error) {
+          await track('error');
+          if (!abort.signal.aborted) {
+            console.error('Error answering tutor question:', error);
+            send({ type: 'error', error: 'The tutor could not answer. Please try again.' });
+          }
+        }
+
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away.
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache, no-transform' },
+    });
+  } catch (error) {
+    if (error instanceof ProviderConfigError || error instanceof PromptConfigError || error instanceof StoreConfigError) {
+      console.error('The tutor is misconfigured:', error.message);
+      return NextResponse.json<AnalyzeErrorBody>({ error: error.message }, { status: 503 });
+    }
+    console.error('Error answering tutor question:', error);
+    return NextResponse.json<AnalyzeErrorBody>({ error: 'The tutor could not answer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { IconChevronRight, IconLoader2, IconSend } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { isPastDeadline, mergeReview, submissionStatus, SUBMISSION_STATUS_LABELS, type AssignmentDetail, type SubmissionStatus } from "@/lib/classroom";
+import { getAssignment, submitEssay } from "@/lib/classroom-client";
+import { INPUT_LIMITS } from "@/lib/input-safety";
+import { getTaskMode } from "@/lib/tasks";
+import { useAccount } from "@/lib/use-account";
+import { countWords } from "@/lib/word-count";
+import { AssignmentBrief, formatDeadline } from "@/components/assignment-brief";
+import { ClassroomShell } from "@/components/classroom-shell";
+
+const STATUS_COLORS: Record<SubmissionStatus, string> = {
+  analysis_failed: "text-red-400",
+  awaiting_review: "text-amber-400",
+  draft_review: "text-blue-400",
+  returned: "text-green-400",
+};
+
+export default function AssignmentPage() {
+  const { assignmentId } = useParams<{ assignmentId: string }>();
+  const router = useRouter();
+  const { account, error, setError, fail } = useAccount();
+  const [detail, setDetail] = useState<AssignmentDetail | null>(null);
+  const [essay, setEssay] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!account) return;
+    getAssignment(assignmentId)
+      .then((loaded) => {
+        setDetail(loaded);
+        // A student can revise what they sent until it is reviewed
+        setEssay(loaded.submissions.find(({ submission }) => submission.studentId === account.id)?.submission.essay ?? "");
+      })
+      .catch((err) => fail(err, "Could not load the assignment"));
+  }, [account, assignmentId, fail]);
+
+  const teaches = !!detail && detail.classroom.teacherId === account?.id;
+  const own = detail?.submissions.find(({ submission }) => submission.studentId === account?.id)?.submission;
+  const minWords = detail ? getTaskMode(detail.assignment.taskMode).minWords : 0;
+  const words = countWords(essay);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const submission = await submitEssay(assignmentId, essay);
+      router.push(`/classroom/submissions/${submission.id}`);
+    } catch (err) {
+      fail(err, "Could not submit your essay");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ClassroomShell
+      title={detail?.assignment.title ?? "Assignment"}
+      subtitle={detail?.classroom.name}
+      back={detail ? { href: `/classroom/classes/${detail.classroom.id}`, label: detail.classroom.name } : { href: "/classroom", label: "All classes" }}
+      account={account}
+      error={error}
+      ready={detail !== null}
+    >
+      {detail && (
+        <div className="space-y-6">
+          <AssignmentBrief assignment={detail.assignment} />
+
+          {teaches ? (
+            <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-white">Submissions</h2>
+              {detail.submissions.length === 0 ? (
+                <p className="text-sm text-neutral-500 italic">No one has submitted yet.</p>
+              ) : (
+                <ul className="divide-y divide-neutral-800">
+                  {detail.submissions.map(({ submission, student }) => {
+                    const status = submissionStatus(submission);
+                    const band = submission.analysis && mergeReview(submission.analysis, submission.review).band_score;
+                    return (
+                      <li key={submission.id}>
+                        <Link href={`/classroom/submissions/${submission.id}`} className="flex items-center gap-4 py-3 group">
+                          <span className="flex-1 text-neutral-200 group-hover:text-white">{student.name}</span>
+                          <span className="text-xs text-neutral-500">
+                            {formatDeadline(submission.submittedAt)}
+                            {submission.late && <span className="ml-2 text-red-400 font-bold">Late</span>}
+                          </span>
+                          <span className={cn("text-xs w-32", STATUS_COLORS[status])}>{SUBMISSION_STATUS_LABELS[status]}</span>
+                          <span className="w-10 text-right font-bold text-white">{band ?? "–"}</span>
+                          <IconChevronRight size={16} className="text-neutral-600 group-hover:text-white" />
+                        </Link>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {detail.missing.length > 0 && (
+                <p className="text-xs text-neutral-500">Not submitted: {detail.missing.map((student) => student.name).join(", ")}</p>
+              )}
+            </section>
+          ) : own?.review ? (
+            <Link
+              href={`/classroom/submissions/${own.id}`}
+              className="flex items-center justify-between bg-neutral-900 border border-green-500/30 rounded-2xl p-6 hover:border-green-500/60 transition-colors"
+            >
+              <span className="text-green-400 font-medium">Your teacher has returned your essay.</span>
+              <IconChevronRight size={18} className="text-green-400" />
+            </Link>
+          ) : (
+            <section className="space-y-3">
+              {own && (
+                <p className="text-sm text-neutral-400">
+                  You submitted on {formatDeadline(own.submittedAt)}
+                  {own.late && " (late)"}.{" "}
+                  <Link href={`/classroom/submissions/${own.id}`} className="text-purple-400 hover:text-purple-300">
+                    See your submission
+                  </Link>
+                  . You can still change it until your teacher starts reviewing it.
+                </p>
+              )}
+              <textarea
+                value={essay}
+                onChange={(e) => setEssay(e.target.value)}
+                maxLength={INPUT_LIMITS.essayChars}
+                placeholder="Write your answer here..."
+                className="w-full h-[480px] bg-neutral-900 border border-neutral-800 rounded-2xl p-6 text-neutral-200 placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-none font-mono text-sm leading-relaxed"
+              />
+              <div className="flex items-center justify-between gap-4">
+                <span className={cn("text-xs", words < minWords ? "text-amber-400" : "text-neutral-500")}>
+                  {words} / {minWords} words
+                </span>
+                <div className="flex items-center gap-3">
+                  {isPastDeadline(detail.assignment) && <span className="text-xs text-red-400">The deadline has passed; this will be marked late.</span>}
+                  <button
+                    onClick={handleSubmit}
+                    disabled={submitting || !essay.trim() || essay === own?.essay}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+                  >
+                    {submitting ? <IconLoader2 size={16} className="animate-spin" /> : <IconSend size={16} />}
+                    {submitting ? "Analysing…" : own ? "Resubmit" : "Submit"}
+                  </button>
+                </div>
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </ClassroomShell>
+  );
+}
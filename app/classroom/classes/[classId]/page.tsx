@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { IconClipboardList, IconClock } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { isPastDeadline, type AssignmentInput, type ClassroomDetail } from "@/lib/classroom";
+import { createAssignment, getClass } from "@/lib/classroom-client";
+import { describeTaskMode, getTaskMode } from "@/lib/tasks";
+import { useAccount } from "@/lib/use-account";
+import { formatDeadline } from "@/components/assignment-brief";
+import { AssignmentForm } from "@/components/assignment-form";
+import { ClassroomShell } from "@/components/classroom-shell";
+
+export default function ClassPage() {
+  const { classId } = useParams<{ classId: string }>();
+  const { account, error, setError, fail } = useAccount();
+  const [detail, setDetail] = useState<ClassroomDetail | null>(null);
+
+  useEffect(() => {
+    if (!account) return;
+    getClass(classId)
+      .then(setDetail)
+      .catch((err) => fail(err, "Could not load the class"));
+  }, [account, classId, fail]);
+
+  const teaches = !!detail && detail.classroom.teacherId === account?.id;
+
+  const handleCreate = async (input: AssignmentInput) => {
+    setError("");
+    try {
+      await createAssignment(classId, input);
+      setDetail(await getClass(classId));
+      return true;
+    } catch (err) {
+      fail(err, "Could not set the assignment");
+      return false;
+    }
+  };
+
+  return (
+    <ClassroomShell
+      title={detail?.classroom.name ?? "Class"}
+      subtitle={
+        detail &&
+        (teaches ? (
+          <>
+            Students join with the code <span className="font-mono text-purple-300 text-base">{detail.classroom.joinCode}</span>
+          </>
+        ) : (
+          `Taught by ${detail.teacher.name}`
+        ))
+      }
+      back={{ href: "/classroom", label: "All classes" }}
+      account={account}
+      error={error}
+      ready={detail !== null}
+    >
+      {detail && (
+        <div className="grid lg:grid-cols-3 gap-6 items-start">
+          <section className="lg:col-span-2 space-y-4">
+            <h2 className="text-lg font-semibold text-white">Assignments</h2>
+            {detail.assignments.length === 0 ? (
+              <div className="flex flex-col items-center justify-center text-neutral-600 space-y-4 border-2 border-dashed border-neutral-800 rounded-3xl p-12">
+                <IconClipboardList size={48} stroke={1} />
+                <p>{teaches ? "No assignments yet. Set one below." : "Your teacher has not set any assignments yet."}</p>
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {detail.assignments.map(({ assignment, submissions, returned }) => (
+                  <li key={assignment.id}>
+                    <Link
+                      href={`/classroom/assignments/${assignment.id}`}
+                      className="block bg-neutral-900 border border-neutral-800 rounded-2xl p-5 space-y-2 hover:border-purple-500/50 transition-colors"
+                    >
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <span className="font-semibold text-white">{assignment.title}</span>
+                        <span className={cn("flex items-center gap-1 text-xs", isPastDeadline(assignment) ? "text-neutral-500" : "text-amber-400")}>
+                          <IconClock size={14} /> {isPastDeadline(assignment) ? "Closed" : "Due"} {formatDeadline(assignment.deadline)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-neutral-400 line-clamp-2">{assignment.question.text}</p>
+                      <div className="flex gap-3 text-xs text-neutral-500">
+                        <span>{describeTaskMode(getTaskMode(assignment.taskMode))}</span>
+                        {teaches ? (
+                          <span>
+                            {submissions} of {detail.students.length} submitted, {returned} returned
+                          </span>
+                        ) : (
+                          <span>{returned ? "Reviewed" : submissions ? "Submitted" : "Not submitted"}</span>
+                        )}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {teaches && (
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-white">New assignment</h2>
+                <AssignmentForm onCreate={handleCreate} />
+              </div>
+            )}
+          </section>
+
+          {teaches && (
+            <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-3">
+              <h2 className="text-lg font-semibold text-white">Students</h2>
+              {detail.students.length === 0 ? (
+                <p className="text-sm text-neutral-500 italic">No one has joined yet.</p>
+              ) : (
+                <ul className="divide-y divide-neutral-800 text-sm">
+                  {detail.students.map((student) => (
+                    <li key={student.id} className="py-2 flex justify-between gap-2">
+                      <span className="text-neutral-200">{student.name}</span>
+                      <span className="text-neutral-500 font-mono text-xs">{student.username}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+        </div>
+      )}
+    </ClassroomShell>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { IconLogout, IconPlus, IconSchool, IconUsers } from "@tabler/icons-react";
+import type { ClassroomSummary } from "@/lib/classroom";
+import { createClass, joinClass, listClasses, signOut } from "@/lib/classroom-client";
+import { useAccount } from "@/lib/use-account";
+import { ClassroomShell } from "@/components/classroom-shell";
+import { ClassroomSignIn } from "@/components/classroom-sign-in";
+
+const inputClass =
+  "flex-1 bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-purple-500";
+
+export default function ClassroomPage() {
+  const router = useRouter();
+  const { account, setAccount, error, setError, fail } = useAccount();
+  const [classes, setClasses] = useState<ClassroomSummary[] | null>(null);
+  // A class name for teachers, a join code for students
+  const [entry, setEntry] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!account) return;
+    listClasses()
+      .then(setClasses)
+      .catch((err) => fail(err, "Could not load your classes"));
+  }, [account, fail]);
+
+  const handleEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account || !entry.trim()) return;
+    setBusy(true);
+    setError("");
+    try {
+      const classId = account.role === "teacher" ? (await createClass(entry)).id : await joinClass(entry);
+      router.push(`/classroom/classes/${classId}`);
+    } catch (err) {
+      fail(err, account.role === "teacher" ? "Could not create the class" : "Could not join the class");
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      setAccount(null);
+      setClasses(null);
+    } catch (err) {
+      fail(err, "Could not sign out");
+    }
+  };
+
+  return (
+    <ClassroomShell
+      title="Classroom"
+      subtitle={account ? `Signed in as ${account.name} (${account.role})` : "Assignments set by your teacher, analysed on submission and reviewed before they come back to you."}
+      back={{ href: "/", label: "Back to the editor" }}
+      account={account}
+      signedOut={<ClassroomSignIn onSignedIn={setAccount} />}
+      actions={
+        <button
+          onClick={handleSignOut}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+        >
+          <IconLogout size={14} /> Sign out
+        </button>
+      }
+      error={error}
+      ready={classes !== null}
+    >
+      <form onSubmit={handleEntry} className="flex gap-2 max-w-lg">
+        <input
+          value={entry}
+          onChange={(e) => setEntry(e.target.value)}
+          placeholder={account?.role === "teacher" ? "New class name" : "Join code from your teacher"}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={busy || !entry.trim()}
+          className="flex items-center gap-1 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+        >
+          <IconPlus size={16} /> {account?.role === "teacher" ? "Create class" : "Join class"}
+        </button>
+      </form>
+
+      {classes?.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-neutral-600 space-y-4 border-2 border-dashed border-neutral-800 rounded-3xl p-12 min-h-[300px]">
+          <IconSchool size={48} stroke={1} />
+          <p>{account?.role === "teacher" ? "Create a class, then share its join code with your students." : "Join a class with the code your teacher gave you."}</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {classes?.map(({ classroom, teacher, assignments }) => (
+            <Link
+              key={classroom.id}
+              href={`/classroom/classes/${classroom.id}`}
+              className="bg-neutral-900 border border-neutral-800 rounded-2xl p-5 space-y-2 hover:border-purple-500/50 transition-colors"
+            >
+              <div className="text-lg font-semibold text-white">{classroom.name}</div>
+              <div className="flex flex-wrap gap-3 text-xs text-neutral-500">
+                {account?.role === "teacher" ? (
+                  <>
+                    <span className="flex items-center gap-1">
+                      <IconUsers size={14} /> {classroom.studentIds.length} {classroom.studentIds.length === 1 ? "student" : "students"}
+                    </span>
+                    <span className="font-mono">Code {classroom.joinCode}</span>
+                  </>
+                ) : (
+                  <span>{teacher.name}</span>
+                )}
+                <span>
+                  {assignments} {assignments === 1 ? "assignment" : "assignments"}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </ClassroomShell>
+  );
+}
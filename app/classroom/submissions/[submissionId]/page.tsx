@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { IconAlertTriangle, IconHourglass, IconLoader2, IconRefresh } from "@tabler/icons-react";
+import type { Submission, SubmissionDetail } from "@/lib/classroom";
+import { getSubmission, retryAnalysis } from "@/lib/classroom-client";
+import { useAccount } from "@/lib/use-account";
+import { AssignmentBrief, formatDeadline } from "@/components/assignment-brief";
+import { ClassroomShell } from "@/components/classroom-shell";
+import { SubmissionResult } from "@/components/submission-result";
+import { SubmissionReview } from "@/components/submission-review";
+
+export default function SubmissionPage() {
+  const { submissionId } = useParams<{ submissionId: string }>();
+  const { account, error, setError, fail } = useAccount();
+  const [detail, setDetail] = useState<SubmissionDetail | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    if (!account) return;
+    getSubmission(submissionId)
+      .then(setDetail)
+      .catch((err) => fail(err, "Could not load the submission"));
+  }, [account, submissionId, fail]);
+
+  const setSubmission = (submission: Submission) => setDetail((prev) => prev && { ...prev, submission });
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    setError("");
+    try {
+      setSubmission(await retryAnalysis(submissionId));
+    } catch (err) {
+      fail(err, "Could not analyse the submission");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const submission = detail?.submission;
+  const reviewing = !!account && account.role === "teacher" && detail?.student.id !== account.id;
+
+  const renderBody = () => {
+    if (!detail || !submission) return null;
+    const { analysis, review } = submission;
+
+    if (!analysis) {
+      return (
+        <div className="bg-neutral-900 border border-red-500/30 rounded-2xl p-6 space-y-4">
+          <p className="flex items-center gap-2 text-red-400">
+            <IconAlertTriangle size={18} /> This essay has not been analysed: {submission.analysisError ?? "the analysis failed."}
+          </p>
+          <button
+            onClick={handleRetry}
+            disabled={retrying}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 disabled:opacity-50 transition-colors"
+          >
+            {retrying ? <IconLoader2 size={14} className="animate-spin" /> : <IconRefresh size={14} />} Analyse again
+          </button>
+          <p className="whitespace-pre-wrap font-mono text-sm leading-relaxed text-neutral-300">{submission.essay}</p>
+        </div>
+      );
+    }
+    if (reviewing) {
+      return (
+        <SubmissionReview
+          detail={{ ...detail, submission: { ...submission, analysis } }}
+          reviewerId={account!.id}
+          onSaved={setSubmission}
+          onError={(err) => fail(err, "Could not save the review")}
+        />
+      );
+    }
+    if (review?.status === "returned") return <SubmissionResult submission={{ ...submission, analysis, review }} assignment={detail.assignment} />;
+    return (
+      <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+        <p className="flex items-center gap-2 text-amber-400">
+          <IconHourglass size={18} /> Your essay has been analysed and is waiting for your teacher&apos;s review.
+        </p>
+        <p className="whitespace-pre-wrap font-mono text-sm leading-relaxed text-neutral-300">{submission.essay}</p>
+      </div>
+    );
+  };
+
+  return (
+    <ClassroomShell
+      title={detail ? (reviewing ? `${detail.student.name}: ${detail.assignment.title}` : detail.assignment.title) : "Submission"}
+      subtitle={
+        submission && (
+          <>
+            Submitted {formatDeadline(submission.submittedAt)}
+            {submission.late && <span className="ml-2 text-red-400 font-bold">Late</span>}
+          </>
+        )
+      }
+      back={detail ? { href: `/classroom/assignments/${detail.assignment.id}`, label: detail.assignment.title } : { href: "/classroom", label: "All classes" }}
+      account={account}
+      error={error}
+      ready={detail !== null}
+    >
+      {detail && (
+        <div className="space-y-6">
+          <AssignmentBrief assignment={detail.assignment} />
+          {renderBody()}
+        </div>
+      )}
+    </ClassroomShell>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { IconArrowLeft, IconBook2, IconCircleCheck, IconLoader2, IconRefresh, IconTrash } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { listEssays, type SavedEssay } from "@/lib/library";
+import { deleteWord, dueWords, findUses, listWords, recordReview, type NotebookWord } from "@/lib/notebook";
+import type { Grade } from "@/lib/srs";
+import { VocabularyReview } from "@/components/vocabulary-review";
+
+type WordFilter = "all" | "due" | "used" | "unused";
+
+const WORD_FILTERS: { id: WordFilter; label: string }[] = [
+  { id: "all", label: "All words" },
+  { id: "due", label: "Due" },
+  { id: "used", label: "Used since" },
+  { id: "unused", label: "Not used yet" },
+];
+
+const describeDue = (due: number, now: number) => {
+  if (due <= now) return "Due now";
+  const days = Math.ceil((due - now) / (24 * 60 * 60 * 1000));
+  return days === 1 ? "Due tomorrow" : `Due in ${days} days`;
+};
+
+export default function NotebookPage() {
+  const [words, setWords] = useState<NotebookWord[] | null>(null);
+  const [essays, setEssays] = useState<SavedEssay[]>([]);
+  const [error, setError] = useState("");
+  const [filter, setFilter] = useState<WordFilter>("all");
+  // Bumped to start a new review session with whatever is due by then
+  const [session, setSession] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    Promise.all([listWords(), listEssays()])
+      .then(([savedWords, savedEssays]) => {
+        setWords(savedWords);
+        setEssays(savedEssays);
+      })
+      .catch((err) => setError(err?.message || "Could not open the vocabulary notebook"));
+  }, []);
+
+  const handleGrade = async (key: string, grade: Grade) => {
+    const updated = await recordReview(key, grade);
+    if (updated) setWords((prev) => prev?.map((word) => (word.key === key ? updated : word)) ?? null);
+    setNow(Date.now());
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await deleteWord(key);
+      setWords((prev) => prev?.filter((word) => word.key !== key) ?? null);
+    } catch (err) {
+      setError((err as Error)?.message || "Could not delete the word");
+    }
+  };
+
+  const all = words ?? [];
+  const due = dueWords(all, now);
+  const uses = new Map(all.map((word) => [word.key, findUses(word, essays)]));
+  const usedCount = all.filter((word) => uses.get(word.key)?.length).length;
+  const shown = all.filter((word) => {
+    if (filter === "due") return word.review.due <= now;
+    if (filter === "used") return !!uses.get(word.key)?.length;
+    if (filter === "unused") return !uses.get(word.key)?.length;
+    return true;
+  });
+
+  return (
+    <main className="min-h-screen bg-neutral-950 text-neutral-200 p-8 font-sans selection:bg-purple-500/30">
+      <div className="max-w-6xl mx-auto space-y-10">
+        <header className="space-y-4">
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors">
+            <IconArrowLeft size={16} /> Back to the editor
+          </Link>
+          <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-50 to-neutral-400">
+            Vocabulary Notebook
+          </h1>
+        </header>
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {words === null ? (
+          !error && (
+            <div className="flex justify-center py-16 text-neutral-500">
+              <IconLoader2 className="animate-spin" />
+            </div>
+          )
+        ) : words.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-neutral-600 space-y-4 border-2 border-dashed border-neutral-800 rounded-3xl p-12 min-h-[300px]">
+            <IconBook2 size={48} stroke={1} />
+            <p>No saved words yet. Save words from the Vocabulary Enrichment cards after an analysis to review them here.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              {[
+                { label: "Saved words", value: words.length },
+                { label: "Due for review", value: due.length },
+                { label: "Used in later essays", value: usedCount },
+              ].map((card) => (
+                <div key={card.label} className="bg-neutral-900 border border-neutral-800 rounded-2xl p-5">
+                  <div className="text-3xl font-bold text-white">{card.value}</div>
+                  <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold mt-1">{card.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <section className="grid lg:grid-cols-5 gap-6 items-start">
+              <div className="lg:col-span-2 bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-white">Review</h2>
+                  <button
+                    onClick={() => {
+                      setNow(Date.now());
+                      setSession((n) => n + 1);
+                    }}
+                    className="flex items-center gap-1 text-xs text-neutral-500 hover:text-white transition-colors"
+                    title="Start a new session with the words due now"
+                  >
+                    <IconRefresh size={14} /> Restart
+                  </button>
+                </div>
+                <VocabularyReview key={session} words={words} onGrade={handleGrade} />
+              </div>
+
+              <div className="lg:col-span-3 bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <div className="flex flex-wrap gap-2 bg-neutral-950 p-1 rounded-full border border-neutral-800 w-fit">
+                  {WORD_FILTERS.map((f) => (
+                    <button
+                      key={f.id}
+                      onClick={() => setFilter(f.id)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-full text-xs font-medium transition-colors",
+                        filter === f.id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+                      )}
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+
+                {shown.length === 0 ? (
+                  <p className="text-sm text-neutral-500 italic">No words match this filter.</p>
+                ) : (
+                  <ul className="divide-y divide-neutral-800">
+                    {shown.map((word) => {
+                      const wordUses = uses.get(word.key) ?? [];
+                      return (
+                        <li key={word.key} className="py-3 flex gap-4 items-start group">
+                          <div className="flex-1 min-w-0 space-y-1">
+                            <div className="flex items-baseline gap-2 flex-wrap">
+                              <span className="font-bold text-amber-400">{word.word}</span>
+                              <span className="text-xs text-neutral-500 font-mono">
+                                {word.phonetic} • {word.type}
+                              </span>
+                            </div>
+                            <p className="text-sm text-neutral-400">{word.definition}</p>
+                            <div className="flex flex-wrap gap-3 text-xs">
+                              <span className={cn(word.review.due <= now ? "text-purple-400" : "text-neutral-500")}>
+                                {describeDue(word.review.due, now)}
+                              </span>
+                              {wordUses.length > 0 ? (
+                                <span className="flex items-center gap-1 text-green-400" title={wordUses.map((use) => `"${use.match}"`).join(", ")}>
+                                  <IconCircleCheck size={14} /> Used in {wordUses.length} later {wordUses.length === 1 ? "essay" : "essays"}
+                                </span>
+                              ) : (
+                                <span className="text-neutral-600">Not used in a later essay yet</span>
+                              )}
+                              {word.sources.length > 1 && <span className="text-neutral-600">Suggested in {word.sources.length} essays</span>}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleDelete(word.key)}
+                            className="p-1.5 rounded-full text-neutral-600 hover:text-red-400 hover:bg-neutral-800 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Remove from notebook"
+                          >
+                            <IconTrash size={16} />
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
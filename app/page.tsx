@@ -1,84 +1,177 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { IconSend, IconWriting, IconLoader2, IconBulb, IconCheck, IconArrowRight, IconListNumbers, IconBook2, IconRotateClockwise, IconReplace } from "@tabler/icons-react";
+import { useCallback, useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { IconSend, IconWriting, IconLoader2, IconBulb, IconCheck, IconArrowRight, IconListNumbers, IconBook2, IconRotateClockwise, IconReplace, IconPlayerStop, IconClipboardCheck, IconCircleCheck, IconCircleHalf2, IconCircleX, IconListCheck, IconAlertTriangle, IconBooks, IconDeviceFloppy, IconChartLine, IconChecks, IconGitCompare, IconFileExport, IconBookmark, IconBookmarkFilled, IconNotebook, IconSparkles, IconMessageCircle, IconSchool } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
 import { Modal } from "@/components/ui/modal";
 import { motion, AnimatePresence } from "framer-motion";
+import { CRITERIA, mergeSection, type Correction, type CriterionKey, type FeedbackData, type PartialFeedback, type QuestionCoverage, type TaskCheck, type VocabularyEnrichment } from "@/lib/feedback";
+import { DEFAULT_TASK_MODE, criterionNames, describeTaskMode, getTaskMode, type TaskModeId } from "@/lib/tasks";
+import { Task1ModePicker } from "@/components/task1-mode-picker";
+import { QuestionEditor } from "@/components/question-editor";
+import { questionForVisual, type ExamQuestion } from "@/lib/question";
+import type { BankQuestion } from "@/lib/question-bank";
+import { AnalysisError, requestAnalysis } from "@/lib/analysis-client";
+import { INJECTION_LABELS } from "@/lib/injection";
+import { countWords } from "@/lib/word-count";
+import { formatClock, type ExamKind } from "@/lib/exam";
+import { useExamTimer } from "@/lib/use-exam-timer";
+import { ExamBar } from "@/components/exam-bar";
+import { listEssays, newId, saveEssay, type EssayDraft, type SavedAnalysis, type SavedEssay } from "@/lib/library";
+import { listWords, saveWord, wordKey } from "@/lib/notebook";
+import { EssayLibrary } from "@/components/essay-library";
+import { diffEdit, resolveAnchor, shiftFeedbackAnchors, type TextAnchor, type TextEdit } from "@/lib/anchors";
+import { collectPendingFixes, type AppliedFixes } from "@/lib/batch-fixes";
+import { BatchReview } from "@/components/batch-review";
+import { RevisionCompare } from "@/components/revision-compare";
+import { ReportExport } from "@/components/report-export";
+import { ModelAnswer } from "@/components/model-answer";
+import { shiftRewriteAnchors, type RewriteResult } from "@/lib/model-answer";
+import { TutorChat } from "@/components/tutor-chat";
+import { describeFocus, type TutorEdit, type TutorFocus, type TutorMessage } from "@/lib/tutor";
+import { measureText } from "@/lib/text-metrics";
+import { MetricsPanel } from "@/components/metrics-panel";
+import { describeUsage } from "@/lib/usage";
 
-interface Correction {
-  original: string;
-  replacement: string;
-  type: string;
-  explanation: string;
+// Everything tied to one essay. The full timed test keeps a Task 1 and a
+// Task 2 workspace and swaps between them.
+interface Workspace {
+  essayId: string;
+  essay: string;
+  history: string[];
+  historyIndex: number;
+  taskMode: TaskModeId;
+  question: ExamQuestion;
+  result: PartialFeedback | null;
+  resultMode: TaskModeId;
+  // The saved analysis the result is from; null while it streams or if it failed
+  resultId: string | null;
+  analyses: SavedAnalysis[];
 }
 
-interface PrioritizedSuggestion {
-  priority: "high" | "medium" | "low";
-  issue: string;
-  suggestion: string;
-  example_fix?: string;
-  apply_to_text?: string | null;
-  replacement_text?: string | null;
-  category: string;
-}
+const blankWorkspace = (taskMode: TaskModeId): Workspace => ({
+  essayId: newId(),
+  essay: "",
+  history: [],
+  historyIndex: -1,
+  taskMode,
+  question: { text: "" },
+  result: null,
+  resultMode: taskMode,
+  resultId: null,
+  analyses: [],
+});
 
-interface VocabularyEnrichment {
-  word: string;
-  phonetic: string;
-  type: string;
-  definition: string;
-  example_sentence: string;
-  context_in_essay: string;
-  target_text?: string | null;
-  replacement_text?: string | null;
-}
+type DraftFields = Pick<Workspace, "essayId" | "essay" | "history" | "historyIndex" | "taskMode" | "question" | "analyses">;
 
-interface Tip {
-  tip: string;
-  example_implementation?: string;
-  apply_to_text?: string | null;
-  replacement_text?: string | null;
-}
+const draftOf = ({ essayId, essay, history, historyIndex, taskMode, question, analyses }: DraftFields): EssayDraft => ({
+  id: essayId,
+  taskMode,
+  question,
+  revisions: history.length > 0 ? history : [essay],
+  revisionIndex: history.length > 0 ? historyIndex : 0,
+  analyses,
+});
 
-interface FeedbackDetail {
-  summary: string;
-  tips: Tip[];
-}
+const isEmptyDraft = ({ essay, analyses }: DraftFields) => !essay.trim() && analyses.length === 0;
 
-interface FeedbackData {
-  band_score: number;
-  prioritized_suggestions: PrioritizedSuggestion[];
-  enrichment?: VocabularyEnrichment[];
-  feedback: {
-    task_achievement: FeedbackDetail;
-    coherence_cohesion: FeedbackDetail;
-    lexical_resource: FeedbackDetail;
-    grammatical_range_accuracy: FeedbackDetail;
+// Opens a saved essay at its current revision with its latest analysis, or at
+// the revision a chosen analysis was run on. An analysis whose revision was
+// overwritten brings its text back as a new revision.
+const workspaceFromSaved = (saved: SavedEssay, chosen?: SavedAnalysis): Workspace => {
+  let { revisions, revisionIndex, analyses } = saved;
+  if (chosen && chosen.revision === null) {
+    revisions = [...revisions, chosen.essay];
+    revisionIndex = revisions.length - 1;
+    analyses = analyses.map((a) => (a.id === chosen.id ? { ...a, revision: revisionIndex } : a));
+  } else if (chosen && chosen.revision !== null) {
+    revisionIndex = chosen.revision;
+  }
+  const shown = chosen ?? analyses.at(-1);
+  const essay = revisions[revisionIndex] ?? "";
+  return {
+    essayId: saved.id,
+    essay,
+    history: revisions,
+    historyIndex: revisionIndex,
+    taskMode: saved.taskMode,
+    question: saved.question,
+    // Anchors point into the analysed text, which may be an earlier revision
+    result: shown ? shiftFeedbackAnchors(shown.data, diffEdit(shown.essay, essay)) : null,
+    resultMode: shown?.taskMode ?? saved.taskMode,
+    resultId: shown?.id ?? null,
+    analyses,
   };
-  corrections: Correction[];
-  general_comment: string;
-}
+};
 
 export default function Home() {
+  const [essayId, setEssayId] = useState(newId);
   const [essay, setEssay] = useState("");
   const [history, setHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   
-  const [taskType, setTaskType] = useState<"Task 1" | "Task 2">("Task 2");
+  const [taskMode, setTaskMode] = useState<TaskModeId>(DEFAULT_TASK_MODE);
+  // Remembered so switching Task 2 -> Task 1 returns to the last Task 1 sub-mode
+  const [lastTask1Mode, setLastTask1Mode] = useState<TaskModeId>("task1-academic-line");
+  const mode = getTaskMode(taskMode);
+  const [question, setQuestion] = useState<ExamQuestion>({ text: "" });
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<FeedbackData | null>(null);
+  const [result, setResult] = useState<PartialFeedback | null>(null);
+  // The mode the current result was produced for, which names its criteria
+  const [resultMode, setResultMode] = useState<TaskModeId>(DEFAULT_TASK_MODE);
+  const resultNames = criterionNames(getTaskMode(resultMode));
+  const [resultId, setResultId] = useState<string | null>(null);
   const [error, setError] = useState("");
-  const [selectedCriterion, setSelectedCriterion] = useState<keyof FeedbackData['feedback'] | null>(null);
+  // Seconds left before the server will accept another analysis, after a 429
+  const [retryIn, setRetryIn] = useState(0);
+  const [selectedCriterion, setSelectedCriterion] = useState<CriterionKey | null>(null);
   const [viewMode, setViewMode] = useState<"edit" | "review">("edit");
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [modelAnswerOpen, setModelAnswerOpen] = useState(false);
+  // The last model answer for this essay; its sentences stay anchored as the essay is edited
+  const [modelAnswer, setModelAnswer] = useState<RewriteResult | null>(null);
+  // The mode the model answer was written for, like `resultMode` for the analysis
+  const [modelAnswerMode, setModelAnswerMode] = useState<TaskModeId>(DEFAULT_TASK_MODE);
+  const [tutorOpen, setTutorOpen] = useState(false);
+  // The correction or tip the next question to the tutor is about
+  const [tutorFocus, setTutorFocus] = useState<TutorFocus | null>(null);
 
   // Tooltip state
-  const [tooltip, setTooltip] = useState<{ x: number; y: number; content: Correction | null }>({ x: 0, y: 0, content: null });
+  // Several corrections when their anchors overlap
+  const [tooltip, setTooltip] = useState<{ x: number; y: number; content: Correction[] | null }>({ x: 0, y: 0, content: null });
 
   // Highlight logic
-  const [lastModifiedText, setLastModifiedText] = useState<string | null>(null);
+  // Range of the last applied fix, highlighted and scrolled to in review mode
+  const [lastModified, setLastModified] = useState<{ start: number; end: number } | null>(null);
   const reviewContainerRef = useRef<HTMLDivElement>(null);
 
+  // In-flight analysis, so it can be cancelled mid-stream
+  const analysisRef = useRef<AbortController | null>(null);
+  useEffect(() => () => analysisRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (retryIn <= 0) return;
+    const timer = setTimeout(() => setRetryIn((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryIn]);
+
+  // The other task's workspace during (and after) a full timed test
+  const [parked, setParked] = useState<Workspace | null>(null);
+  const [parkedLoading, setParkedLoading] = useState(false);
+  const [examNotice, setExamNotice] = useState("");
+
+  // Every analysis of the open essay, each linked to the revision it was run on
+  const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [saveState, setSaveState] = useState<"saving" | "saved" | "error" | null>(null);
+  // Autosave waits until the last session has been restored, so it cannot overwrite it
+  const [restored, setRestored] = useState(false);
+  // Keys (see wordKey) of the words in the vocabulary notebook
+  const [notebookKeys, setNotebookKeys] = useState<Set<string>>(new Set());
+
   // Initialize history
   useEffect(() => {
     if (history.length === 0 && essay) {
@@ -89,73 +182,121 @@ export default function Home() {
 
   // Effect to scroll to changes
   useEffect(() => {
-    if (viewMode === "review" && lastModifiedText && reviewContainerRef.current) {
+    if (viewMode === "review" && lastModified && reviewContainerRef.current) {
       // Small timeout to allow render
       setTimeout(() => {
-        const highlightedElement = reviewContainerRef.current?.querySelector(`[data-highlight="${lastModifiedText}"]`);
+        const highlightedElement = reviewContainerRef.current?.querySelector("[data-highlight]");
         if (highlightedElement) {
           highlightedElement.scrollIntoView({ behavior: "smooth", block: "center" });
           // Optional: Add a temporary flash class here if desired
         }
       }, 100);
     }
-  }, [essay, viewMode, lastModifiedText]);
+  }, [essay, viewMode, lastModified]);
 
-  // Update essay wrapper to handle history
-  const updateEssay = (newEssay: string, sourceReplacement?: string) => {
+  // Sets the text and keeps the result's anchors in step with the edit. Several
+  // separate edits (a batch of fixes) are passed in so each shifts anchors in turn.
+  const changeEssay = (newEssay: string, edits: TextEdit[] = [diffEdit(essay, newEssay)]) => {
     setEssay(newEssay);
+    setResult((prev) => prev && edits.reduce(shiftFeedbackAnchors, prev));
+    setModelAnswer((prev) => prev && edits.reduce(shiftRewriteAnchors, prev));
+  };
+
+  // Update essay wrapper to handle history
+  const updateEssay = (newEssay: string, highlight?: { start: number; end: number }, edits?: TextEdit[]) => {
+    if (locked) return;
+    changeEssay(newEssay, edits);
+    if (historyIndex < history.length - 1) {
+      // The redo branch is discarded, and with it any revision an analysis was run on
+      setAnalyses((prev) => prev.map((a) => (a.revision !== null && a.revision > historyIndex ? { ...a, revision: null } : a)));
+    }
     const newHistory = history.slice(0, historyIndex + 1);
     newHistory.push(newEssay);
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
-    if (sourceReplacement) {
-       setLastModifiedText(sourceReplacement);
-    }
+    setLastModified(highlight ?? null);
   };
 
-  const applyFix = (original: string, replacement: string, event?: React.MouseEvent) => {
-    const newEssay = essay.replace(original, replacement);
-    if (event?.shiftKey) {
-        // Skip scrolling logic if Shift is held
-        updateEssay(newEssay, undefined); // Pass undefined to prevent triggering scroll/highlight
-    } else {
-        updateEssay(newEssay, replacement);
+  // Replaces exactly the span the item is anchored to. A span that has been
+  // edited since the analysis is never guessed at.
+  const applyFix = (text: string, anchor: TextAnchor | undefined, replacement: string, event?: React.MouseEvent) => {
+    const target = resolveAnchor(essay, text, anchor);
+    if (target.status !== "ok") {
+      setError("That part of the essay has changed since it was analysed, so this fix can no longer be applied.");
+      return;
     }
+    const newEssay = essay.slice(0, target.start) + replacement + essay.slice(target.end);
+    // Shift skips the scroll/highlight
+    updateEssay(newEssay, event?.shiftKey ? undefined : { start: target.start, end: target.start + replacement.length });
     setViewMode("review");
     if (selectedCriterion) setSelectedCriterion(null);
   };
 
+  // A model-answer sentence taken into the essay, as one undo step
+  const adoptSentence = (start: number, end: number, text: string) => {
+    updateEssay(essay.slice(0, start) + text + essay.slice(end), { start, end: start + text.length });
+  };
+
+  // The fixes accepted in the review panel, applied as a single undo step
+  const applyBatch = (applied: AppliedFixes) => {
+    updateEssay(applied.essay, undefined, applied.edits);
+    setBatchOpen(false);
+    setViewMode("review");
+  };
+
+  // The tutor discusses the analysis on screen, once it is complete and saved
+  const tutorReady = !!resultId && analyses.some((a) => a.id === resultId) && result?.band_score !== undefined && !loading;
+  const conversation = analyses.find((a) => a.id === resultId)?.conversation ?? [];
+
+  // Appends to the conversation of the analysis the question was asked about,
+  // even if another one is on screen by the time the answer arrives
+  const addTutorMessages = (id: string) => (messages: TutorMessage[]) =>
+    setAnalyses((prev) => prev.map((a) => (a.id === id ? { ...a, conversation: [...(a.conversation ?? []), ...messages] } : a)));
+
+  const tutorFocusLabel = (focus: TutorFocus) => {
+    if (focus.kind === "criterion") return resultNames[focus.criterion].label;
+    const kind = focus.kind === "tip" ? `${resultNames[focus.criterion].short} tip` : "Correction";
+    const text = result && describeFocus(result, focus);
+    return text ? `${kind}: ${text}` : `${kind} no longer in the analysis`;
+  };
+
+  const askTutor = (focus: TutorFocus | null) => {
+    setTutorFocus(focus);
+    setTutorOpen(true);
+  };
+
+  const renderTutorChat = (focus?: TutorFocus) =>
+    resultId && (
+      <TutorChat
+        request={{
+          essay,
+          taskMode: resultMode,
+          question: questionForVisual(question, getTaskMode(resultMode).visual),
+          feedback: result as FeedbackData,
+        }}
+        conversation={conversation}
+        focus={focus}
+        onClearFocus={tutorFocus ? () => setTutorFocus(null) : undefined}
+        focusLabel={tutorFocusLabel}
+        onMessages={addTutorMessages(resultId)}
+        onApplyEdit={(edit: TutorEdit, e) => applyFix(edit.original, edit.anchor, edit.replacement, e)}
+      />
+    );
+
   const handleUndo = () => {
-    if (historyIndex > 0) {
+    if (!locked && historyIndex > 0) {
       setHistoryIndex(historyIndex - 1);
-      setEssay(history[historyIndex - 1]);
+      changeEssay(history[historyIndex - 1]);
     }
   };
 
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
+    if (!locked && historyIndex < history.length - 1) {
       setHistoryIndex(historyIndex + 1);
-      setEssay(history[historyIndex + 1]);
+      changeEssay(history[historyIndex + 1]);
     }
   };
 
-  // Keyboard shortcuts for Undo/Redo
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
-        e.preventDefault();
-        handleUndo();
-      }
-      if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
-        e.preventDefault();
-        handleRedo();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [history, historyIndex]);
-
   const handleAnalyze = async () => {
     if (!essay.trim()) {
       setError("Please enter your essay.");
@@ -163,115 +304,377 @@ export default function Home() {
     }
     setError("");
     setLoading(true);
-    setResult(null);
+    setResult({});
+    setResultMode(taskMode);
+    setResultId(null);
+    const analysed = { id: newId(), essay, revision: historyIndex, taskMode, question };
 
-    try {
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ essay, taskType }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to analyze essay");
-      }
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
 
-      const data = await response.json();
+    try {
+      const data = await requestAnalysis(
+        { essay, taskMode, question: questionForVisual(question, mode.visual) },
+        {
+          signal: controller.signal,
+          onSection: (section) => setResult((prev) => mergeSection(prev ?? {}, section)),
+        },
+      );
       setResult(data);
+      setResultId(analysed.id);
+      setAnalyses((prev) => [...prev, { ...analysed, data, createdAt: Date.now() }]);
       setViewMode("review"); // Switch to review mode automatically
+    } catch (err) {
+      // Keep whatever sections already arrived; only drop an empty result.
+      setResult((prev) => (prev && Object.keys(prev).length > 0 ? prev : null));
+      if (controller.signal.aborted) {
+        setError("Analysis cancelled.");
+      } else if (err instanceof AnalysisError && err.fields?.length) {
+        setError(`The analysis came back incomplete (${err.fields.join(", ")}). Please try again.`);
+      } else if (err instanceof AnalysisError && err.degraded) {
+        // The offline corrections arrived as sections and are shown in review mode
+        setError(`The AI examiner is unavailable (${err.message}), so only the offline grammar and style checks were run. No band score was given.`);
+        setViewMode("review");
+      } else if (err instanceof AnalysisError && err.status && err.status < 500) {
+        setError(err.message);
+        if (err.retryAfter) setRetryIn(err.retryAfter);
+      } else {
+        console.error(err);
+        setError("Something went wrong. Please try again.");
+      }
+    } finally {
+      if (analysisRef.current === controller) {
+        analysisRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    analysisRef.current?.abort();
+  };
+
+  const selectTaskMode = useCallback((id: TaskModeId) => {
+    setTaskMode(id);
+    if (getTaskMode(id).task === "Task 1") setLastTask1Mode(id);
+  }, []);
+
+  const pickQuestion = (picked: BankQuestion) => {
+    selectTaskMode(picked.taskMode);
+    setQuestion({ text: picked.text, visual: picked.visual, bankId: picked.id });
+  };
+
+  const currentWorkspace = (): Workspace => ({ essayId, essay, history, historyIndex, taskMode, question, result, resultMode, resultId, analyses });
+
+  // Only sets state, so it is stable and the restore on load can depend on it
+  const restoreWorkspace = useCallback((workspace: Workspace) => {
+    setEssayId(workspace.essayId);
+    setEssay(workspace.essay);
+    setHistory(workspace.history);
+    setHistoryIndex(workspace.historyIndex);
+    selectTaskMode(workspace.taskMode);
+    setQuestion(workspace.question);
+    setResult(workspace.result);
+    setResultMode(workspace.resultMode);
+    setResultId(workspace.resultId);
+    setAnalyses(workspace.analyses);
+    setModelAnswer(null);
+    setViewMode(workspace.result ? "review" : "edit");
+    setLastModified(null);
+  }, [selectTaskMode]);
+
+  const swapWorkspace = () => {
+    if (!parked) return;
+    setParked(currentWorkspace());
+    restoreWorkspace(parked);
+  };
+
+  // Switching task swaps in the parked workspace when it belongs to that task
+  const switchTask = (task: "Task 1" | "Task 2") => {
+    if (mode.task === task) return;
+    if (parked && getTaskMode(parked.taskMode).task === task) swapWorkspace();
+    else selectTaskMode(task === "Task 1" ? lastTask1Mode : "task2");
+  };
+
+  // Analyses the parked workspace without streaming; its result is shown when
+  // the candidate switches to it.
+  const analyzeParked = async (workspace: Workspace) => {
+    setParkedLoading(true);
+    try {
+      const data = await requestAnalysis({
+        essay: workspace.essay,
+        taskMode: workspace.taskMode,
+        question: questionForVisual(workspace.question, getTaskMode(workspace.taskMode).visual),
+      });
+      const analysis: SavedAnalysis = {
+        id: newId(),
+        revision: workspace.historyIndex,
+        essay: workspace.essay,
+        taskMode: workspace.taskMode,
+        question: workspace.question,
+        data,
+        createdAt: Date.now(),
+      };
+      setParked((prev) => prev && { ...prev, result: data, resultMode: workspace.taskMode, resultId: analysis.id, analyses: [...prev.analyses, analysis] });
     } catch (err) {
       console.error(err);
-      setError("Something went wrong. Please try again.");
+      setError(`Your ${getTaskMode(workspace.taskMode).task} answer could not be analysed. Switch to it and try again.`);
     } finally {
-      setLoading(false);
+      setParkedLoading(false);
+    }
+  };
+
+  const persist = async (draft: DraftFields) => {
+    if (isEmptyDraft(draft)) return;
+    setSaveState("saving");
+    try {
+      await saveEssay(draftOf(draft));
+      setSaveState("saved");
+    } catch (err) {
+      console.error("Could not save essay:", err);
+      setSaveState("error");
+    }
+  };
+
+  // Reopen the most recently edited essay after a refresh
+  useEffect(() => {
+    listEssays()
+      .then(([latest]) => {
+        if (latest) restoreWorkspace(workspaceFromSaved(latest));
+      })
+      .catch((err) => console.error("Could not open the essay library:", err))
+      .finally(() => setRestored(true));
+  }, [restoreWorkspace]);
+
+  useEffect(() => {
+    listWords()
+      .then((words) => setNotebookKeys(new Set(words.map((word) => word.key))))
+      .catch((err) => console.error("Could not open the vocabulary notebook:", err));
+  }, []);
+
+  const saveToNotebook = async (item: VocabularyEnrichment) => {
+    try {
+      const saved = await saveWord(item, essayId);
+      setNotebookKeys((prev) => new Set(prev).add(saved.key));
+    } catch (err) {
+      console.error("Could not save to the vocabulary notebook:", err);
     }
   };
 
-  const formatCriterionName = (key: string) => {
-    return key.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' & ');
+  // Autosave the open essay shortly after the last change
+  useEffect(() => {
+    if (!restored) return;
+    const timer = setTimeout(() => persist({ essayId, essay, history, historyIndex, taskMode, question, analyses }), 800);
+    return () => clearTimeout(timer);
+  }, [restored, essayId, essay, history, historyIndex, taskMode, question, analyses]);
+
+  // The parked workspace changes rarely (on swap or when its analysis lands)
+  useEffect(() => {
+    if (parked && !isEmptyDraft(parked)) {
+      saveEssay(draftOf(parked)).catch((err) => console.error("Could not save essay:", err));
+    }
+  }, [parked]);
+
+  const openWorkspace = (workspace: Workspace) => {
+    analysisRef.current?.abort();
+    persist(currentWorkspace());
+    if (parked?.essayId === workspace.essayId) setParked(null);
+    restoreWorkspace(workspace);
+    setError("");
+    setLibraryOpen(false);
+  };
+
+  const handleDeleted = (id: string) => {
+    if (parked?.essayId === id) setParked(null);
+    if (id === essayId) restoreWorkspace(blankWorkspace(taskMode));
+  };
+
+  const startExam = (kind: ExamKind) => {
+    if (kind === "full") {
+      // Start on Task 1, keeping any Task 2 draft as the parked workspace
+      if (parked) {
+        if (mode.task === "Task 2") swapWorkspace();
+      } else if (mode.task === "Task 2") {
+        setParked(currentWorkspace());
+        restoreWorkspace(blankWorkspace(lastTask1Mode));
+      } else {
+        setParked(blankWorkspace("task2"));
+      }
+    } else {
+      switchTask(kind === "task1" ? "Task 1" : "Task 2");
+    }
+    setResult(null);
+    setResultId(null);
+    setViewMode("edit");
+    setError("");
+    setExamNotice("");
+    exam.start(kind);
+  };
+
+  const submitExam = (timeUp: boolean) => {
+    exam.finish();
+    setExamNotice(timeUp ? "Time is up. Your answer has been submitted for analysis." : "");
+    handleAnalyze();
+    if (exam.plan?.kind === "full" && parked?.essay.trim()) analyzeParked(parked);
+  };
+
+  const exam = useExamTimer({
+    onWarning: (warning) => setExamNotice(warning.message),
+    onTimeUp: () => submitExam(true),
+  });
+  const examRunning = exam.status === "running";
+  // The answer cannot change once the exam is over, until the candidate leaves exam mode
+  const locked = exam.status === "finished";
+
+  // Keyboard shortcuts for Undo/Redo, which must see when the exam locks the answer
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+        e.preventDefault();
+        handleUndo();
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, historyIndex, locked]);
+
+  const wordCount = countWords(essay);
+  // Every fix from the current result that can still be applied where it was found
+  const pendingFixes = result ? collectPendingFixes(result, essay) : [];
+  // Single-task exams stay on their task; the full test can move between both
+  const canSwitchTask = !loading && !parkedLoading && (!examRunning || exam.plan?.kind === "full");
+
+  const checkStatusIcon = (status: TaskCheck["status"] | QuestionCoverage["status"]) => {
+    switch (status) {
+      case "met":
+      case "addressed": return <IconCircleCheck size={18} className="text-green-500 shrink-0" />;
+      case "partial": return <IconCircleHalf2 size={18} className="text-yellow-500 shrink-0" />;
+      default: return <IconCircleX size={18} className="text-red-500 shrink-0" />;
+    }
   };
 
   // Function to render essay with clickable highlights
   const renderAnnotatedEssay = () => {
-    // This function splits text based on known corrections.
-    // It also needs to find the "lastModifiedText" if present and wrap it for scrolling.
+    // Highlights each correction at its anchored span. Corrections whose
+    // spans overlap are drawn as one group; ones whose text has changed are
+    // listed underneath instead of being highlighted somewhere else.
     if (!result) return essay;
-    
-    let annotatedText: (string | React.ReactNode)[] = [essay];
-
-    // First, apply correction highlights
-    result.corrections.forEach((correction, index) => {
-      const newAnnotatedText: (string | React.ReactNode)[] = [];
-      annotatedText.forEach((segment) => {
-        if (typeof segment === "string") {
-          // Only split if the correction text still exists in the essay
-          const parts = segment.split(correction.original);
-          if (parts.length > 1) {
-            parts.forEach((part, i) => {
-              newAnnotatedText.push(part);
-              if (i < parts.length - 1) {
-                newAnnotatedText.push(
-                  <span
-                    key={`corr-${index}-${i}`}
-                    className="bg-red-500/20 border-b-2 border-red-500 cursor-pointer hover:bg-red-500/30 transition-colors px-1"
-                    onMouseEnter={(e) => {
-                      const rect = e.currentTarget.getBoundingClientRect();
-                      setTooltip({
-                        x: rect.left + rect.width / 2,
-                        y: rect.top,
-                        content: correction
-                      });
-                    }}
-                    onMouseLeave={() => setTooltip(prev => ({ ...prev, content: null }))}
-                    onClick={(e) => applyFix(correction.original, correction.replacement, e)}
-                  >
-                    {correction.original}
-                  </span>
-                );
-              }
-            });
-          } else {
-            newAnnotatedText.push(segment);
-          }
-        } else {
-          newAnnotatedText.push(segment);
-        }
-      });
-      annotatedText = newAnnotatedText;
-    });
 
-    // Second pass: If there's a lastModifiedText (that wasn't a correction, e.g. vocabulary swap), find and highlight it.
-    // Note: If the lastModifiedText IS a correction replacement, the previous loop wouldn't have found it (because it looked for original).
-    // So we search the string segments for lastModifiedText.
-    if (lastModifiedText) {
-      const finalAnnotatedText: (string | React.ReactNode)[] = [];
-      annotatedText.forEach(segment => {
-        if (typeof segment === "string" && segment.includes(lastModifiedText)) {
-           const parts = segment.split(lastModifiedText);
-           parts.forEach((part, i) => {
-             finalAnnotatedText.push(part);
-             if (i < parts.length - 1) {
-               finalAnnotatedText.push(
-                 <span 
-                   key={`mod-${i}`} 
-                   data-highlight={lastModifiedText}
-                   className="bg-green-500/30 transition-colors duration-1000 ease-out animate-pulse" 
-                 >
-                   {lastModifiedText}
-                 </span>
-               );
-             }
-           });
+    const marks: { start: number; end: number; corrections: Correction[] }[] = [];
+    const stale: Correction[] = [];
+    (result.corrections ?? [])
+      .map((correction) => ({ correction, target: resolveAnchor(essay, correction.original, correction.anchor, correction.replacement) }))
+      .sort((a, b) => (a.target.status === "stale" ? 0 : a.target.start) - (b.target.status === "stale" ? 0 : b.target.start))
+      .forEach(({ correction, target }) => {
+        if (target.status === "stale") {
+          stale.push(correction);
+          return;
+        }
+        if (target.status !== "ok") return;
+        const last = marks.at(-1);
+        if (last && target.start < last.end) {
+          last.end = Math.max(last.end, target.end);
+          last.corrections.push(correction);
         } else {
-          finalAnnotatedText.push(segment);
+          marks.push({ start: target.start, end: target.end, corrections: [correction] });
         }
       });
-      annotatedText = finalAnnotatedText;
-    }
 
-    return <div className="whitespace-pre-wrap leading-relaxed pb-32">{annotatedText}</div>;
+    // Plain text between marks, with the last applied fix highlighted if it falls there
+    const plain = (from: number, to: number, key: string): React.ReactNode[] => {
+      if (lastModified && lastModified.start >= from && lastModified.end <= to && lastModified.end > lastModified.start) {
+        return [
+          essay.slice(from, lastModified.start),
+          <span key={`mod-${key}`} data-highlight className="bg-green-500/30 transition-colors duration-1000 ease-out animate-pulse">
+            {essay.slice(lastModified.start, lastModified.end)}
+          </span>,
+          essay.slice(lastModified.end, to),
+        ];
+      }
+      return [essay.slice(from, to)];
+    };
+
+    const annotatedText: React.ReactNode[] = [];
+    let cursor = 0;
+    marks.forEach((mark, index) => {
+      annotatedText.push(...plain(cursor, mark.start, `${index}`));
+      const overlapping = mark.corrections.length > 1;
+      const [first] = mark.corrections;
+      annotatedText.push(
+        <span
+          key={`corr-${index}`}
+          className={cn(
+            "cursor-pointer transition-colors px-1 border-b-2",
+            overlapping
+              ? "bg-amber-500/20 border-dashed border-amber-500 hover:bg-amber-500/30"
+              : "bg-red-500/20 border-red-500 hover:bg-red-500/30"
+          )}
+          onMouseEnter={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setTooltip({
+              x: rect.left + rect.width / 2,
+              y: rect.top,
+              content: mark.corrections
+            });
+          }}
+          onMouseLeave={() => setTooltip(prev => ({ ...prev, content: null }))}
+          onClick={(e) => {
+            // Alt-click asks the tutor about the correction instead of applying it
+            if (e.altKey && tutorReady) askTutor({ kind: "correction", index: result.corrections?.indexOf(first) ?? 0 });
+            else applyFix(first.original, first.anchor, first.replacement, e);
+          }}
+        >
+          {essay.slice(mark.start, mark.end)}
+        </span>
+      );
+      cursor = mark.end;
+    });
+    annotatedText.push(...plain(cursor, essay.length, "end"));
+
+    return (
+      <div className="whitespace-pre-wrap leading-relaxed pb-32">
+        {annotatedText}
+        {stale.length > 0 && (
+          <div className="mt-8 pt-4 border-t border-neutral-800 font-sans space-y-2">
+            <div className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">
+              No longer matches the text ({stale.length})
+            </div>
+            {stale.map((correction, index) => (
+              <div key={index} className="text-xs text-neutral-500">
+                <span className="line-through">{correction.original}</span> → {correction.replacement}
+                <span className="ml-2 text-neutral-600">{correction.explanation}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
   };
 
+  const renderPendingSection = (title: string) => (
+    <div className="animate-pulse">
+      <h3 className="text-lg font-semibold text-neutral-600 mb-4 flex items-center gap-2">
+        <IconLoader2 size={20} className="animate-spin" />
+        {title}
+      </h3>
+      <div className="space-y-3">
+        <div className="h-16 bg-neutral-900 border border-neutral-800 rounded-xl" />
+        <div className="h-16 bg-neutral-900 border border-neutral-800 rounded-xl" />
+      </div>
+    </div>
+  );
+
+  // Whether an item's quoted text is still there ("ok"), already replaced by
+  // its fix ("applied") or edited some other way ("stale"); null if it quotes nothing
+  const anchorStatus = (text: string | null | undefined, anchor: TextAnchor | undefined, replacement: string | null | undefined) =>
+    text ? resolveAnchor(essay, text, anchor, replacement).status : null;
+
   const getPriorityColor = (priority: string) => {
     switch(priority) {
       case 'high': return 'text-red-400 border-red-900/30 bg-red-950/20';
@@ -298,15 +701,26 @@ export default function Home() {
             }}
             className="w-80 bg-neutral-900 border border-neutral-700 p-4 rounded-xl shadow-2xl text-xs z-[100] pointer-events-none"
           >
-            <span className="block font-bold text-green-400 mb-1 text-base">
-              Click to change to: &quot;{tooltip.content.replacement}&quot;
-            </span>
-            <span className="block text-neutral-300 mb-2">
-              {tooltip.content.explanation}
-            </span>
-            <span className="block text-neutral-500 text-[10px] uppercase tracking-wider">
-              {tooltip.content.type}
-            </span>
+            {tooltip.content.length > 1 && (
+              <span className="block text-amber-400 mb-3">
+                {tooltip.content.length} corrections overlap here. Clicking applies the first; the others will then show as changed.
+              </span>
+            )}
+            {tooltip.content.map((correction, index) => (
+              <span key={index} className={cn("block", index > 0 && "mt-3 pt-3 border-t border-neutral-800")}>
+                <span className="block font-bold text-green-400 mb-1 text-base">
+                  {index === 0 ? "Click to change to" : "Or"}: &quot;{correction.replacement}&quot;
+                </span>
+                <span className="block text-neutral-300 mb-2">
+                  {correction.explanation}
+                </span>
+                <span className="block text-neutral-500 text-[10px] uppercase tracking-wider">
+                  {correction.type}
+                  {correction.source === "local" && " · offline check"}
+                </span>
+              </span>
+            ))}
+            {tutorReady && <span className="block mt-3 text-neutral-500">Alt-click to ask the tutor about it.</span>}
             <div className="absolute bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2 w-2 h-2 bg-neutral-900 border-r border-b border-neutral-700 rotate-45"></div>
           </motion.div>
         )}
@@ -322,6 +736,15 @@ export default function Home() {
           <p className="text-neutral-400 text-lg max-w-2xl mx-auto">
             AI-powered feedback, scoring, and interactive corrections.
           </p>
+          <Link href="/progress" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors">
+            <IconChartLine size={16} /> View your progress
+          </Link>
+          <Link href="/notebook" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors ml-4">
+            <IconNotebook size={16} /> Vocabulary notebook
+          </Link>
+          <Link href="/classroom" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors ml-4">
+            <IconSchool size={16} /> Classroom
+          </Link>
         </header>
 
         <div className="grid lg:grid-cols-2 gap-12 items-start">
@@ -330,23 +753,25 @@ export default function Home() {
              <div className="flex justify-between items-center">
                 <div className="flex gap-4">
                   <button
-                    onClick={() => setTaskType("Task 1")}
+                    onClick={() => switchTask("Task 1")}
+                    disabled={!canSwitchTask}
                     className={cn(
                       "px-4 py-2 rounded-full text-sm font-medium transition-colors",
-                      taskType === "Task 1"
+                      mode.task === "Task 1"
                         ? "bg-purple-600 text-white"
-                        : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                        : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800"
                     )}
                   >
                     Task 1
                   </button>
                   <button
-                    onClick={() => setTaskType("Task 2")}
+                    onClick={() => switchTask("Task 2")}
+                    disabled={!canSwitchTask}
                     className={cn(
                       "px-4 py-2 rounded-full text-sm font-medium transition-colors",
-                      taskType === "Task 2"
+                      mode.task === "Task 2"
                         ? "bg-purple-600 text-white"
-                        : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                        : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 disabled:opacity-40 disabled:hover:bg-neutral-800"
                     )}
                   >
                     Task 2
@@ -354,11 +779,22 @@ export default function Home() {
                 </div>
                 
                 <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => setLibraryOpen(true)}
+                    disabled={examRunning}
+                    className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-400 hover:text-white disabled:opacity-40 transition-colors"
+                    title={saveState === "error" ? "Your essay could not be saved" : "Saved essays"}
+                  >
+                    {saveState === "error" ? <IconDeviceFloppy size={14} className="text-red-500" /> : <IconBooks size={14} />}
+                    Library
+                    {saveState === "saving" && <IconLoader2 size={12} className="animate-spin" />}
+                  </button>
+
                   {/* Undo/Redo Controls */}
                   <div className="flex gap-1">
                      <button 
                         onClick={handleUndo} 
-                        disabled={historyIndex <= 0}
+                        disabled={locked || historyIndex <= 0}
                         className="p-2 rounded-full hover:bg-neutral-800 disabled:opacity-30 transition-colors"
                         title="Undo (Ctrl+Z)"
                       >
@@ -366,7 +802,7 @@ export default function Home() {
                      </button>
                      <button 
                         onClick={handleRedo} 
-                        disabled={historyIndex >= history.length - 1}
+                        disabled={locked || historyIndex >= history.length - 1}
                         className="p-2 rounded-full hover:bg-neutral-800 disabled:opacity-30 transition-colors"
                         title="Redo (Ctrl+Y)"
                       >
@@ -374,6 +810,51 @@ export default function Home() {
                      </button>
                   </div>
 
+                  {result && !loading && !locked && pendingFixes.length > 0 && (
+                    <button
+                      onClick={() => setBatchOpen(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <IconChecks size={14} /> Review all fixes ({pendingFixes.length})
+                    </button>
+                  )}
+
+                  {analyses.length >= 2 && !loading && (
+                    <button
+                      onClick={() => setCompareOpen(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <IconGitCompare size={14} /> Compare
+                    </button>
+                  )}
+
+                  {analyses.length > 0 && !loading && (
+                    <button
+                      onClick={() => setExportOpen(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <IconFileExport size={14} /> Export
+                    </button>
+                  )}
+
+                  {result?.band_score !== undefined && !loading && (
+                    <button
+                      onClick={() => setModelAnswerOpen(true)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <IconSparkles size={14} /> Model answer
+                    </button>
+                  )}
+
+                  {tutorReady && (
+                    <button
+                      onClick={() => askTutor(null)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                    >
+                      <IconMessageCircle size={14} /> Ask the tutor{conversation.length > 0 && ` (${conversation.length / 2})`}
+                    </button>
+                  )}
+
                   {result && (
                     <div className="flex gap-2 bg-neutral-900 p-1 rounded-full border border-neutral-800">
                       <button
@@ -399,13 +880,32 @@ export default function Home() {
                 </div>
              </div>
 
+            <ExamBar
+              status={exam.status}
+              plan={exam.plan}
+              remainingMs={exam.remainingMs}
+              notice={examNotice}
+              onStart={startExam}
+              onSubmit={() => submitExam(false)}
+              onEnd={() => {
+                exam.reset();
+                setExamNotice("");
+              }}
+              onDismissNotice={() => setExamNotice("")}
+            />
+
+            {mode.task === "Task 1" && <Task1ModePicker value={taskMode} onChange={selectTaskMode} />}
+
+            <QuestionEditor mode={mode} question={question} onChange={setQuestion} onPick={pickQuestion} />
+
             <div className="relative">
               {viewMode === "edit" ? (
                 <textarea
                   value={essay}
                   onChange={(e) => updateEssay(e.target.value)}
-                  placeholder={`Paste your ${taskType} essay here...`}
-                  className="w-full h-[600px] bg-neutral-900 border border-neutral-800 rounded-2xl p-6 text-neutral-200 placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-none transition-all shadow-lg font-mono text-sm leading-relaxed"
+                  readOnly={locked}
+                  placeholder={`Paste your ${describeTaskMode(mode)} ${mode.module === "general" ? "letter" : "response"} here...`}
+                  className="w-full h-[600px] bg-neutral-900 border border-neutral-800 rounded-2xl p-6 text-neutral-200 placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-none transition-all shadow-lg font-mono text-sm leading-relaxed read-only:opacity-70 read-only:cursor-not-allowed"
                 />
               ) : (
                 <div 
@@ -417,26 +917,51 @@ export default function Home() {
                 </div>
               )}
               
-              <div className="absolute bottom-4 right-4 text-xs text-neutral-500 bg-neutral-900/80 px-2 py-1 rounded-md">
-                {essay.split(/\s+/).filter(w => w.length > 0).length} words
+              <div
+                className={cn(
+                  "absolute bottom-4 right-4 text-xs bg-neutral-900/80 px-2 py-1 rounded-md",
+                  essay.trim() && wordCount < mode.minWords ? "text-amber-400" : "text-neutral-500"
+                )}
+                title="Counted as IELTS examiners do: hyphenated words, contractions and numbers count as one word"
+              >
+                {wordCount} / {mode.minWords} words
               </div>
             </div>
 
+            {essay.trim() && <MetricsPanel metrics={measureText(essay)} />}
+
             {error && <p className="text-red-500 text-sm">{error}</p>}
 
-            <button
-              onClick={handleAnalyze}
-              disabled={loading}
-              className="w-full bg-white text-black font-bold py-4 rounded-xl hover:bg-neutral-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? (
-                <IconLoader2 className="animate-spin" />
-              ) : (
-                <>
-                  <IconSend size={20} /> {result ? "Re-Analyze Essay" : "Analyze Essay"}
-                </>
+            <div className="flex gap-3">
+              <button
+                onClick={examRunning ? () => submitExam(false) : handleAnalyze}
+                disabled={loading || (!examRunning && retryIn > 0)}
+                className="w-full bg-white text-black font-bold py-4 rounded-xl hover:bg-neutral-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? (
+                  <IconLoader2 className="animate-spin" />
+                ) : (
+                  <>
+                    <IconSend size={20} />{" "}
+                    {examRunning
+                      ? "Submit Answer"
+                      : retryIn > 0
+                        ? `Try again in ${formatClock(retryIn * 1000)}`
+                        : result
+                          ? "Re-Analyze Essay"
+                          : "Analyze Essay"}
+                  </>
+                )}
+              </button>
+              {loading && (
+                <button
+                  onClick={handleCancel}
+                  className="shrink-0 px-5 rounded-xl border border-neutral-700 text-neutral-300 hover:bg-neutral-800 transition-colors flex items-center gap-2 text-sm font-medium"
+                >
+                  <IconPlayerStop size={16} /> Cancel
+                </button>
               )}
-            </button>
+            </div>
           </div>
 
           {/* Results Section */}
@@ -446,15 +971,102 @@ export default function Home() {
                 {/* Score Card */}
                 <div className="bg-neutral-900 border border-neutral-800 rounded-3xl p-8 text-center relative overflow-hidden group">
                   <div className="absolute inset-0 bg-gradient-to-br from-purple-500/10 to-blue-500/10 group-hover:opacity-75 transition-opacity duration-500" />
-                  <h2 className="text-6xl font-bold text-white mb-2 relative z-10">
-                    {result.band_score}
+                  <h2 className="text-6xl font-bold text-white mb-2 relative z-10 flex justify-center">
+                    {result.band_score ?? (loading ? <IconLoader2 size={60} className="animate-spin text-neutral-600" /> : "–")}
                   </h2>
                   <p className="text-neutral-400 uppercase tracking-widest text-sm relative z-10 font-medium">
-                    Band Score
+                    Overall Band Score
                   </p>
+                  {result.word_count?.under_length && (
+                    <div className="mt-4 relative z-10 flex items-center justify-center gap-2 text-sm text-amber-400">
+                      <IconAlertTriangle size={16} />
+                      Under length: {result.word_count.count} of {result.word_count.minimum} words, penalised under {resultNames.task_achievement.label}
+                    </div>
+                  )}
+                  {result.injection_flags && result.injection_flags.length > 0 && (
+                    <div className="mt-4 relative z-10 text-sm text-amber-400 space-y-1">
+                      <div className="flex items-center justify-center gap-2">
+                        <IconAlertTriangle size={16} />
+                        Text addressed to the examiner was marked as part of the answer, not followed:
+                      </div>
+                      {result.injection_flags.map((flag, i) => (
+                        <p key={i} className="text-xs text-amber-400/80">
+                          &ldquo;{flag.text}&rdquo; {INJECTION_LABELS[flag.kind]}
+                          {flag.source === "question" && " (in the question)"}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-4 gap-2 mt-6 relative z-10">
+                    {CRITERIA.map((key) => (
+                      <button
+                        key={key}
+                        onClick={() => result.feedback?.[key] && setSelectedCriterion(key)}
+                        title={resultNames[key].label}
+                        className="bg-black/20 border border-white/5 rounded-xl py-3 hover:bg-black/40 transition-colors"
+                      >
+                        <div className="text-2xl font-bold text-white">
+                          {result.feedback?.[key]?.band ?? <span className="text-neutral-600">–</span>}
+                        </div>
+                        <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold mt-1">
+                          {resultNames[key].short}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  {result.prompt_version && (
+                    <p className="mt-4 relative z-10 text-[11px] text-neutral-600">Scored with prompt {result.prompt_version}</p>
+                  )}
                 </div>
 
+                {/* Task Checklist */}
+                {loading && !result.task_checks && renderPendingSection("Task Checklist")}
+                {result.task_checks && result.task_checks.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                      <IconClipboardCheck size={20} className="text-green-500" />
+                      Task Checklist
+                    </h3>
+                    <ul className="bg-neutral-900/50 border border-neutral-800 rounded-xl divide-y divide-neutral-800">
+                      {result.task_checks.map((check) => (
+                        <li key={check.id} className="flex gap-3 p-4">
+                          {checkStatusIcon(check.status)}
+                          <div className="space-y-1">
+                            <div className="text-sm font-medium text-neutral-200">{check.label}</div>
+                            {check.comment && <p className="text-xs text-neutral-400">{check.comment}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Question Coverage */}
+                {result.question_coverage && result.question_coverage.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                      <IconListCheck size={20} className="text-purple-500" />
+                      Question Coverage
+                    </h3>
+                    <ul className="bg-neutral-900/50 border border-neutral-800 rounded-xl divide-y divide-neutral-800">
+                      {result.question_coverage.map((item, idx) => (
+                        <li key={idx} className="flex gap-3 p-4">
+                          {checkStatusIcon(item.status)}
+                          <div className="space-y-1">
+                            <div className="text-sm font-medium text-neutral-200">
+                              {item.part}
+                              <span className="ml-2 text-[10px] uppercase tracking-wider text-neutral-500">{item.status}</span>
+                            </div>
+                            {item.comment && <p className="text-xs text-neutral-400">{item.comment}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Priorities Section */}
+                {loading && !result.prioritized_suggestions && renderPendingSection("Action Plan")}
                 {result.prioritized_suggestions && result.prioritized_suggestions.length > 0 && (
                    <div>
                       <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -463,7 +1075,9 @@ export default function Home() {
                       </h3>
                       <div className="space-y-3">
                         {result.prioritized_suggestions.map((item, idx) => {
-                          const isApplied = item.apply_to_text && !essay.includes(item.apply_to_text);
+                          const status = anchorStatus(item.apply_to_text, item.anchor, item.replacement_text);
+                          const isApplied = status === "applied";
+                          const isStale = status === "stale";
                           
                           return (
                             <div key={idx} className={cn("p-4 rounded-xl border flex gap-4 transition-all", 
@@ -490,19 +1104,26 @@ export default function Home() {
 
                                 {item.apply_to_text && item.replacement_text && (
                                    <button 
-                                      onClick={(e) => applyFix(item.apply_to_text!, item.replacement_text!, e)}
-                                      disabled={!!isApplied}
+                                      onClick={(e) => applyFix(item.apply_to_text!, item.anchor, item.replacement_text!, e)}
+                                      disabled={isApplied || isStale}
+                                      title={isStale ? "This part of the essay has changed since it was analysed" : undefined}
                                       className={cn(
                                         "flex items-center gap-2 text-[10px] px-2 py-1 rounded transition-colors mt-2 w-fit",
                                         isApplied 
                                           ? "bg-green-500/10 text-green-500 cursor-default" 
-                                          : "bg-white/10 hover:bg-white/20 text-white"
+                                          : isStale
+                                            ? "bg-black/20 text-neutral-500 cursor-default"
+                                            : "bg-white/10 hover:bg-white/20 text-white"
                                       )}
                                    >
                                       {isApplied ? (
                                         <>
                                           <IconCheck size={12} /> Applied
                                         </>
+                                      ) : isStale ? (
+                                        <>
+                                          <IconAlertTriangle size={12} /> Text changed
+                                        </>
                                       ) : (
                                         <>
                                           <IconReplace size={12} /> Apply this fix
@@ -523,6 +1144,7 @@ export default function Home() {
                 )}
 
                 {/* Vocabulary Enrichment Section */}
+                {loading && !result.enrichment && renderPendingSection("Vocabulary Enrichment")}
                 {result.enrichment && result.enrichment.length > 0 && (
                   <div>
                     <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -531,8 +1153,10 @@ export default function Home() {
                     </h3>
                     <div className="grid sm:grid-cols-2 gap-4">
                       {result.enrichment.map((item, idx) => {
-                        const isApplied = item.target_text && !essay.includes(item.target_text);
-                        const canApply = !!(item.target_text && item.replacement_text);
+                        const status = anchorStatus(item.target_text, item.anchor, item.replacement_text);
+                        const isApplied = status === "applied";
+                        const canApply = !!(item.target_text && item.replacement_text) && status === "ok";
+                        const isSaved = notebookKeys.has(wordKey(item.word));
 
                         return (
                           <button 
@@ -541,10 +1165,10 @@ export default function Home() {
                                if (canApply && !isApplied) {
                                   // Prevent default button behavior which might cause scrolling
                                   e.preventDefault();
-                                  applyFix(item.target_text!, item.replacement_text!, e);
+                                  applyFix(item.target_text!, item.anchor, item.replacement_text!, e);
                                }
                             }}
-                            disabled={!canApply || !!isApplied}
+                            aria-disabled={!canApply || isApplied}
                             className={cn(
                               "border rounded-xl p-4 transition-all text-left group relative",
                               isApplied 
@@ -559,12 +1183,33 @@ export default function Home() {
                                  <div className="font-bold text-amber-400 text-lg">{item.word}</div>
                                  <div className="text-xs text-neutral-500 font-mono">{item.phonetic} • {item.type}</div>
                                </div>
-                               {canApply && (
+                               {status === "stale" && item.replacement_text && (
+                                 <div className="text-xs font-bold flex items-center gap-1 px-2 py-1 rounded text-neutral-500 bg-neutral-800/50" title="This part of the essay has changed since it was analysed">
+                                   <IconAlertTriangle size={12} /> Text changed
+                                 </div>
+                               )}
+                               <div className="flex items-center gap-1">
+                               <div
+                                 onClick={(e) => {
+                                   e.stopPropagation();
+                                   if (!isSaved) saveToNotebook(item);
+                                 }}
+                                 className={cn(
+                                   "text-xs font-bold flex items-center gap-1 px-2 py-1 rounded transition-opacity z-10",
+                                   isSaved
+                                     ? "text-purple-400 bg-purple-500/10"
+                                     : "text-neutral-400 bg-neutral-800/50 opacity-0 group-hover:opacity-100 cursor-pointer hover:text-white"
+                                 )}
+                                 title={isSaved ? "In your vocabulary notebook" : "Save to your vocabulary notebook"}
+                               >
+                                 {isSaved ? <><IconBookmarkFilled size={12} /> Saved</> : <><IconBookmark size={12} /> Save</>}
+                               </div>
+                               {(canApply || isApplied) && (
                                  <div 
                                    onClick={(e) => {
                                       // Stop propagation to avoid triggering the parent button's click again
                                       e.stopPropagation();
-                                      if (!isApplied) applyFix(item.target_text!, item.replacement_text!, e);
+                                      if (!isApplied) applyFix(item.target_text!, item.anchor, item.replacement_text!, e);
                                    }}
                                    className={cn(
                                    "text-xs font-bold flex items-center gap-1 px-2 py-1 rounded transition-opacity z-10",
@@ -579,6 +1224,7 @@ export default function Home() {
                                    )}
                                  </div>
                                )}
+                               </div>
                              </div>
                              <div className="space-y-2 text-sm">
                                <p className="text-neutral-300">{item.definition}</p>
@@ -600,27 +1246,50 @@ export default function Home() {
                 <div>
                   <h3 className="text-lg font-semibold text-white mb-4">Detailed Evaluation</h3>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    {(Object.keys(result.feedback) as Array<keyof FeedbackData['feedback']>).map((key) => (
-                      <motion.button
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                        key={key}
-                        onClick={() => setSelectedCriterion(key)}
-                        className="bg-neutral-900/50 hover:bg-neutral-800 p-5 rounded-xl border border-neutral-800 text-left transition-colors h-full flex flex-col"
-                      >
-                        <h4 className="text-xs font-bold text-purple-400 uppercase mb-2">
-                          {formatCriterionName(key)}
-                        </h4>
-                        <p className="text-sm text-neutral-300 line-clamp-3 flex-grow">
-                          {result.feedback[key].summary}
-                        </p>
-                        <div className="mt-3 text-xs text-neutral-500 flex items-center gap-1">
-                           View details <IconArrowRight size={12} />
-                        </div>
-                      </motion.button>
-                    ))}
+                    {CRITERIA.map((key) => {
+                      const detail = result.feedback?.[key];
+                      if (!detail) {
+                        return loading ? (
+                          <div key={key} className="bg-neutral-900/50 p-5 rounded-xl border border-neutral-800 h-full flex flex-col animate-pulse">
+                            <h4 className="text-xs font-bold text-purple-400/50 uppercase mb-2">
+                              {resultNames[key].label}
+                            </h4>
+                            <div className="space-y-2 flex-grow">
+                              <div className="h-3 bg-neutral-800 rounded w-full" />
+                              <div className="h-3 bg-neutral-800 rounded w-2/3" />
+                            </div>
+                          </div>
+                        ) : null;
+                      }
+                      return (
+                        <motion.button
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                          key={key}
+                          onClick={() => setSelectedCriterion(key)}
+                          className="bg-neutral-900/50 hover:bg-neutral-800 p-5 rounded-xl border border-neutral-800 text-left transition-colors h-full flex flex-col"
+                        >
+                          <div className="flex justify-between items-start gap-2 mb-2">
+                            <h4 className="text-xs font-bold text-purple-400 uppercase">
+                              {resultNames[key].label}
+                            </h4>
+                            <span className="text-sm font-bold text-white bg-purple-500/20 border border-purple-500/30 rounded-md px-2 py-0.5 shrink-0">
+                              {detail.band}
+                            </span>
+                          </div>
+                          <p className="text-sm text-neutral-300 line-clamp-3 flex-grow">
+                            {detail.summary}
+                          </p>
+                          <div className="mt-3 text-xs text-neutral-500 flex items-center gap-1">
+                             View details <IconArrowRight size={12} />
+                          </div>
+                        </motion.button>
+                      );
+                    })}
                   </div>
                 </div>
+
+                {result.usage && <p className="text-xs text-neutral-600 text-center">{describeUsage(result.usage)}</p>}
               </div>
             ) : (
               <div className="h-full flex flex-col items-center justify-center text-neutral-600 space-y-4 border-2 border-dashed border-neutral-800 rounded-3xl p-12 min-h-[400px]">
@@ -631,14 +1300,80 @@ export default function Home() {
           </div>
         </div>
 
+        <Modal isOpen={libraryOpen} onClose={() => setLibraryOpen(false)} title="Essay library">
+          <EssayLibrary
+            currentId={essayId}
+            onOpen={(saved, analysis) => openWorkspace(workspaceFromSaved(saved, analysis))}
+            onNew={() => openWorkspace(blankWorkspace(taskMode))}
+            onDeleted={handleDeleted}
+          />
+        </Modal>
+
+        <Modal isOpen={batchOpen} onClose={() => setBatchOpen(false)} title="Review all fixes">
+          <BatchReview
+            essay={essay}
+            fixes={pendingFixes}
+            criterionLabel={(key) => resultNames[key].label}
+            onApply={applyBatch}
+          />
+        </Modal>
+
+        <Modal isOpen={compareOpen} onClose={() => setCompareOpen(false)} title="Compare revisions">
+          <RevisionCompare analyses={analyses} criterionLabel={(key) => resultNames[key].label} />
+        </Modal>
+
+        <Modal isOpen={exportOpen} onClose={() => setExportOpen(false)} title="Export report">
+          <ReportExport analyses={analyses} />
+        </Modal>
+
+        <Modal isOpen={modelAnswerOpen} onClose={() => setModelAnswerOpen(false)} title="Model answer" wide>
+          <ModelAnswer
+            request={{ essay, taskMode, question: questionForVisual(question, mode.visual) }}
+            band={result?.band_score}
+            result={modelAnswer}
+            onResult={(answer, answerMode) => {
+              setModelAnswer(answer);
+              setModelAnswerMode(answerMode);
+            }}
+            onAdopt={adoptSentence}
+            criterion={(key) => criterionNames(getTaskMode(modelAnswerMode))[key]}
+          />
+        </Modal>
+
+        <Modal
+          isOpen={tutorOpen && tutorReady}
+          onClose={() => {
+            setTutorOpen(false);
+            setTutorFocus(null);
+          }}
+          title="Tutor"
+        >
+          {renderTutorChat(tutorFocus ?? undefined)}
+        </Modal>
+
         {/* Detailed Feedback Modal */}
         <Modal
           isOpen={!!selectedCriterion}
-          onClose={() => setSelectedCriterion(null)}
-          title={selectedCriterion ? formatCriterionName(selectedCriterion) : ""}
+          onClose={() => {
+            setSelectedCriterion(null);
+            setTutorFocus(null);
+          }}
+          title={selectedCriterion ? resultNames[selectedCriterion].label : ""}
         >
-          {selectedCriterion && result && (
+          {selectedCriterion && result?.feedback?.[selectedCriterion] && (
             <div className="space-y-6">
+              <div className="flex gap-4 items-start bg-purple-950/20 border border-purple-900/30 rounded-xl p-4">
+                <div className="text-center shrink-0">
+                  <div className="text-3xl font-bold text-white">{result.feedback[selectedCriterion].band}</div>
+                  <div className="text-[10px] uppercase tracking-wider text-purple-400/70 font-bold">Band</div>
+                </div>
+                {result.feedback[selectedCriterion].justification && (
+                  <p className="text-sm text-purple-100/80 italic leading-relaxed">
+                    &quot;{result.feedback[selectedCriterion].justification}&quot;
+                  </p>
+                )}
+              </div>
+
               <p className="text-neutral-300 leading-relaxed">
                 {result.feedback[selectedCriterion].summary}
               </p>
@@ -651,7 +1386,9 @@ export default function Home() {
                 {result.feedback[selectedCriterion].tips.length > 0 ? (
                   <ul className="space-y-3">
                     {result.feedback[selectedCriterion].tips.map((tip, idx) => {
-                      const isApplied = tip.apply_to_text && !essay.includes(tip.apply_to_text);
+                      const status = anchorStatus(tip.apply_to_text, tip.anchor, tip.replacement_text);
+                      const isApplied = status === "applied";
+                      const isStale = status === "stale";
 
                       return (
                         <li key={idx} className={cn("bg-blue-950/20 border border-blue-900/30 rounded-lg p-4 space-y-3 transition-opacity", isApplied && "opacity-60")}>
@@ -668,22 +1405,36 @@ export default function Home() {
 
                           {tip.apply_to_text && tip.replacement_text && (
                              <button 
-                                onClick={(e) => applyFix(tip.apply_to_text!, tip.replacement_text!, e)}
-                                disabled={!!isApplied}
+                                onClick={(e) => applyFix(tip.apply_to_text!, tip.anchor, tip.replacement_text!, e)}
+                                disabled={isApplied || isStale}
+                                title={isStale ? "This part of the essay has changed since it was analysed" : undefined}
                                 className={cn(
                                   "flex items-center gap-2 text-xs px-3 py-1.5 rounded-md transition-colors",
                                   isApplied
                                     ? "bg-green-500/10 text-green-500 cursor-default"
-                                    : "bg-blue-600 hover:bg-blue-500 text-white"
+                                    : isStale
+                                      ? "bg-black/30 text-neutral-500 cursor-default"
+                                      : "bg-blue-600 hover:bg-blue-500 text-white"
                                 )}
                              >
-                                {Boolean(isApplied) ? (
+                                {isApplied ? (
                                   <><IconCheck size={14} /> Applied</>
+                                ) : isStale ? (
+                                  <><IconAlertTriangle size={14} /> Text changed since analysis</>
                                 ) : (
                                   <><IconReplace size={14} /> Apply this fix to essay</>
                                 )}
                              </button>
                           )}
+
+                          {tutorReady && (
+                            <button
+                              onClick={() => setTutorFocus({ kind: "tip", criterion: selectedCriterion, index: idx })}
+                              className="flex items-center gap-1 text-xs text-blue-300/70 hover:text-white transition-colors"
+                            >
+                              <IconMessageCircle size={14} /> Ask the tutor about this tip
+                            </button>
+                          )}
                         </li>
                       );
                     })}
@@ -692,6 +1443,20 @@ export default function Home() {
                   <p className="text-sm text-neutral-500 italic">Keep up the good work!</p>
                 )}
               </div>
+
+              {tutorReady && (
+                <div className="space-y-4 border-t border-neutral-800 pt-6">
+                  <h4 className="text-sm font-bold text-purple-400 uppercase flex items-center gap-2">
+                    <IconMessageCircle size={16} />
+                    Ask the tutor
+                  </h4>
+                  {renderTutorChat(
+                    tutorFocus?.kind === "tip" && tutorFocus.criterion === selectedCriterion
+                      ? tutorFocus
+                      : { kind: "criterion", criterion: selectedCriterion }
+                  )}
+                </div>
+              )}
             </div>
           )}
         </Modal>
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { IconArrowLeft, IconChartLine, IconLoader2, IconRepeat, IconTags } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { CRITERIA } from "@/lib/feedback";
+import { listEssays, type SavedEssay } from "@/lib/library";
+import { applyFilter, collectSubmissions, errorTypeCounts, filterAnalyses, repeatedMistakes, type ProgressFilter, type Tally } from "@/lib/progress";
+import { criterionNames, getTaskMode, type TaskType } from "@/lib/tasks";
+import { BandChart, type ChartSeries } from "@/components/band-chart";
+
+const CRITERION_COLORS = ["#a855f7", "#3b82f6", "#f59e0b", "#22c55e"];
+
+const TASK_FILTERS: { id: TaskType | ""; label: string }[] = [
+  { id: "", label: "All tasks" },
+  { id: "Task 1", label: "Task 1" },
+  { id: "Task 2", label: "Task 2" },
+];
+
+// <input type="date"> values are local calendar days; the range includes the whole of `to`.
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).getTime() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).getTime() : undefined);
+
+const inputClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500";
+
+const TallyBars = ({ items }: { items: Tally[] }) => {
+  const max = Math.max(...items.map((item) => item.count), 1);
+  return items.length === 0 ? (
+    <p className="text-sm text-neutral-500 italic">Nothing recorded yet.</p>
+  ) : (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.label} className="text-xs">
+          <div className="flex justify-between text-neutral-300 mb-1">
+            <span className="capitalize">{item.label}</span>
+            <span className="text-neutral-500">{item.count}</span>
+          </div>
+          <div className="h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 rounded-full" style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default function ProgressPage() {
+  const [essays, setEssays] = useState<SavedEssay[] | null>(null);
+  const [error, setError] = useState("");
+  const [task, setTask] = useState<TaskType | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    listEssays()
+      .then(setEssays)
+      .catch((err) => setError(err?.message || "Could not open the essay library"));
+  }, []);
+
+  const filter: ProgressFilter = { task: task || undefined, from: startOfDay(from), to: endOfDay(to) };
+  const submissions = applyFilter(collectSubmissions(essays ?? []), filter);
+  const analyses = filterAnalyses(essays ?? [], filter);
+  const errorTypes = errorTypeCounts(analyses);
+  const mistakes = repeatedMistakes(analyses);
+
+  // Name the first criterion for the task being shown, or both when mixed
+  const names = task
+    ? criterionNames(getTaskMode(task === "Task 1" ? "task1-academic-line" : "task2"))
+    : { ...criterionNames(getTaskMode("task2")), task_achievement: { label: "Task Achievement / Response", short: "TA/TR" } };
+
+  const dates = submissions.map((s) => s.createdAt);
+  const criterionSeries: ChartSeries[] = CRITERIA.map((key, i) => ({
+    label: names[key].label,
+    color: CRITERION_COLORS[i],
+    values: submissions.map((s) => s.criteria[key]),
+  }));
+  const first = submissions[0];
+  const latest = submissions.at(-1);
+
+  return (
+    <main className="min-h-screen bg-neutral-950 text-neutral-200 p-8 font-sans selection:bg-purple-500/30">
+      <div className="max-w-6xl mx-auto space-y-10">
+        <header className="space-y-4">
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors">
+            <IconArrowLeft size={16} /> Back to the editor
+          </Link>
+          <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-50 to-neutral-400">
+            Your Progress
+          </h1>
+        </header>
+
+        <div className="flex flex-wrap gap-3 items-center">
+          <div className="flex gap-2 bg-neutral-900 p-1 rounded-full border border-neutral-800">
+            {TASK_FILTERS.map((f) => (
+              <button
+                key={f.label}
+                onClick={() => setTask(f.id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-xs font-medium transition-colors",
+                  task === f.id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+                )}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-neutral-500">
+            From <input type="date" className={inputClass} value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-neutral-500">
+            To <input type="date" className={inputClass} value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </label>
+          {(from || to) && (
+            <button onClick={() => { setFrom(""); setTo(""); }} className="text-xs text-neutral-500 hover:text-white">
+              Clear dates
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {essays === null ? (
+          !error && (
+            <div className="flex justify-center py-16 text-neutral-500">
+              <IconLoader2 className="animate-spin" />
+            </div>
+          )
+        ) : submissions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-neutral-600 space-y-4 border-2 border-dashed border-neutral-800 rounded-3xl p-12 min-h-[300px]">
+            <IconChartLine size={48} stroke={1} />
+            <p>No analysed essays {task || from || to ? "match these filters" : "yet"}. Analyse an essay to start tracking your progress.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Submissions", value: submissions.length },
+                { label: "Latest band", value: latest?.band },
+                { label: "Best band", value: Math.max(...submissions.map((s) => s.band)) },
+                {
+                  label: "Since first",
+                  value: first && latest ? `${latest.band - first.band >= 0 ? "+" : ""}${latest.band - first.band}` : "–",
+                },
+              ].map((card) => (
+                <div key={card.label} className="bg-neutral-900 border border-neutral-800 rounded-2xl p-5">
+                  <div className="text-3xl font-bold text-white">{card.value}</div>
+                  <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold mt-1">{card.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <section className="grid lg:grid-cols-2 gap-6">
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-4">Overall band</h2>
+                <BandChart dates={dates} series={[{ label: "Overall", color: "#ffffff", values: submissions.map((s) => s.band) }]} />
+              </div>
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6">
+                <h2 className="text-lg font-semibold text-white mb-4">By criterion</h2>
+                <BandChart dates={dates} series={criterionSeries} />
+              </div>
+            </section>
+
+            <section className="grid lg:grid-cols-3 gap-6">
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <IconTags size={20} className="text-red-400" /> Correction types
+                </h2>
+                <TallyBars items={errorTypes.corrections} />
+              </div>
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <IconTags size={20} className="text-blue-400" /> Suggestion areas
+                </h2>
+                <TallyBars items={errorTypes.suggestions} />
+              </div>
+              <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <IconRepeat size={20} className="text-amber-400" /> Repeated mistakes
+                </h2>
+                {mistakes.length === 0 ? (
+                  <p className="text-sm text-neutral-500 italic">No mistake has come up in more than one essay.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {mistakes.map((mistake) => (
+                      <li key={mistake.change} className="text-sm">
+                        <div className="flex justify-between gap-2">
+                          <span className="font-mono text-amber-300">{mistake.change}</span>
+                          <span className="text-xs text-neutral-500 shrink-0">
+                            {mistake.essays} essays · {mistake.count}×
+                          </span>
+                        </div>
+                        <div className="text-xs text-neutral-500 mt-1 space-y-0.5">
+                          {mistake.examples.map((example) => (
+                            <div key={example.original}>
+                              <span className="line-through">{example.original}</span> → {example.replacement}
+                            </div>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
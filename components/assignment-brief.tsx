@@ -0,0 +1,28 @@
+"use client";
+import { IconClock } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { isPastDeadline, type Assignment } from "@/lib/classroom";
+import { formatVisual } from "@/lib/question";
+import { describeTaskMode, getTaskMode } from "@/lib/tasks";
+
+interface AssignmentBriefProps {
+  assignment: Assignment;
+}
+
+export const formatDeadline = (time: number) => new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// The task, question and deadline, as the student was set them.
+export const AssignmentBrief = ({ assignment }: AssignmentBriefProps) => (
+  <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-3">
+    <div className="flex flex-wrap items-baseline justify-between gap-2 text-xs">
+      <span className="uppercase tracking-wider font-bold text-neutral-500">{describeTaskMode(getTaskMode(assignment.taskMode))}</span>
+      <span className={cn("flex items-center gap-1", isPastDeadline(assignment) ? "text-neutral-500" : "text-amber-400")}>
+        <IconClock size={14} /> {isPastDeadline(assignment) ? "Closed" : "Due"} {formatDeadline(assignment.deadline)}
+      </span>
+    </div>
+    <p className="text-neutral-200 whitespace-pre-wrap leading-relaxed">{assignment.question.text}</p>
+    {assignment.question.visual && (
+      <pre className="text-xs text-neutral-400 bg-neutral-950 border border-neutral-800 rounded-lg p-3 overflow-x-auto">{formatVisual(assignment.question.visual)}</pre>
+    )}
+  </div>
+);
@@ -0,0 +1,98 @@
+"use client";
+import { useState } from "react";
+import { IconLoader2 } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import type { AssignmentInput } from "@/lib/classroom";
+import { questionForVisual, type ExamQuestion } from "@/lib/question";
+import type { BankQuestion } from "@/lib/question-bank";
+import { DEFAULT_TASK_MODE, getTaskMode, type TaskModeId, type TaskType } from "@/lib/tasks";
+import { QuestionEditor } from "@/components/question-editor";
+import { Task1ModePicker } from "@/components/task1-mode-picker";
+
+interface AssignmentFormProps {
+  // Resolves to whether the assignment was set, so the form can be cleared.
+  onCreate: (input: AssignmentInput) => Promise<boolean>;
+}
+
+const inputClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-purple-500";
+
+// <input type="datetime-local"> works in local time without a zone.
+const localInputValue = (time: number) => {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60_000);
+  return date.toISOString().slice(0, 16);
+};
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+export const AssignmentForm = ({ onCreate }: AssignmentFormProps) => {
+  const [title, setTitle] = useState("");
+  const [taskMode, setTaskMode] = useState<TaskModeId>(DEFAULT_TASK_MODE);
+  const [question, setQuestion] = useState<ExamQuestion>({ text: "" });
+  const [deadline, setDeadline] = useState(() => localInputValue(Date.now() + WEEK));
+  const [busy, setBusy] = useState(false);
+  const mode = getTaskMode(taskMode);
+
+  const switchTask = (task: TaskType) => {
+    if (mode.task !== task) setTaskMode(task === "Task 2" ? "task2" : "task1-academic-line");
+  };
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      if (await onCreate({ title, taskMode, question: questionForVisual(question, mode.visual), deadline: new Date(deadline).getTime() })) {
+        setTitle("");
+        setQuestion({ text: "" });
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Not a <form>: the question editor's buttons would submit it
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title, e.g. Week 3 essay" className={cn(inputClass, "flex-1 min-w-48")} />
+        <label className="flex items-center gap-2 text-xs text-neutral-500">
+          Due
+          <input type="datetime-local" value={deadline} onChange={(e) => setDeadline(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {(["Task 1", "Task 2"] as TaskType[]).map((task) => (
+          <button
+            key={task}
+            onClick={() => switchTask(task)}
+            className={cn(
+              "px-4 py-2 rounded-full text-sm font-medium transition-colors",
+              mode.task === task ? "bg-purple-600 text-white" : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+            )}
+          >
+            {task}
+          </button>
+        ))}
+      </div>
+      {mode.task === "Task 1" && <Task1ModePicker value={taskMode} onChange={setTaskMode} />}
+      <QuestionEditor
+        mode={mode}
+        question={question}
+        onChange={setQuestion}
+        onPick={(picked: BankQuestion) => {
+          setTaskMode(picked.taskMode);
+          setQuestion({ text: picked.text, visual: picked.visual, bankId: picked.id });
+        }}
+      />
+
+      <button
+        onClick={submit}
+        disabled={busy || !title.trim() || !question.text.trim() || !deadline}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+      >
+        {busy && <IconLoader2 size={16} className="animate-spin" />}
+        Set assignment
+      </button>
+    </div>
+  );
+};
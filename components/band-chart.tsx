@@ -0,0 +1,83 @@
+"use client";
+import { MAX_BAND, MIN_BAND } from "@/lib/bands";
+
+export interface ChartSeries {
+  label: string;
+  // Any CSS colour; used for the line, its points and the legend.
+  color: string;
+  dashed?: boolean;
+  // One value per submission, in the same order as `dates`.
+  values: number[];
+}
+
+interface BandChartProps {
+  dates: number[];
+  series: ChartSeries[];
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 16, bottom: 28, left: 28 };
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+// Line chart of band scores across submissions, drawn as plain SVG so it
+// needs no charting library or external service.
+export const BandChart = ({ dates, series }: BandChartProps) => {
+  const innerWidth = WIDTH - PAD.left - PAD.right;
+  const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (index: number) => PAD.left + (dates.length === 1 ? innerWidth / 2 : (index / (dates.length - 1)) * innerWidth);
+  const y = (band: number) => PAD.top + innerHeight - ((band - MIN_BAND) / (MAX_BAND - MIN_BAND)) * innerHeight;
+  const bands = Array.from({ length: MAX_BAND - MIN_BAND + 1 }, (_, i) => MIN_BAND + i);
+  // Label at most ~6 dates so they never overlap
+  const step = Math.max(1, Math.ceil(dates.length / 6));
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Band scores over time">
+        {bands.map((band) => (
+          <g key={band}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(band)} y2={y(band)} className="stroke-neutral-800" strokeWidth={1} />
+            <text x={PAD.left - 8} y={y(band) + 3} textAnchor="end" className="fill-neutral-500 text-[10px]">
+              {band}
+            </text>
+          </g>
+        ))}
+        {dates.map((date, index) =>
+          index % step === 0 || index === dates.length - 1 ? (
+            <text key={index} x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-neutral-500 text-[10px]">
+              {formatDay(date)}
+            </text>
+          ) : null
+        )}
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              points={s.values.map((value, index) => `${x(index)},${y(value)}`).join(" ")}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeDasharray={s.dashed ? "4 4" : undefined}
+              strokeLinejoin="round"
+            />
+            {s.values.map((value, index) => (
+              <circle key={index} cx={x(index)} cy={y(value)} r={3} fill={s.color}>
+                <title>{`${s.label}: ${value} (${formatDay(dates[index])})`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-4 text-xs text-neutral-400">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-1.5">
+              <span className="w-3 h-0.5 inline-block" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+"use client";
+import { useState } from "react";
+import { IconAlertTriangle, IconChecks } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { applyFixes, defaultSelection, findConflicts, type AppliedFixes, type FixSource, type PendingFix } from "@/lib/batch-fixes";
+import type { CriterionKey, PrioritizedSuggestion } from "@/lib/feedback";
+import { diffWords } from "@/lib/word-diff";
+import { DiffText } from "@/components/diff-text";
+
+interface BatchReviewProps {
+  essay: string;
+  fixes: PendingFix[];
+  criterionLabel: (key: CriterionKey) => string;
+  onApply: (applied: AppliedFixes) => void;
+}
+
+const SOURCES: { id: FixSource; label: string }[] = [
+  { id: "correction", label: "Corrections" },
+  { id: "suggestion", label: "Action plan" },
+  { id: "enrichment", label: "Vocabulary" },
+  { id: "tip", label: "Tips" },
+];
+
+const PRIORITIES: PrioritizedSuggestion["priority"][] = ["high", "medium", "low"];
+
+const selectClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500";
+
+export const BatchReview = ({ essay, fixes, criterionLabel, onApply }: BatchReviewProps) => {
+  const conflicts = findConflicts(fixes);
+  const [selected, setSelected] = useState(() => defaultSelection(fixes, conflicts));
+  const [sources, setSources] = useState<Set<FixSource>>(() => new Set(SOURCES.map((s) => s.id)));
+  const [priority, setPriority] = useState<PrioritizedSuggestion["priority"] | "">("");
+
+  // Priority only exists on action-plan suggestions, so filtering by it shows just those
+  const visible = fixes.filter((fix) => sources.has(fix.source) && (!priority || fix.priority === priority));
+  const chosen = visible.filter((fix) => selected.has(fix.id));
+  const clashes = chosen.filter((fix) => (conflicts.get(fix.id) ?? []).some((id) => chosen.some((other) => other.id === id)));
+  const preview = clashes.length === 0 && chosen.length > 0 ? applyFixes(essay, chosen) : null;
+  const byId = new Map(fixes.map((fix) => [fix.id, fix]));
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleSource = (id: FixSource) =>
+    setSources((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const setVisible = (on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      visible.forEach((fix) => (on ? next.add(fix.id) : next.delete(fix.id)));
+      return next;
+    });
+
+  const describe = (fix: PendingFix) =>
+    fix.source === "tip" && fix.criterion ? `${criterionLabel(fix.criterion)} tip` : fix.priority ? `${fix.priority} · ${fix.label}` : fix.label;
+
+  if (fixes.length === 0) {
+    return <p className="text-sm text-neutral-500 italic">There are no fixes left to apply.</p>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap gap-2 items-center">
+        {SOURCES.map((source) => (
+          <button
+            key={source.id}
+            onClick={() => toggleSource(source.id)}
+            className={cn(
+              "px-3 py-1.5 rounded-full text-xs font-medium border transition-colors",
+              sources.has(source.id) ? "bg-neutral-800 border-neutral-700 text-white" : "border-neutral-800 text-neutral-500 hover:text-neutral-300"
+            )}
+          >
+            {source.label} ({fixes.filter((fix) => fix.source === source.id).length})
+          </button>
+        ))}
+        <select className={selectClass} value={priority} onChange={(e) => setPriority(e.target.value as PrioritizedSuggestion["priority"] | "")}>
+          <option value="">Any priority</option>
+          {PRIORITIES.map((p) => (
+            <option key={p} value={p}>{p} priority</option>
+          ))}
+        </select>
+        <div className="ml-auto flex gap-3 text-xs text-neutral-400">
+          <button onClick={() => setVisible(true)} className="hover:text-white">Select all</button>
+          <button onClick={() => setVisible(false)} className="hover:text-white">Select none</button>
+        </div>
+      </div>
+
+      <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {visible.map((fix) => {
+          const others = (conflicts.get(fix.id) ?? []).map((id) => byId.get(id)!);
+          return (
+            <li key={fix.id}>
+              <label
+                className={cn(
+                  "flex gap-3 p-3 rounded-xl border cursor-pointer transition-colors",
+                  clashes.includes(fix) ? "border-red-900/60 bg-red-950/20" : "border-neutral-800 hover:bg-neutral-800/40"
+                )}
+              >
+                <input type="checkbox" checked={selected.has(fix.id)} onChange={() => toggle(fix.id)} className="mt-1 accent-purple-500" />
+                <div className="space-y-1 text-sm min-w-0">
+                  <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold">{describe(fix)}</div>
+                  <div>
+                    <span className="line-through text-red-400/80">{fix.original}</span>
+                    <span className="text-neutral-600"> → </span>
+                    <span className="text-green-400">{fix.replacement}</span>
+                  </div>
+                  {fix.explanation && fix.explanation !== fix.label && <p className="text-xs text-neutral-500">{fix.explanation}</p>}
+                  {others.length > 0 && (
+                    <p className="text-xs text-amber-400 flex items-start gap-1">
+                      <IconAlertTriangle size={12} className="shrink-0 mt-0.5" />
+                      Overlaps with {others.map((other) => `"${other.original}" → "${other.replacement}"`).join(", ")}. Only one can be applied.
+                    </p>
+                  )}
+                </div>
+              </label>
+            </li>
+          );
+        })}
+        {visible.length === 0 && <li className="text-sm text-neutral-500 italic">No fixes match these filters.</li>}
+      </ul>
+
+      <div className="space-y-2">
+        <div className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">Preview</div>
+        <div className="max-h-64 overflow-y-auto bg-neutral-950 border border-neutral-800 rounded-xl p-4 text-sm font-mono leading-relaxed whitespace-pre-wrap">
+          {clashes.length > 0 ? (
+            <p className="text-red-400 font-sans">
+              {clashes.length} selected fixes edit the same text. Deselect one of each conflicting pair to see the result.
+            </p>
+          ) : preview ? (
+            <DiffText parts={diffWords(essay, preview.essay)} />
+          ) : (
+            <p className="text-neutral-500 italic font-sans">Select fixes to preview the result.</p>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={() => preview && onApply(preview)}
+        disabled={!preview}
+        className="w-full bg-white text-black font-bold py-3 rounded-xl hover:bg-neutral-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <IconChecks size={18} /> Apply {chosen.length} {chosen.length === 1 ? "fix" : "fixes"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+"use client";
+import Link from "next/link";
+import { IconArrowLeft, IconLoader2 } from "@tabler/icons-react";
+import type { Account } from "@/lib/classroom";
+
+interface ClassroomShellProps {
+  title: string;
+  subtitle?: React.ReactNode;
+  back: { href: string; label: string };
+  // Undefined while the session is being checked, null when signed out.
+  account: Account | null | undefined;
+  // Shown instead of the page when signed out; a link to sign in by default.
+  signedOut?: React.ReactNode;
+  // Beside the title, e.g. the account and a sign-out button.
+  actions?: React.ReactNode;
+  error?: string;
+  // False while the page's own data is loading.
+  ready?: boolean;
+  children?: React.ReactNode;
+}
+
+export const ClassroomShell = ({ title, subtitle, back, account, signedOut, actions, error, ready = true, children }: ClassroomShellProps) => (
+  <main className="min-h-screen bg-neutral-950 text-neutral-200 p-8 font-sans selection:bg-purple-500/30">
+    <div className="max-w-6xl mx-auto space-y-10">
+      <header className="space-y-4">
+        <Link href={back.href} className="inline-flex items-center gap-1 text-sm text-neutral-500 hover:text-white transition-colors">
+          <IconArrowLeft size={16} /> {back.label}
+        </Link>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-50 to-neutral-400">{title}</h1>
+            {subtitle && <div className="text-sm text-neutral-500">{subtitle}</div>}
+          </div>
+          {account && actions}
+        </div>
+      </header>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {account === null
+        ? (signedOut ?? (
+            <p className="text-sm text-neutral-400">
+              Your session has ended.{" "}
+              <Link href="/classroom" className="text-purple-400 hover:text-purple-300">
+                Sign in again
+              </Link>
+            </p>
+          ))
+        : account === undefined || !ready
+          ? !error && (
+              <div className="flex justify-center py-16 text-neutral-500">
+                <IconLoader2 className="animate-spin" />
+              </div>
+            )
+          : children}
+    </div>
+  </main>
+);
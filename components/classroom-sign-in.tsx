@@ -0,0 +1,109 @@
+"use client";
+import { useState } from "react";
+import { IconLoader2 } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { ROLES, type Account, type Role } from "@/lib/classroom";
+import { register, signIn } from "@/lib/classroom-client";
+
+interface ClassroomSignInProps {
+  onSignedIn: (account: Account) => void;
+}
+
+const inputClass =
+  "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-purple-500";
+
+const ROLE_LABELS: Record<Role, string> = { teacher: "Teacher", student: "Student" };
+
+export const ClassroomSignIn = ({ onSignedIn }: ClassroomSignInProps) => {
+  const [registering, setRegistering] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Role>("student");
+  const [teacherCode, setTeacherCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      onSignedIn(
+        registering
+          ? await register({ username, name, password, role, ...(role === "teacher" && teacherCode && { teacherCode }) })
+          : await signIn(username, password),
+      );
+    } catch (err) {
+      setError((err as Error)?.message || "Something went wrong. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="max-w-sm mx-auto bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+      <div className="flex gap-2 bg-neutral-950 p-1 rounded-full border border-neutral-800 w-fit">
+        {[
+          { id: false, label: "Sign in" },
+          { id: true, label: "Create an account" },
+        ].map((tab) => (
+          <button
+            key={tab.label}
+            type="button"
+            onClick={() => setRegistering(tab.id)}
+            className={cn(
+              "px-3 py-1.5 rounded-full text-xs font-medium transition-colors",
+              registering === tab.id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {registering && (
+        <>
+          <div className="flex gap-4 text-sm">
+            {ROLES.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-neutral-300">
+                <input type="radio" name="role" checked={role === option} onChange={() => setRole(option)} className="accent-purple-500" />
+                {ROLE_LABELS[option]}
+              </label>
+            ))}
+          </div>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name" className={inputClass} required />
+        </>
+      )}
+      <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" autoComplete="username" className={inputClass} required />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder={registering ? "Password (at least 8 characters)" : "Password"}
+        autoComplete={registering ? "new-password" : "current-password"}
+        className={inputClass}
+        required
+      />
+      {registering && role === "teacher" && (
+        <input
+          value={teacherCode}
+          onChange={(e) => setTeacherCode(e.target.value)}
+          placeholder="Teacher sign-up code, if your school set one"
+          className={inputClass}
+        />
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={busy}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+      >
+        {busy && <IconLoader2 size={16} className="animate-spin" />}
+        {registering ? "Create account" : "Sign in"}
+      </button>
+    </form>
+  );
+};
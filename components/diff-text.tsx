@@ -0,0 +1,25 @@
+"use client";
+import { cn } from "@/lib/utils";
+import type { DiffPart } from "@/lib/word-diff";
+
+interface DiffTextProps {
+  parts: DiffPart[];
+}
+
+// Inline word diff: removed text struck through in red, added text in green.
+export const DiffText = ({ parts }: DiffTextProps) => (
+  <>
+    {parts.map((part, index) => (
+      <span
+        key={index}
+        className={cn(
+          part.type === "added" && "bg-green-500/20 text-green-300",
+          part.type === "removed" && "bg-red-500/20 text-red-300 line-through",
+          part.type === "same" && "text-neutral-400"
+        )}
+      >
+        {part.text}
+      </span>
+    ))}
+  </>
+);
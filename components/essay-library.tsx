@@ -0,0 +1,145 @@
+"use client";
+import { useEffect, useState } from "react";
+import { IconCopy, IconFilePlus, IconLoader2, IconPencil, IconTrash } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { getTaskMode } from "@/lib/tasks";
+import {
+  deleteEssay,
+  duplicateEssay,
+  essayTitle,
+  listEssays,
+  renameEssay,
+  type SavedAnalysis,
+  type SavedEssay,
+} from "@/lib/library";
+
+interface EssayLibraryProps {
+  currentId: string;
+  // `analysis` is set when the user opens one of the essay's past analyses.
+  onOpen: (essay: SavedEssay, analysis?: SavedAnalysis) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export const EssayLibrary = ({ currentId, onOpen, onNew, onDeleted }: EssayLibraryProps) => {
+  const [essays, setEssays] = useState<SavedEssay[] | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [error, setError] = useState("");
+
+  const refresh = () =>
+    listEssays()
+      .then(setEssays)
+      .catch((err) => setError(err?.message || "Could not open the essay library"));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    await renameEssay(renaming.id, renaming.title);
+    setRenaming(null);
+    refresh();
+  };
+
+  const duplicate = async (id: string) => {
+    await duplicateEssay(id);
+    refresh();
+  };
+
+  const remove = async (essay: SavedEssay) => {
+    if (!window.confirm(`Delete "${essayTitle(essay)}" and all of its feedback?`)) return;
+    await deleteEssay(essay.id);
+    onDeleted(essay.id);
+    refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={onNew}
+        className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+      >
+        <IconFilePlus size={14} /> New essay
+      </button>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {essays === null ? (
+        !error && (
+          <div className="flex justify-center py-8 text-neutral-500">
+            <IconLoader2 className="animate-spin" />
+          </div>
+        )
+      ) : essays.length === 0 ? (
+        <p className="text-sm text-neutral-500 italic">No saved essays yet. Essays are saved automatically as you write.</p>
+      ) : (
+        <ul className="space-y-2">
+          {essays.map((essay) => (
+            <li
+              key={essay.id}
+              className={cn(
+                "p-3 rounded-xl border space-y-2",
+                essay.id === currentId ? "border-purple-500 bg-purple-500/10" : "border-neutral-800"
+              )}
+            >
+              <div className="flex items-start gap-2">
+                {renaming?.id === essay.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ id: essay.id, title: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setRenaming(null);
+                    }}
+                    className="flex-grow bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1 text-sm text-neutral-200 outline-none focus:ring-1 focus:ring-purple-500"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(essay)} className="flex-grow text-left min-w-0">
+                    <div className="text-sm font-medium text-neutral-200 truncate">{essayTitle(essay)}</div>
+                    <div className="text-[11px] text-neutral-500">
+                      {getTaskMode(essay.taskMode).task} · {getTaskMode(essay.taskMode).label} · edited {formatDate(essay.updatedAt)} ·{" "}
+                      {essay.revisions.length} revision{essay.revisions.length === 1 ? "" : "s"}
+                    </div>
+                  </button>
+                )}
+                <div className="flex gap-1 shrink-0 text-neutral-500">
+                  <button onClick={() => setRenaming({ id: essay.id, title: essayTitle(essay) })} className="p-1 hover:text-white" title="Rename">
+                    <IconPencil size={14} />
+                  </button>
+                  <button onClick={() => duplicate(essay.id)} className="p-1 hover:text-white" title="Duplicate">
+                    <IconCopy size={14} />
+                  </button>
+                  <button onClick={() => remove(essay)} className="p-1 hover:text-red-400" title="Delete">
+                    <IconTrash size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {essay.analyses.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {essay.analyses.map((analysis) => (
+                    <button
+                      key={analysis.id}
+                      onClick={() => onOpen(essay, analysis)}
+                      title={`Analysed ${formatDate(analysis.createdAt)}${analysis.revision === null ? " (revision since overwritten)" : ""}`}
+                      className="text-[11px] px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 text-neutral-300"
+                    >
+                      Band {analysis.data.band_score}
+                      <span className="text-neutral-500"> · {new Date(analysis.createdAt).toLocaleDateString()}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+"use client";
+import { IconAlarm, IconAlertTriangle, IconLock, IconSend, IconX } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { EXAM_PLANS, formatClock, type ExamKind, type ExamPlan } from "@/lib/exam";
+import type { ExamStatus } from "@/lib/use-exam-timer";
+
+interface ExamBarProps {
+  status: ExamStatus;
+  plan: ExamPlan | null;
+  remainingMs: number;
+  notice: string;
+  onStart: (kind: ExamKind) => void;
+  onSubmit: () => void;
+  onEnd: () => void;
+  onDismissNotice: () => void;
+}
+
+const KINDS: ExamKind[] = ["task1", "task2", "full"];
+
+export const ExamBar = ({ status, plan, remainingMs, notice, onStart, onSubmit, onEnd, onDismissNotice }: ExamBarProps) => {
+  if (status === "idle" || !plan) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="flex items-center gap-1 text-neutral-500 font-medium">
+          <IconAlarm size={14} /> Timed exam:
+        </span>
+        {KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => onStart(kind)}
+            className="px-3 py-1.5 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-400 hover:text-white hover:border-neutral-700 transition-colors"
+          >
+            {EXAM_PLANS[kind].label}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const urgent = status === "running" && remainingMs <= 5 * 60_000;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={cn(
+          "flex items-center gap-4 px-4 py-3 rounded-2xl border",
+          urgent ? "border-red-900/50 bg-red-950/20" : "border-neutral-800 bg-neutral-900"
+        )}
+      >
+        <div className={cn("font-mono text-2xl font-bold tabular-nums", urgent ? "text-red-400" : "text-white")}>
+          {formatClock(remainingMs)}
+        </div>
+        <div className="text-xs text-neutral-400 flex-grow">
+          <div className="font-medium text-neutral-300">{plan.label}</div>
+          {status === "finished" && (
+            <div className="flex items-center gap-1">
+              <IconLock size={12} /> {remainingMs > 0 ? "Submitted early." : "Time is up."} The editor is locked.
+            </div>
+          )}
+        </div>
+        {status === "running" ? (
+          <button
+            onClick={onSubmit}
+            className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+          >
+            <IconSend size={14} /> Submit now
+          </button>
+        ) : (
+          <button
+            onClick={onEnd}
+            className="text-xs font-medium px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors"
+          >
+            Back to practice
+          </button>
+        )}
+      </div>
+
+      {notice && (
+        <div className="flex items-center gap-2 px-4 py-2 rounded-xl border border-yellow-900/40 bg-yellow-950/20 text-yellow-300 text-sm">
+          <IconAlertTriangle size={16} className="shrink-0" />
+          <span className="flex-grow">{notice}</span>
+          <button onClick={onDismissNotice} className="text-yellow-500/70 hover:text-yellow-300" title="Dismiss">
+            <IconX size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+"use client";
+import { cn } from "@/lib/utils";
+import type { Correction } from "@/lib/feedback";
+
+interface MarkedEssayProps {
+  essay: string;
+  // Marked where their anchors are, numbered by position in this list.
+  corrections: (Pick<Correction, "anchor"> & { tone?: "muted" | "edited" })[];
+  active?: number | null;
+  onSelect?: (index: number) => void;
+}
+
+// The essay with each anchored correction marked and numbered. Corrections
+// that overlap an earlier one are left unmarked.
+export const MarkedEssay = ({ essay, corrections, active, onSelect }: MarkedEssayProps) => {
+  const marks = corrections
+    .map((correction, index) => ({ ...correction, index }))
+    .filter((mark) => mark.anchor && essay.slice(mark.anchor.start, mark.anchor.end) !== "")
+    .sort((a, b) => a.anchor!.start - b.anchor!.start);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const mark of marks) {
+    const { start, end } = mark.anchor!;
+    if (start < cursor) continue;
+    parts.push(essay.slice(cursor, start));
+    parts.push(
+      <mark
+        key={mark.index}
+        onClick={() => onSelect?.(mark.index)}
+        className={cn(
+          "rounded px-0.5 text-inherit transition-colors",
+          onSelect && "cursor-pointer",
+          mark.tone === "muted" ? "bg-neutral-700/40 line-through decoration-neutral-500" : mark.tone === "edited" ? "bg-blue-500/25" : "bg-red-500/25",
+          active === mark.index && "ring-2 ring-purple-500"
+        )}
+      >
+        {essay.slice(start, end)}
+        <sup className="ml-0.5 text-[10px] text-neutral-400">{mark.index + 1}</sup>
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(essay.slice(cursor));
+
+  return <div className="whitespace-pre-wrap font-mono text-sm leading-relaxed text-neutral-200">{parts}</div>;
+};
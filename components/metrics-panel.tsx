@@ -0,0 +1,112 @@
+"use client";
+import { useState } from "react";
+import { IconChevronDown } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import type { Repeat, TextMetrics } from "@/lib/text-metrics";
+
+interface MetricsPanelProps {
+  metrics: TextMetrics;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const RepeatList = ({ title, items, empty }: { title: string; items: Repeat[]; empty: string }) => (
+  <div className="space-y-2">
+    <h4 className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-xs text-neutral-600 italic">{empty}</p>
+    ) : (
+      <div className="flex flex-wrap gap-1.5">
+        {items.map((item) => (
+          <span key={item.text} className="text-xs bg-neutral-800 text-neutral-300 px-2 py-0.5 rounded-md">
+            {item.text} <span className="text-neutral-500">×{item.count}</span>
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const MetricsPanel = ({ metrics }: MetricsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const { sentences, paragraphs, linking } = metrics;
+  const longest = Math.max(...sentences.lengths, 1);
+
+  const tiles = [
+    { label: "Sentences", value: sentences.count, hint: `${sentences.min}–${sentences.max} words each` },
+    { label: "Words / sentence", value: sentences.mean, hint: `${sentences.short} short, ${sentences.long} very long` },
+    { label: "Paragraphs", value: paragraphs.count, hint: paragraphs.lengths.join(" · ") + " words" },
+    { label: "Type-token ratio", value: metrics.typeTokenRatio, hint: "distinct words / all words" },
+    { label: "Academic words", value: percent(metrics.academicWords.coverage), hint: `${metrics.academicWords.families.length} AWL families` },
+    { label: "Reading ease", value: metrics.readability.fleschReadingEase, hint: `grade ${metrics.readability.fleschKincaidGrade}` },
+    { label: "Passive", value: percent(metrics.passiveRatio), hint: "of sentences" },
+    { label: "Complex", value: percent(metrics.complexRatio), hint: "sentences with a clause" },
+  ];
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-2xl">
+      <button onClick={() => setOpen(!open)} className="w-full flex justify-between items-center px-5 py-3 text-sm font-medium text-neutral-300">
+        <span>
+          Text metrics
+          {!open && (
+            <span className="ml-2 text-neutral-500 font-normal">
+              {sentences.count} sentences · TTR {metrics.typeTokenRatio} · {percent(metrics.academicWords.coverage)} academic
+            </span>
+          )}
+        </span>
+        <IconChevronDown size={16} className={cn("transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-5">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {tiles.map((tile) => (
+              <div key={tile.label} className="bg-neutral-950 border border-neutral-800 rounded-xl p-3">
+                <div className="text-lg font-semibold text-white">{tile.value}</div>
+                <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold">{tile.label}</div>
+                <div className="text-[11px] text-neutral-600 mt-0.5 truncate" title={tile.hint}>{tile.hint}</div>
+              </div>
+            ))}
+          </div>
+
+          {sentences.lengths.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">Sentence lengths, in order</h4>
+              <div className="flex items-end gap-0.5 h-12">
+                {sentences.lengths.map((length, i) => (
+                  <div
+                    key={i}
+                    title={`Sentence ${i + 1}: ${length} words`}
+                    className="flex-1 bg-purple-500/60 rounded-t-sm min-w-[2px]"
+                    style={{ height: `${(length / longest) * 100}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">
+              Linking words ({linking.total}, {linking.perSentence} per sentence)
+            </h4>
+            <ul className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+              {linking.functions.map((f) => (
+                <li key={f.function} className="flex justify-between gap-2">
+                  <span className="capitalize text-neutral-400">{f.function}</span>
+                  <span className={cn("truncate text-right", f.count ? "text-neutral-300" : "text-neutral-600 italic")}>
+                    {f.count ? f.linkers.map((l) => (l.count > 1 ? `${l.text} ×${l.count}` : l.text)).join(", ") : "none"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <RepeatList title="Repeated words" items={metrics.repeatedWords} empty="No content word is overused." />
+            <RepeatList title="Repeated phrases" items={metrics.repeatedPhrases} empty="No phrase is repeated." />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
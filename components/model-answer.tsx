@@ -0,0 +1,179 @@
+"use client";
+import { useRef, useState } from "react";
+import { IconArrowLeft, IconCheck, IconLoader2, IconSparkles } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { AnalysisError, requestRewrite, type RewriteRequestBody } from "@/lib/analysis-client";
+import { resolveAnchor } from "@/lib/anchors";
+import type { CriterionKey } from "@/lib/feedback";
+import { defaultTargetBand, TARGET_BANDS, type AlignedSentence, type RewriteResult } from "@/lib/model-answer";
+import type { TaskModeId } from "@/lib/tasks";
+import { diffWords } from "@/lib/word-diff";
+import { DiffText } from "@/components/diff-text";
+
+interface ModelAnswerProps {
+  // The essay, task and question as they are now; a new model answer is written for these.
+  request: Omit<RewriteRequestBody, "targetBand">;
+  // The band of the current analysis, from which the target is one step up.
+  band?: number;
+  // Kept by the page so its anchors follow the essay as it is edited.
+  result: RewriteResult | null;
+  // With the task mode it was written for, which names the criteria it cites.
+  onResult: (result: RewriteResult, taskMode: TaskModeId) => void;
+  // Replaces the essay text between the offsets.
+  onAdopt: (start: number, end: number, text: string) => void;
+  criterion: (key: CriterionKey) => { label: string; short: string };
+}
+
+const selectClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500";
+
+export const ModelAnswer = ({ request, band, result, onResult, onAdopt, criterion }: ModelAnswerProps) => {
+  const [targetBand, setTargetBand] = useState(() => result?.target_band ?? defaultTargetBand(band));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const generate = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    setError("");
+    try {
+      onResult(await requestRewrite({ ...request, targetBand }, controller.signal), request.taskMode);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      if (err instanceof AnalysisError && err.status && err.status < 500) {
+        setError(err.retryAfter ? `${err.message} Try again in ${err.retryAfter} s.` : err.message);
+      } else {
+        console.error(err);
+        setError(err instanceof AnalysisError ? err.message : "Something went wrong. Please try again.");
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  // Where the sentence's original text is in the essay now, or whether it has already been replaced
+  const locate = (sentence: AlignedSentence) => resolveAnchor(request.essay, sentence.original, sentence.anchor, sentence.rewrite);
+
+  const sentences = result?.paragraphs.flatMap((paragraph) => paragraph.sentences) ?? [];
+  const changed = sentences.filter((sentence) => sentence.rewrite !== sentence.original);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-neutral-400">
+          Target band
+          <select className={selectClass} value={targetBand} onChange={(e) => setTargetBand(Number(e.target.value))} disabled={loading}>
+            {TARGET_BANDS.map((target) => (
+              <option key={target} value={target}>
+                {target.toFixed(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={generate}
+          disabled={loading || !request.essay.trim()}
+          className="flex items-center gap-1 px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium disabled:opacity-40"
+        >
+          {loading ? <IconLoader2 size={16} className="animate-spin" /> : <IconSparkles size={16} />}
+          {result ? "Rewrite again" : "Write model answer"}
+        </button>
+        {result && !loading && (
+          <span className="text-xs text-neutral-500">
+            Band {result.target_band.toFixed(1)} · {changed.length} of {sentences.length} sentences changed
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {!result ? (
+        !loading && (
+          <p className="text-sm text-neutral-500 italic">
+            Your essay is rewritten at the target band, keeping your ideas and paragraphs. Each sentence is shown next to the one it replaces, and you can
+            take any of them into your essay.
+          </p>
+        )
+      ) : (
+        <>
+          {result.summary && <p className="text-sm text-neutral-300 leading-relaxed">{result.summary}</p>}
+
+          <div className="grid grid-cols-2 gap-4 text-[10px] uppercase tracking-wider text-neutral-500 font-bold">
+            <span>Your essay</span>
+            <span>Band {result.target_band.toFixed(1)} version</span>
+          </div>
+
+          {result.paragraphs.map((paragraph, p) => (
+            <section key={p} className="space-y-2 border-t border-neutral-800 pt-4">
+              <h4 className="text-xs text-neutral-500 font-medium">Paragraph {p + 1}</h4>
+              {paragraph.sentences.map((sentence, s) => {
+                const same = sentence.rewrite === sentence.original;
+                const parts = same ? [] : diffWords(sentence.original, sentence.rewrite);
+                const state = same ? null : locate(sentence);
+                return (
+                  <div key={s} className="grid grid-cols-2 gap-4 items-start">
+                    <p className="text-sm leading-relaxed">
+                      {same ? <span className="text-neutral-500">{sentence.original}</span> : <DiffText parts={parts.filter((part) => part.type !== "added")} />}
+                    </p>
+                    <div className="space-y-2">
+                      <p className="text-sm leading-relaxed">
+                        {same ? (
+                          <span className="text-neutral-500">{sentence.rewrite}</span>
+                        ) : (
+                          <DiffText parts={parts.filter((part) => part.type !== "removed")} />
+                        )}
+                      </p>
+                      {!same && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {sentence.changes.map((change, c) => (
+                            <span
+                              key={c}
+                              className="text-[11px] px-2 py-0.5 rounded-full bg-purple-500/10 border border-purple-500/20 text-purple-300"
+                              title={criterion(change.criterion).label}
+                            >
+                              <span className="font-bold">{criterion(change.criterion).short}</span> {change.note}
+                            </span>
+                          ))}
+                          {state?.status === "ok" ? (
+                            <button
+                              onClick={() => onAdopt(state.start, state.end, sentence.rewrite)}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+                              title="Replace this part of your essay with the rewritten sentence"
+                            >
+                              <IconArrowLeft size={12} /> Use this sentence
+                            </button>
+                          ) : (
+                            <span
+                              className={cn(
+                                "flex items-center gap-1 text-[11px]",
+                                state?.status === "applied" ? "text-green-400" : "text-neutral-600"
+                              )}
+                            >
+                              {state?.status === "applied" ? (
+                                <>
+                                  <IconCheck size={12} /> Adopted
+                                </>
+                              ) : (
+                                "This part of your essay has changed"
+                              )}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
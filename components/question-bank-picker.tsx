@@ -0,0 +1,142 @@
+"use client";
+import { useEffect, useState } from "react";
+import { IconArrowsShuffle, IconLoader2 } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { ESSAY_TYPES, type BankQuestion, type QuestionGroup } from "@/lib/question-bank";
+import { getTaskMode } from "@/lib/tasks";
+
+interface QuestionBankPickerProps {
+  initialGroup: QuestionGroup;
+  currentId?: string;
+  onPick: (question: BankQuestion) => void;
+}
+
+const GROUPS: { id: QuestionGroup; label: string }[] = [
+  { id: "task1-academic", label: "Task 1 Academic" },
+  { id: "task1-general", label: "Task 1 General" },
+  { id: "task2", label: "Task 2" },
+];
+
+const formatTag = (tag: string) => tag.replace(/-/g, " / ");
+
+const buildQuery = (group: QuestionGroup, essayType: string, topic: string) => {
+  const params = new URLSearchParams({ group });
+  if (group === "task2" && essayType) params.set("type", essayType);
+  if (topic) params.set("topic", topic);
+  return params;
+};
+
+const selectClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500";
+
+export const QuestionBankPicker = ({ initialGroup, currentId, onPick }: QuestionBankPickerProps) => {
+  const [group, setGroup] = useState<QuestionGroup>(initialGroup);
+  const [essayType, setEssayType] = useState("");
+  const [topic, setTopic] = useState("");
+  const [questions, setQuestions] = useState<BankQuestion[] | null>(null);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/questions?${buildQuery(group, essayType, topic)}`, { signal: controller.signal })
+      .then((response) => response.json())
+      .then((data) => {
+        setQuestions(data.questions ?? []);
+        setTopics(data.topics ?? []);
+        setError("");
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err.message || "Could not load questions");
+      });
+
+    return () => controller.abort();
+  }, [group, essayType, topic]);
+
+  const pickRandom = async () => {
+    const params = buildQuery(group, essayType, topic);
+    params.set("random", "1");
+    if (currentId) params.set("exclude", currentId);
+    const response = await fetch(`/api/questions?${params}`);
+    const data = await response.json();
+    if (response.ok) onPick(data.question);
+    else setError(data.error);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 bg-neutral-950 p-1 rounded-full border border-neutral-800 w-fit">
+        {GROUPS.map((g) => (
+          <button
+            key={g.id}
+            onClick={() => setGroup(g.id)}
+            className={cn(
+              "px-3 py-1.5 rounded-full text-xs font-medium transition-colors",
+              group === g.id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+            )}
+          >
+            {g.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center">
+        {group === "task2" && (
+          <select className={selectClass} value={essayType} onChange={(e) => setEssayType(e.target.value)}>
+            <option value="">All essay types</option>
+            {ESSAY_TYPES.map((type) => (
+              <option key={type} value={type}>{formatTag(type)}</option>
+            ))}
+          </select>
+        )}
+        <select className={selectClass} value={topic} onChange={(e) => setTopic(e.target.value)}>
+          <option value="">All topics</option>
+          {topics.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <button
+          onClick={pickRandom}
+          className="ml-auto flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+        >
+          <IconArrowsShuffle size={14} /> Random
+        </button>
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {questions === null ? (
+        <div className="flex justify-center py-8 text-neutral-500">
+          <IconLoader2 className="animate-spin" />
+        </div>
+      ) : questions.length === 0 ? (
+        <p className="text-sm text-neutral-500 italic">No questions match these filters.</p>
+      ) : (
+        <ul className="space-y-2">
+          {questions.map((q) => (
+            <li key={q.id}>
+              <button
+                onClick={() => onPick(q)}
+                className={cn(
+                  "w-full text-left p-3 rounded-xl border transition-colors space-y-2",
+                  q.id === currentId ? "border-purple-500 bg-purple-500/10" : "border-neutral-800 hover:bg-neutral-800/50"
+                )}
+              >
+                <p className="text-sm text-neutral-300 line-clamp-3 whitespace-pre-line">{q.text}</p>
+                <div className="flex flex-wrap gap-1 text-[10px] uppercase tracking-wider">
+                  <span className="px-2 py-0.5 rounded bg-purple-500/10 text-purple-300">
+                    {q.essayType ? formatTag(q.essayType) : getTaskMode(q.taskMode).label}
+                  </span>
+                  {q.topics.map((t) => (
+                    <span key={t} className="px-2 py-0.5 rounded bg-neutral-800 text-neutral-400">{t}</span>
+                  ))}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
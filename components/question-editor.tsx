@@ -0,0 +1,209 @@
+"use client";
+import { useState } from "react";
+import { IconArrowsShuffle, IconBooks, IconChevronDown, IconPlus, IconTrash } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { emptyVisual, type ExamQuestion, type VisualDescription } from "@/lib/question";
+import type { TaskMode } from "@/lib/tasks";
+import { groupOf, type BankQuestion } from "@/lib/question-bank";
+import { Modal } from "@/components/ui/modal";
+import { QuestionBankPicker } from "@/components/question-bank-picker";
+
+interface QuestionEditorProps {
+  mode: TaskMode;
+  question: ExamQuestion;
+  onChange: (question: ExamQuestion) => void;
+  // Called with a question from the bank, which may switch the task mode.
+  onPick: (question: BankQuestion) => void;
+}
+
+const inputClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-200 placeholder:text-neutral-600 focus:ring-1 focus:ring-purple-500 outline-none min-w-0";
+
+const questionPlaceholder = (mode: TaskMode) => {
+  if (mode.task === "Task 2") return "e.g. Some people think that... Discuss both views and give your own opinion.";
+  if (mode.module === "general") return "Paste the letter task, including its three bullet points...";
+  return "e.g. The chart below shows... Summarise the information by selecting and reporting the main features...";
+};
+
+const TableEditor = ({ visual, onChange }: { visual: Extract<VisualDescription, { kind: "table" }>; onChange: (v: VisualDescription) => void }) => {
+  const setColumn = (index: number, value: string) =>
+    onChange({ ...visual, columns: visual.columns.map((c, i) => (i === index ? value : c)) });
+  const addColumn = () =>
+    onChange({ ...visual, columns: [...visual.columns, ""], rows: visual.rows.map((r) => ({ ...r, values: [...r.values, ""] })) });
+  const setCell = (rowIndex: number, columnIndex: number, value: string) =>
+    onChange({
+      ...visual,
+      rows: visual.rows.map((row, r) =>
+        r === rowIndex ? { ...row, values: row.values.map((v, c) => (c === columnIndex ? value : v)) } : row
+      ),
+    });
+  const setLabel = (rowIndex: number, label: string) =>
+    onChange({ ...visual, rows: visual.rows.map((row, r) => (r === rowIndex ? { ...row, label } : row)) });
+  const addRow = () => onChange({ ...visual, rows: [...visual.rows, { label: "", values: visual.columns.map(() => "") }] });
+  const removeRow = (rowIndex: number) => onChange({ ...visual, rows: visual.rows.filter((_, r) => r !== rowIndex) });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input className={cn(inputClass, "flex-1")} placeholder="Title (optional)" value={visual.title ?? ""} onChange={(e) => onChange({ ...visual, title: e.target.value })} />
+        <input className={cn(inputClass, "w-32")} placeholder="Unit, e.g. %" value={visual.unit ?? ""} onChange={(e) => onChange({ ...visual, unit: e.target.value })} />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left text-neutral-500 font-medium px-1">Series</th>
+              {visual.columns.map((column, c) => (
+                <th key={c}>
+                  <input className={cn(inputClass, "w-20")} placeholder={`e.g. ${2000 + c * 10}`} value={column} onChange={(e) => setColumn(c, e.target.value)} />
+                </th>
+              ))}
+              <th>
+                <button onClick={addColumn} className="p-1 text-neutral-500 hover:text-white" title="Add column">
+                  <IconPlus size={14} />
+                </button>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {visual.rows.map((row, r) => (
+              <tr key={r}>
+                <td>
+                  <input className={cn(inputClass, "w-28")} placeholder="e.g. Germany" value={row.label} onChange={(e) => setLabel(r, e.target.value)} />
+                </td>
+                {visual.columns.map((_, c) => (
+                  <td key={c}>
+                    <input className={cn(inputClass, "w-20")} value={row.values[c] ?? ""} onChange={(e) => setCell(r, c, e.target.value)} />
+                  </td>
+                ))}
+                <td>
+                  <button onClick={() => removeRow(r)} disabled={visual.rows.length === 1} className="p-1 text-neutral-500 hover:text-red-400 disabled:opacity-30" title="Remove row">
+                    <IconTrash size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button onClick={addRow} className="flex items-center gap-1 text-xs text-neutral-400 hover:text-white">
+        <IconPlus size={12} /> Add series
+      </button>
+    </div>
+  );
+};
+
+const StepsEditor = ({ visual, mode, onChange }: { visual: Extract<VisualDescription, { kind: "steps" }>; mode: TaskMode; onChange: (v: VisualDescription) => void }) => {
+  const setStep = (index: number, value: string) => onChange({ ...visual, steps: visual.steps.map((s, i) => (i === index ? value : s)) });
+  const isMap = mode.id === "task1-academic-map";
+
+  return (
+    <div className="space-y-2">
+      <input className={cn(inputClass, "w-full")} placeholder="Title (optional)" value={visual.title ?? ""} onChange={(e) => onChange({ ...visual, title: e.target.value })} />
+      {visual.steps.map((step, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <span className="text-xs text-neutral-500 w-5 text-right">{index + 1}.</span>
+          <input
+            className={cn(inputClass, "flex-1")}
+            placeholder={isMap ? "e.g. The forest in the north was replaced by housing" : "e.g. Raw materials are crushed"}
+            value={step}
+            onChange={(e) => setStep(index, e.target.value)}
+          />
+          <button
+            onClick={() => onChange({ ...visual, steps: visual.steps.filter((_, i) => i !== index) })}
+            disabled={visual.steps.length === 1}
+            className="p-1 text-neutral-500 hover:text-red-400 disabled:opacity-30"
+            title="Remove"
+          >
+            <IconTrash size={14} />
+          </button>
+        </div>
+      ))}
+      <button onClick={() => onChange({ ...visual, steps: [...visual.steps, ""] })} className="flex items-center gap-1 text-xs text-neutral-400 hover:text-white">
+        <IconPlus size={12} /> {isMap ? "Add feature or change" : "Add stage"}
+      </button>
+    </div>
+  );
+};
+
+export const QuestionEditor = ({ mode, question, onChange, onPick }: QuestionEditorProps) => {
+  const [open, setOpen] = useState(true);
+  const [browsing, setBrowsing] = useState(false);
+  const [error, setError] = useState("");
+
+  const pick = (picked: BankQuestion) => {
+    setBrowsing(false);
+    setError("");
+    onPick(picked);
+  };
+
+  const pickRandom = async () => {
+    const params = new URLSearchParams({ mode: mode.id, random: "1" });
+    if (question.bankId) params.set("exclude", question.bankId);
+    const response = await fetch(`/api/questions?${params}`);
+    const data = await response.json();
+    if (response.ok) pick(data.question);
+    else setError(data.error);
+  };
+
+  const visual = mode.visual && question.visual?.kind === mode.visual ? question.visual : mode.visual ? emptyVisual(mode.visual) : undefined;
+  const setVisual = (next: VisualDescription) => onChange({ ...question, visual: next });
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-2xl">
+      <button onClick={() => setOpen(!open)} className="w-full flex justify-between items-center px-5 py-3 text-sm font-medium text-neutral-300">
+        <span>
+          Exam question
+          {!open && question.text && <span className="ml-2 text-neutral-500 font-normal">{question.text.slice(0, 60)}{question.text.length > 60 ? "…" : ""}</span>}
+        </span>
+        <IconChevronDown size={16} className={cn("transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setBrowsing(true)}
+              className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors"
+            >
+              <IconBooks size={14} /> Question bank
+            </button>
+            <button
+              onClick={pickRandom}
+              className="flex items-center gap-1 text-xs font-medium px-3 py-1.5 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors"
+            >
+              <IconArrowsShuffle size={14} /> Random {mode.label.toLowerCase()} question
+            </button>
+          </div>
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <textarea
+            value={question.text}
+            // Editing the text detaches it from the bank question it came from
+            onChange={(e) => onChange({ ...question, text: e.target.value, bankId: undefined })}
+            placeholder={questionPlaceholder(mode)}
+            rows={3}
+            className="w-full bg-neutral-950 border border-neutral-800 rounded-xl p-3 text-sm text-neutral-200 placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none resize-y"
+          />
+
+          {visual && (
+            <div className="space-y-2">
+              <div className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">
+                {visual.kind === "table" ? "Data in the visual" : mode.id === "task1-academic-map" ? "Features and changes shown" : "Stages of the process"}
+              </div>
+              {visual.kind === "table" ? (
+                <TableEditor visual={visual} onChange={setVisual} />
+              ) : (
+                <StepsEditor visual={visual} mode={mode} onChange={setVisual} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Modal isOpen={browsing} onClose={() => setBrowsing(false)} title="Question bank">
+        <QuestionBankPicker initialGroup={groupOf(mode.id)} currentId={question.bankId} onPick={pick} />
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+"use client";
+import { useState } from "react";
+import { IconFileTypeDocx, IconMarkdown, IconPrinter } from "@tabler/icons-react";
+import type { SavedAnalysis } from "@/lib/library";
+import { buildReport, exportReport, renderHtml, type ReportFile, type ReportFormat } from "@/lib/report";
+
+interface ReportExportProps {
+  // Oldest first, as stored in the library.
+  analyses: SavedAnalysis[];
+}
+
+const selectClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500 min-w-0";
+
+const describeAnalysis = (analysis: SavedAnalysis, index: number) =>
+  `#${index + 1} · ${new Date(analysis.createdAt).toLocaleString()} · Band ${analysis.data.band_score}`;
+
+const FORMATS: { format: ReportFormat | "pdf"; label: string; hint: string; icon: typeof IconPrinter }[] = [
+  { format: "pdf", label: "PDF", hint: "Opens the print dialog; choose “Save as PDF”.", icon: IconPrinter },
+  { format: "docx", label: "Word", hint: "A .docx file for Word, Pages or Google Docs.", icon: IconFileTypeDocx },
+  { format: "markdown", label: "Markdown", hint: "Plain text with formatting marks, for notes apps.", icon: IconMarkdown },
+];
+
+function download({ filename, blob }: ReportFile) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked on the next tick, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// Prints the HTML report from a hidden frame, so there is no pop-up to block
+// and the browser's own "Save as PDF" produces the file.
+function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.addEventListener("afterprint", () => frame.remove());
+    frame.contentWindow?.print();
+  };
+  document.body.appendChild(frame);
+}
+
+export const ReportExport = ({ analyses }: ReportExportProps) => {
+  const [analysisId, setAnalysisId] = useState(() => analyses.at(-1)?.id ?? "");
+  const [error, setError] = useState("");
+
+  const analysis = analyses.find((a) => a.id === analysisId) ?? analyses.at(-1);
+  if (!analysis) {
+    return <p className="text-sm text-neutral-500 italic">Analyse the essay to export a report.</p>;
+  }
+
+  const handleExport = (format: ReportFormat | "pdf") => {
+    setError("");
+    try {
+      if (format === "pdf") printHtml(renderHtml(buildReport(analysis)));
+      else download(exportReport(analysis, format));
+    } catch (err) {
+      console.error("Error exporting report:", err);
+      setError("The report could not be created.");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <p className="text-sm text-neutral-400">
+        The report has the question, your essay with corrections marked, the corrected essay, band scores, the action plan, the
+        feedback on each criterion and the vocabulary list. It is created in your browser; nothing is uploaded.
+      </p>
+
+      {analyses.length > 1 && (
+        <label className="flex flex-col gap-1 text-xs text-neutral-500">
+          Analysis
+          <select className={selectClass} value={analysis.id} onChange={(e) => setAnalysisId(e.target.value)}>
+            {analyses.map((a, index) => (
+              <option key={a.id} value={a.id}>
+                {describeAnalysis(a, index)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        {FORMATS.map(({ format, label, hint, icon: Icon }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            className="flex flex-col items-start gap-2 p-4 rounded-xl bg-neutral-950 border border-neutral-800 hover:border-purple-500/50 hover:bg-neutral-900 text-left transition-colors"
+          >
+            <Icon size={20} className="text-purple-400" />
+            <span className="text-sm font-semibold text-white">{label}</span>
+            <span className="text-xs text-neutral-500">{hint}</span>
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
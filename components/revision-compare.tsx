@@ -0,0 +1,143 @@
+"use client";
+import { useState } from "react";
+import { IconArrowDownRight, IconArrowUpRight, IconMinus } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { CRITERIA, type Correction, type CriterionKey } from "@/lib/feedback";
+import type { SavedAnalysis } from "@/lib/library";
+import { compareAnalyses, type BandChange } from "@/lib/revision-compare";
+import { DiffText } from "@/components/diff-text";
+
+interface RevisionCompareProps {
+  // Oldest first, as stored in the library.
+  analyses: SavedAnalysis[];
+  criterionLabel: (key: CriterionKey) => string;
+}
+
+const selectClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1.5 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-purple-500 min-w-0";
+
+const describeAnalysis = (analysis: SavedAnalysis, index: number) =>
+  `#${index + 1} · ${new Date(analysis.createdAt).toLocaleString()} · Band ${analysis.data.band_score}` +
+  (analysis.data.prompt_version ? ` · prompt ${analysis.data.prompt_version}` : "") +
+  (analysis.revision === null ? " (discarded revision)" : "");
+
+const Delta = ({ change }: { change: BandChange }) => (
+  <span
+    className={cn(
+      "inline-flex items-center gap-0.5 text-xs font-bold",
+      change.delta > 0 ? "text-green-400" : change.delta < 0 ? "text-red-400" : "text-neutral-500"
+    )}
+  >
+    {change.delta > 0 ? <IconArrowUpRight size={14} /> : change.delta < 0 ? <IconArrowDownRight size={14} /> : <IconMinus size={14} />}
+    {change.delta > 0 ? "+" : ""}
+    {change.delta}
+  </span>
+);
+
+const CorrectionList = ({ title, hint, items, tone }: { title: string; hint: string; items: Correction[]; tone: string }) => (
+  <div className="space-y-2">
+    <h4 className={cn("text-[10px] uppercase tracking-wider font-bold", tone)}>
+      {title} ({items.length})
+    </h4>
+    {items.length === 0 ? (
+      <p className="text-xs text-neutral-600 italic">{hint}</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {items.map((item, i) => (
+          <li key={i} className="text-neutral-400">
+            <span className="line-through text-red-400/80">{item.original}</span> → <span className="text-green-400">{item.replacement}</span>
+            <span className="text-xs text-neutral-600 capitalize"> · {item.type}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const RevisionCompare = ({ analyses, criterionLabel }: RevisionCompareProps) => {
+  const [beforeId, setBeforeId] = useState(() => analyses.at(-2)?.id ?? "");
+  const [afterId, setAfterId] = useState(() => analyses.at(-1)?.id ?? "");
+
+  if (analyses.length < 2) {
+    return <p className="text-sm text-neutral-500 italic">Analyse the essay again after editing it to compare the two versions.</p>;
+  }
+
+  const indexOf = (id: string) => Math.max(0, analyses.findIndex((a) => a.id === id));
+  // Always compare the earlier analysis against the later one
+  const [first, second] = [indexOf(beforeId), indexOf(afterId)].sort((a, b) => a - b);
+  const before = analyses[first];
+  const after = analyses[second];
+  const comparison = first === second ? null : compareAnalyses(before, after);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { label: "Earlier", value: beforeId, onChange: setBeforeId },
+          { label: "Later", value: afterId, onChange: setAfterId },
+        ].map((picker) => (
+          <label key={picker.label} className="flex flex-col gap-1 text-xs text-neutral-500">
+            {picker.label}
+            <select className={selectClass} value={picker.value} onChange={(e) => picker.onChange(e.target.value)}>
+              {analyses.map((analysis, index) => (
+                <option key={analysis.id} value={analysis.id}>
+                  {describeAnalysis(analysis, index)}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {!comparison ? (
+        <p className="text-sm text-neutral-500 italic">Pick two different analyses to compare.</p>
+      ) : (
+        <>
+          {before.data.prompt_version !== after.data.prompt_version && (
+            <p className="text-xs text-amber-400">
+              These analyses were scored with different prompt versions ({before.data.prompt_version ?? "unversioned"} and{" "}
+              {after.data.prompt_version ?? "unversioned"}), so part of any band change may come from the prompt rather than the essay.
+            </p>
+          )}
+          <div className="grid grid-cols-5 gap-2 text-center">
+            {[
+              { label: "Overall", change: comparison.overall },
+              ...CRITERIA.map((key) => ({ label: criterionLabel(key), change: comparison.criteria[key] })),
+            ].map((cell) => (
+              <div key={cell.label} className="bg-neutral-950 border border-neutral-800 rounded-xl p-3 space-y-1">
+                <div className="text-[10px] uppercase tracking-wider text-neutral-500 font-bold line-clamp-2 min-h-[2.5em]">{cell.label}</div>
+                <div className="text-sm text-white font-semibold">
+                  {cell.change.before} → {cell.change.after}
+                </div>
+                <Delta change={cell.change} />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-5">
+            <CorrectionList title="Resolved" hint="No earlier correction was fixed." items={comparison.resolved} tone="text-green-400" />
+            <CorrectionList title="New issues" hint="No new corrections were raised." items={comparison.introduced} tone="text-red-400" />
+            <CorrectionList title="Still flagged" hint="Nothing was flagged twice." items={comparison.persisting} tone="text-amber-400" />
+            <CorrectionList
+              title="Not flagged this time"
+              hint="Every unchanged correction was raised again."
+              items={comparison.unflagged}
+              tone="text-neutral-500"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-[10px] uppercase tracking-wider font-bold text-neutral-500">Text changes</div>
+            <div className="max-h-64 overflow-y-auto bg-neutral-950 border border-neutral-800 rounded-xl p-4 text-sm font-mono leading-relaxed whitespace-pre-wrap">
+              {comparison.diff.every((part) => part.type === "same") ? (
+                <p className="text-neutral-500 italic font-sans">The text is the same in both analyses.</p>
+              ) : (
+                <DiffText parts={comparison.diff} />
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+"use client";
+import { useState } from "react";
+import { IconSchool } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { mergeReview, type Assignment, type Submission, type TeacherReview } from "@/lib/classroom";
+import { CRITERIA, type FeedbackData } from "@/lib/feedback";
+import { criterionNames, getTaskMode } from "@/lib/tasks";
+import { MarkedEssay } from "@/components/marked-essay";
+
+interface SubmissionResultProps {
+  submission: Submission & { analysis: FeedbackData; review: TeacherReview };
+  assignment: Assignment;
+}
+
+// What a student sees once their teacher returns a submission: the analysis
+// with the teacher's bands, corrections and comments applied.
+export const SubmissionResult = ({ submission, assignment }: SubmissionResultProps) => {
+  const { analysis, review } = submission;
+  const merged = mergeReview(analysis, review);
+  const names = criterionNames(getTaskMode(assignment.taskMode));
+  const [active, setActive] = useState<number | null>(null);
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6 items-start">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 max-h-[80vh] overflow-y-auto lg:sticky lg:top-8">
+        <MarkedEssay
+          essay={submission.essay}
+          corrections={merged.corrections.map((correction) => ({ anchor: correction.anchor, tone: correction.editedByTeacher ? "edited" : undefined }))}
+          active={active}
+          onSelect={(index) => {
+            setActive(index);
+            document.getElementById(`correction-${index}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+          }}
+        />
+      </div>
+
+      <div className="space-y-6">
+        <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-lg font-semibold text-white">Overall band</h2>
+            <span className="text-4xl font-bold text-white">{merged.band_score}</span>
+          </div>
+          {review.comment && (
+            <div className="flex gap-3 bg-purple-600/10 border border-purple-500/20 rounded-xl p-4 text-sm text-purple-50">
+              <IconSchool size={18} className="shrink-0 text-purple-300" />
+              <p className="whitespace-pre-wrap">{review.comment}</p>
+            </div>
+          )}
+          {analysis.general_comment && <p className="text-sm text-neutral-400">{analysis.general_comment}</p>}
+        </section>
+
+        <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-5">
+          {CRITERIA.map((key) => (
+            <div key={key} className="space-y-2">
+              <div className="flex items-baseline justify-between gap-4">
+                <span className="font-medium text-neutral-200">{names[key].label}</span>
+                <span className="flex items-baseline gap-2">
+                  {review.bands[key] !== undefined && <span className="text-[10px] uppercase tracking-wider text-purple-300">Set by your teacher</span>}
+                  <span className="text-xl font-bold text-white">{merged.feedback[key].band}</span>
+                </span>
+              </div>
+              <p className="text-sm text-neutral-400">{merged.feedback[key].summary}</p>
+              {review.criterionComments[key] && (
+                <p className="text-sm text-purple-100 bg-purple-600/10 border border-purple-500/20 rounded-lg px-3 py-2 whitespace-pre-wrap">
+                  {review.criterionComments[key]}
+                </p>
+              )}
+            </div>
+          ))}
+        </section>
+
+        <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-3">
+          <h2 className="text-lg font-semibold text-white">Corrections</h2>
+          {merged.corrections.length === 0 && <p className="text-sm text-neutral-500 italic">No corrections.</p>}
+          {merged.corrections.map((correction, index) => (
+            <div
+              key={index}
+              id={`correction-${index}`}
+              onClick={() => setActive(index)}
+              className={cn("rounded-xl border p-4 space-y-1 text-sm transition-colors", active === index ? "border-purple-500/60" : "border-neutral-800")}
+            >
+              <div>
+                <span className="text-neutral-500 mr-2">{index + 1}.</span>
+                <span className="line-through text-red-300/80">{correction.original}</span> → <span className="text-green-300">{correction.replacement}</span>
+                {correction.editedByTeacher && <span className="ml-2 text-[10px] uppercase tracking-wider text-blue-300">Edited by your teacher</span>}
+              </div>
+              {correction.explanation && <p className="text-neutral-400">{correction.explanation}</p>}
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+"use client";
+import { useState } from "react";
+import { IconArrowBackUp, IconCheck, IconDeviceFloppy, IconEdit, IconLoader2, IconX } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { MAX_BAND, MIN_BAND } from "@/lib/bands";
+import { emptyReview, mergeReview, type CorrectionDecision, type SubmissionDetail, type TeacherReview } from "@/lib/classroom";
+import { saveReview, type ReviewBody } from "@/lib/classroom-client";
+import { CRITERIA, type FeedbackData } from "@/lib/feedback";
+import { criterionNames, getTaskMode } from "@/lib/tasks";
+import { MarkedEssay } from "@/components/marked-essay";
+
+interface SubmissionReviewProps {
+  detail: SubmissionDetail & { submission: { analysis: FeedbackData } };
+  reviewerId: string;
+  onSaved: (submission: SubmissionDetail["submission"]) => void;
+  onError: (err: unknown) => void;
+}
+
+const BANDS = Array.from({ length: MAX_BAND - MIN_BAND + 1 }, (_, i) => MIN_BAND + i);
+
+const inputClass =
+  "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-purple-500";
+
+const DECISIONS: { status: CorrectionDecision["status"]; label: string; icon: typeof IconCheck }[] = [
+  { status: "accepted", label: "Accept", icon: IconCheck },
+  { status: "rejected", label: "Reject", icon: IconX },
+  { status: "edited", label: "Edit", icon: IconEdit },
+];
+
+// The teacher's side of a submission: override bands, decide on each AI
+// correction, comment, and return the merged result to the student.
+export const SubmissionReview = ({ detail, reviewerId, onSaved, onError }: SubmissionReviewProps) => {
+  const { submission, assignment, student } = detail;
+  const analysis = submission.analysis;
+  const names = criterionNames(getTaskMode(assignment.taskMode));
+  const [review, setReview] = useState<TeacherReview>(() => submission.review ?? emptyReview(reviewerId));
+  const [active, setActive] = useState<number | null>(null);
+  const [saving, setSaving] = useState<TeacherReview["status"] | null>(null);
+  const merged = mergeReview(analysis, review);
+  const returned = submission.review?.status === "returned";
+
+  const change = (patch: Partial<TeacherReview>) => setReview((prev) => ({ ...prev, ...patch }));
+
+  const decide = (index: number, status: CorrectionDecision["status"]) => {
+    const correction = analysis.corrections[index];
+    const current = review.corrections[index];
+    const corrections = { ...review.corrections };
+    // Clicking the current decision again clears it
+    if (current?.status === status) delete corrections[index];
+    else corrections[index] = status === "edited" ? { status, replacement: correction.replacement, explanation: correction.explanation } : { status };
+    change({ corrections });
+  };
+
+  const editDecision = (index: number, patch: { replacement?: string; explanation?: string }) => {
+    const current = review.corrections[index];
+    if (current?.status !== "edited") return;
+    change({ corrections: { ...review.corrections, [index]: { ...current, ...patch } } });
+  };
+
+  const save = async (status: TeacherReview["status"]) => {
+    setSaving(status);
+    try {
+      const body: ReviewBody = { bands: review.bands, corrections: review.corrections, criterionComments: review.criterionComments, comment: review.comment, status };
+      const saved = await saveReview(submission.id, body);
+      setReview(saved.review ?? review);
+      onSaved(saved);
+    } catch (err) {
+      onError(err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6 items-start">
+      <div className="space-y-6 lg:sticky lg:top-8">
+        <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 max-h-[70vh] overflow-y-auto">
+          <MarkedEssay
+            essay={submission.essay}
+            corrections={analysis.corrections.map((correction, index) => ({
+              anchor: correction.anchor,
+              tone: review.corrections[index]?.status === "rejected" ? "muted" : review.corrections[index]?.status === "edited" ? "edited" : undefined,
+            }))}
+            active={active}
+            onSelect={(index) => {
+              setActive(index);
+              document.getElementById(`correction-${index}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+            }}
+          />
+        </div>
+
+        <div className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-4">
+          <div className="flex items-baseline justify-between">
+            <h2 className="text-lg font-semibold text-white">Overall</h2>
+            <span className="text-sm text-neutral-500">
+              AI band {analysis.band_score} → <span className="text-2xl font-bold text-white">{merged.band_score}</span>
+            </span>
+          </div>
+          <textarea
+            value={review.comment}
+            onChange={(e) => change({ comment: e.target.value })}
+            rows={4}
+            placeholder={`Your comment to ${student.name}`}
+            className={cn(inputClass, "resize-y")}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => save("draft")}
+              disabled={!!saving}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 disabled:opacity-50 transition-colors"
+            >
+              {saving === "draft" ? <IconLoader2 size={14} className="animate-spin" /> : <IconDeviceFloppy size={14} />}
+              {returned ? "Withdraw and save as draft" : "Save draft"}
+            </button>
+            <button
+              onClick={() => save("returned")}
+              disabled={!!saving}
+              className="flex items-center gap-1 px-4 py-1.5 rounded-full text-xs font-medium bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50 transition-colors"
+            >
+              {saving === "returned" ? <IconLoader2 size={14} className="animate-spin" /> : <IconArrowBackUp size={14} />}
+              {returned ? "Update returned review" : "Return to student"}
+            </button>
+            {submission.review && (
+              <span className="text-xs text-neutral-500">
+                {returned ? "Returned" : "Draft saved"} {new Date(submission.review.updatedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-5">
+          <h2 className="text-lg font-semibold text-white">Criteria</h2>
+          {CRITERIA.map((key) => {
+            const criterion = analysis.feedback[key];
+            return (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-medium text-neutral-200">{names[key].label}</span>
+                  <label className="flex items-center gap-2 text-xs text-neutral-500">
+                    AI {criterion.band} →
+                    <select
+                      value={review.bands[key] ?? ""}
+                      onChange={(e) => {
+                        const bands = { ...review.bands };
+                        if (e.target.value === "") delete bands[key];
+                        else bands[key] = Number(e.target.value);
+                        change({ bands });
+                      }}
+                      className="bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-1 text-sm text-white outline-none focus:ring-1 focus:ring-purple-500"
+                    >
+                      <option value="">Keep {criterion.band}</option>
+                      {BANDS.map((band) => (
+                        <option key={band} value={band}>
+                          {band}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <p className="text-sm text-neutral-400">{criterion.summary}</p>
+                <textarea
+                  value={review.criterionComments[key] ?? ""}
+                  onChange={(e) => change({ criterionComments: { ...review.criterionComments, [key]: e.target.value } })}
+                  rows={2}
+                  placeholder={`Your comment on ${names[key].label}`}
+                  className={cn(inputClass, "resize-y text-xs")}
+                />
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="bg-neutral-900 border border-neutral-800 rounded-2xl p-6 space-y-3">
+          <h2 className="text-lg font-semibold text-white">Corrections</h2>
+          {analysis.corrections.length === 0 && <p className="text-sm text-neutral-500 italic">The analysis made no corrections.</p>}
+          {analysis.corrections.map((correction, index) => {
+            const decision = review.corrections[index];
+            return (
+              <div
+                key={index}
+                id={`correction-${index}`}
+                onClick={() => setActive(index)}
+                className={cn(
+                  "rounded-xl border p-4 space-y-2 text-sm transition-colors",
+                  active === index ? "border-purple-500/60" : "border-neutral-800",
+                  decision?.status === "rejected" && "opacity-50"
+                )}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <span className="text-neutral-500 mr-2">{index + 1}.</span>
+                    <span className="line-through text-red-300/80">{correction.original}</span> → <span className="text-green-300">{correction.replacement}</span>
+                    <span className="ml-2 text-[10px] uppercase tracking-wider text-neutral-500">{correction.type}</span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {DECISIONS.map(({ status, label, icon: Icon }) => (
+                      <button
+                        key={status}
+                        onClick={() => decide(index, status)}
+                        title={label}
+                        className={cn(
+                          "p-1.5 rounded-md border transition-colors",
+                          decision?.status === status
+                            ? "border-purple-500 bg-purple-600/20 text-white"
+                            : "border-neutral-800 text-neutral-500 hover:text-white hover:bg-neutral-800"
+                        )}
+                      >
+                        <Icon size={14} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {decision?.status === "edited" ? (
+                  <div className="space-y-2">
+                    <input
+                      value={decision.replacement}
+                      onChange={(e) => editDecision(index, { replacement: e.target.value })}
+                      placeholder="Replacement"
+                      className={inputClass}
+                    />
+                    <textarea
+                      value={decision.explanation}
+                      onChange={(e) => editDecision(index, { explanation: e.target.value })}
+                      rows={2}
+                      placeholder="Explanation"
+                      className={cn(inputClass, "resize-y text-xs")}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-neutral-400">{correction.explanation}</p>
+                )}
+              </div>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+};
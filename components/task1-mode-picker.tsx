@@ -0,0 +1,53 @@
+"use client";
+import { cn } from "@/lib/utils";
+import { TASK_MODES, getTaskMode, type Task1Module, type TaskModeId } from "@/lib/tasks";
+
+interface Task1ModePickerProps {
+  value: TaskModeId;
+  onChange: (mode: TaskModeId) => void;
+}
+
+const MODULES: { id: Task1Module; label: string; defaultMode: TaskModeId }[] = [
+  { id: "academic", label: "Academic", defaultMode: "task1-academic-line" },
+  { id: "general", label: "General Training", defaultMode: "task1-general-formal" },
+];
+
+export const Task1ModePicker = ({ value, onChange }: Task1ModePickerProps) => {
+  const current = getTaskMode(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 bg-neutral-900 p-1 rounded-full border border-neutral-800 w-fit">
+        {MODULES.map((module) => (
+          <button
+            key={module.id}
+            onClick={() => current.module !== module.id && onChange(module.defaultMode)}
+            className={cn(
+              "px-4 py-1.5 rounded-full text-xs font-medium transition-colors",
+              current.module === module.id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+            )}
+          >
+            {module.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TASK_MODES.filter((mode) => mode.module === current.module).map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => onChange(mode.id)}
+            className={cn(
+              "px-3 py-1 rounded-full text-xs font-medium border transition-colors",
+              mode.id === value
+                ? "border-purple-500 bg-purple-500/10 text-purple-300"
+                : "border-neutral-800 text-neutral-400 hover:border-neutral-600"
+            )}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
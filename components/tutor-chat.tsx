@@ -0,0 +1,203 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { IconAlertTriangle, IconCheck, IconLoader2, IconMessageCircle, IconPlayerStop, IconReplace, IconSend, IconX } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { AnalysisError, requestTutorReply, type TutorRequestBody } from "@/lib/analysis-client";
+import { resolveAnchor } from "@/lib/anchors";
+import { INPUT_LIMITS } from "@/lib/input-safety";
+import { TUTOR_HISTORY, visibleTutorText, type TutorEdit, type TutorFocus, type TutorMessage } from "@/lib/tutor";
+
+interface TutorChatProps {
+  // The essay, task and question as they are now, and the analysis being discussed.
+  request: Omit<TutorRequestBody, "focus" | "messages">;
+  conversation: TutorMessage[];
+  // What the next question is about, if anything in particular.
+  focus?: TutorFocus;
+  onClearFocus?: () => void;
+  focusLabel: (focus: TutorFocus) => string;
+  // Adds the question and its answer to the analysis's saved conversation.
+  onMessages: (messages: TutorMessage[]) => void;
+  onApplyEdit: (edit: TutorEdit, event: React.MouseEvent) => void;
+}
+
+export const TutorChat = ({ request, conversation, focus, onClearFocus, focusLabel, onMessages, onApplyEdit }: TutorChatProps) => {
+  const [draft, setDraft] = useState("");
+  // The question being answered and the reply so far
+  const [pending, setPending] = useState<{ question: TutorMessage; text: string } | null>(null);
+  const [error, setError] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [conversation.length, pending?.text]);
+
+  const send = async () => {
+    const content = draft.trim();
+    if (!content || pending) return;
+    const question: TutorMessage = { role: "student", content, ...(focus && { focus }), createdAt: Date.now() };
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPending({ question, text: "" });
+    setDraft("");
+    setError("");
+
+    try {
+      const reply = await requestTutorReply(
+        {
+          ...request,
+          focus,
+          messages: [...conversation, question].slice(-TUTOR_HISTORY).map(({ role, content }) => ({ role, content })),
+        },
+        { signal: controller.signal, onText: (text) => setPending({ question, text }) },
+      );
+      onMessages([question, reply]);
+    } catch (err) {
+      // The question goes back in the box so it can be sent again
+      setDraft(content);
+      if (controller.signal.aborted) return;
+      if (err instanceof AnalysisError) {
+        setError(err.retryAfter ? `${err.message} Try again in ${err.retryAfter} s.` : err.message);
+      } else {
+        console.error(err);
+        setError("Something went wrong. Please try again.");
+      }
+    } finally {
+      controllerRef.current = null;
+      setPending(null);
+    }
+  };
+
+  const renderEdit = (edit: TutorEdit, index: number) => {
+    const status = resolveAnchor(request.essay, edit.original, edit.anchor, edit.replacement).status;
+    return (
+      <div key={index} className="bg-black/30 border border-white/5 rounded-lg p-3 space-y-2 text-xs">
+        <div>
+          <span className="line-through text-red-300/80">{edit.original}</span> → <span className="text-green-300">{edit.replacement}</span>
+        </div>
+        {edit.explanation && <p className="text-neutral-400">{edit.explanation}</p>}
+        <button
+          onClick={(e) => onApplyEdit(edit, e)}
+          disabled={status !== "ok"}
+          className={cn(
+            "flex items-center gap-2 px-3 py-1.5 rounded-md transition-colors",
+            status === "applied"
+              ? "bg-green-500/10 text-green-500 cursor-default"
+              : status === "stale"
+                ? "bg-black/30 text-neutral-500 cursor-default"
+                : "bg-blue-600 hover:bg-blue-500 text-white"
+          )}
+        >
+          {status === "applied" ? (
+            <>
+              <IconCheck size={14} /> Applied
+            </>
+          ) : status === "stale" ? (
+            <>
+              <IconAlertTriangle size={14} /> Text changed since this reply
+            </>
+          ) : (
+            <>
+              <IconReplace size={14} /> Apply to essay
+            </>
+          )}
+        </button>
+      </div>
+    );
+  };
+
+  const renderMessage = (message: TutorMessage, key: React.Key, streaming?: string) => (
+    <div key={key} className={cn("flex", message.role === "student" ? "justify-end" : "justify-start")}>
+      <div
+        className={cn(
+          "max-w-[85%] rounded-xl px-4 py-3 text-sm space-y-2",
+          message.role === "student" ? "bg-purple-600/20 border border-purple-500/20 text-purple-50" : "bg-neutral-950 border border-neutral-800 text-neutral-300"
+        )}
+      >
+        {message.focus && <div className="text-[10px] uppercase tracking-wider font-bold text-purple-300/70">About: {focusLabel(message.focus)}</div>}
+        <p className="whitespace-pre-wrap leading-relaxed">{streaming ?? message.content}</p>
+        {message.edits?.map(renderEdit)}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {conversation.length === 0 && !pending ? (
+        <p className="text-sm text-neutral-500 italic">
+          Ask why something was marked down, for another example, or how to fix a sentence. The tutor can see your essay and this analysis.
+        </p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {conversation.map((message, index) => renderMessage(message, index))}
+          {pending && (
+            <>
+              {renderMessage(pending.question, "pending-question")}
+              <div className="flex justify-start">
+                <div className="max-w-[85%] rounded-xl px-4 py-3 text-sm bg-neutral-950 border border-neutral-800 text-neutral-300">
+                  {visibleTutorText(pending.text) ? (
+                    <p className="whitespace-pre-wrap leading-relaxed">{visibleTutorText(pending.text)}</p>
+                  ) : (
+                    <IconLoader2 size={16} className="animate-spin text-neutral-500" />
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {focus && (
+        <div className="flex items-center gap-2 text-xs text-purple-300">
+          <IconMessageCircle size={14} className="shrink-0" />
+          <span className="truncate">About: {focusLabel(focus)}</span>
+          {onClearFocus && (
+            <button onClick={onClearFocus} className="text-neutral-500 hover:text-white transition-colors" title="Ask about the whole analysis">
+              <IconX size={14} />
+            </button>
+          )}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+        className="flex gap-2 items-end"
+      >
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          maxLength={INPUT_LIMITS.tutorMessageChars}
+          rows={2}
+          placeholder="Ask the tutor…"
+          className="flex-1 resize-none bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 outline-none focus:ring-1 focus:ring-purple-500"
+        />
+        {pending ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            className="p-2.5 rounded-lg border border-neutral-800 text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+            title="Stop"
+          >
+            <IconPlayerStop size={18} />
+          </button>
+        ) : (
+          <button type="submit" disabled={!draft.trim()} className="p-2.5 rounded-lg bg-purple-600 text-white disabled:opacity-40" title="Send">
+            <IconSend size={18} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
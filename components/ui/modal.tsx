@@ -7,9 +7,11 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   children: React.ReactNode;
+  // For side-by-side content
+  wide?: boolean;
 }
 
-export const Modal = ({ isOpen, onClose, title, children }: ModalProps) => {
+export const Modal = ({ isOpen, onClose, title, children, wide }: ModalProps) => {
   return (
     <AnimatePresence>
       {isOpen && (
@@ -28,7 +30,7 @@ export const Modal = ({ isOpen, onClose, title, children }: ModalProps) => {
             initial={{ opacity: 0, scale: 0.95, y: 20 }}
             animate={{ opacity: 1, scale: 1, y: 0 }}
             exit={{ opacity: 0, scale: 0.95, y: 20 }}
-            className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-2xl max-h-[85vh] overflow-y-auto bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl z-50 p-6"
+            className={`fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full ${wide ? "max-w-6xl" : "max-w-2xl"} max-h-[85vh] overflow-y-auto bg-neutral-900 border border-neutral-800 rounded-2xl shadow-2xl z-50 p-6`}
           >
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-xl font-bold text-white">{title}</h3>
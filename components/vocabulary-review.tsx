@@ -0,0 +1,174 @@
+"use client";
+import { useState } from "react";
+import { IconCards, IconCheck, IconForms, IconX } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { buildCloze, checkCloze, dueWords, type NotebookWord } from "@/lib/notebook";
+import { GRADES, type Grade } from "@/lib/srs";
+
+interface VocabularyReviewProps {
+  // The whole notebook; the session is the words due when it starts.
+  words: NotebookWord[];
+  onGrade: (key: string, grade: Grade) => Promise<void>;
+}
+
+type DrillMode = "flashcards" | "cloze";
+
+const inputClass =
+  "bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-neutral-200 outline-none focus:ring-1 focus:ring-purple-500";
+
+export const VocabularyReview = ({ words, onGrade }: VocabularyReviewProps) => {
+  const [mode, setMode] = useState<DrillMode>("flashcards");
+  // Words graded "Again" come back at the end of the session.
+  const [queue, setQueue] = useState(() => dueWords(words).map((word) => word.key));
+  const [sessionSize] = useState(queue.length);
+  const [revealed, setRevealed] = useState(false);
+  const [attempt, setAttempt] = useState("");
+  const [checked, setChecked] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Words deleted from the notebook mid-session are skipped
+  const pending = queue.filter((key) => words.some((word) => word.key === key));
+  const current = words.find((word) => word.key === pending[0]);
+  // Words without a usable example sentence fall back to a flashcard
+  const cloze = current && mode === "cloze" ? buildCloze(current) : null;
+
+  const next = async (grade: Grade) => {
+    if (!current) return;
+    setSaving(true);
+    try {
+      await onGrade(current.key, grade);
+      setQueue(grade < 3 ? [...pending.slice(1), current.key] : pending.slice(1));
+      setRevealed(false);
+      setAttempt("");
+      setChecked(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const check = () => {
+    if (!cloze || !attempt.trim()) return;
+    setChecked(checkCloze(cloze, attempt));
+    setRevealed(true);
+  };
+
+  if (!current) {
+    return (
+      <p className="text-sm text-neutral-500 italic">
+        {sessionSize ? "Session complete. Come back when more words are due." : "Nothing to review right now."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex gap-2 bg-neutral-950 p-1 rounded-full border border-neutral-800">
+          {[
+            { id: "flashcards" as const, label: "Flashcards", icon: IconCards },
+            { id: "cloze" as const, label: "Fill the gap", icon: IconForms },
+          ].map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => {
+                setMode(id);
+                setRevealed(false);
+                setChecked(null);
+              }}
+              className={cn(
+                "flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors",
+                mode === id ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+              )}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-neutral-500">{pending.length} left</span>
+      </div>
+
+      <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 space-y-4 min-h-48">
+        {cloze ? (
+          <>
+            <p className="text-xs uppercase tracking-wider text-neutral-500 font-bold">Fill the gap · {current.definition}</p>
+            <p className="text-lg text-neutral-200 leading-relaxed">
+              {cloze.before}
+              <span className={cn("inline-block min-w-24 border-b-2 px-1 text-center", revealed ? "border-amber-500 text-amber-400" : "border-neutral-600")}>
+                {revealed ? cloze.answer : " "}
+              </span>
+              {cloze.after}
+            </p>
+            {!revealed && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  check();
+                }}
+                className="flex gap-2"
+              >
+                <input className={cn(inputClass, "flex-1")} value={attempt} onChange={(e) => setAttempt(e.target.value)} placeholder="Type the missing word" autoFocus />
+                <button type="submit" disabled={!attempt.trim()} className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium disabled:opacity-40">
+                  Check
+                </button>
+              </form>
+            )}
+            {checked !== null && (
+              <p className={cn("flex items-center gap-1 text-sm font-medium", checked ? "text-green-400" : "text-red-400")}>
+                {checked ? <IconCheck size={16} /> : <IconX size={16} />}
+                {checked ? "Correct" : `You wrote "${attempt}"`}
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="text-center space-y-1">
+              <div className="text-2xl font-bold text-amber-400">{current.word}</div>
+              <div className="text-xs text-neutral-500 font-mono">
+                {current.phonetic} • {current.type}
+              </div>
+            </div>
+            {revealed && (
+              <div className="space-y-2 text-sm border-t border-neutral-800 pt-4">
+                <p className="text-neutral-300">{current.definition}</p>
+                {current.examples.map((example) => (
+                  <div key={example} className="pl-2 border-l-2 border-neutral-700 italic text-neutral-400">
+                    &quot;{example}&quot;
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {!revealed ? (
+        <button
+          onClick={() => setRevealed(true)}
+          className="w-full py-2 rounded-lg border border-neutral-800 text-sm text-neutral-300 hover:text-white hover:bg-neutral-800 transition-colors"
+        >
+          {cloze ? "Show answer" : "Show meaning"}
+        </button>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {GRADES.map(({ grade, label }) => (
+            <button
+              key={grade}
+              onClick={() => next(grade)}
+              disabled={saving}
+              className={cn(
+                "py-2 rounded-lg border text-sm font-medium transition-colors disabled:opacity-40",
+                grade < 3
+                  ? "border-red-500/30 text-red-400 hover:bg-red-500/10"
+                  : "border-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-800",
+                // A correct or wrong gap-fill suggests the grade
+                checked !== null && (checked ? grade === 4 : grade === 1) && "ring-1 ring-purple-500"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+// Local accounts for classroom mode: usernames and scrypt password hashes in
+// the "accounts" store, and sessions as random tokens in an HTTP-only cookie.
+// Nothing leaves the server. With STORE=memory (the default) accounts last
+// only as long as the process; use STORE=file to keep them.
+//
+//   TEACHER_SIGNUP_CODE   when set, needed to register as a teacher
+
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { ROLES, type Account, type Role } from "@/lib/classroom";
+import { getStore } from "@/lib/store";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "ielts_session";
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const KEY_LENGTH = 64;
+const USERNAME = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+const MIN_PASSWORD = 8;
+
+interface StoredAccount extends Account {
+  // Both base64.
+  salt: string;
+  passwordHash: string;
+}
+
+// Why a registration or sign-in was refused, with the HTTP status for it.
+export class AccountError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AccountError";
+    this.status = status;
+  }
+}
+
+const accounts = () => getStore("accounts", process.env, { durable: true });
+
+const publicAccount = ({ id, username, name, role, createdAt }: StoredAccount): Account => ({ id, username, name, role, createdAt });
+
+const hashPassword = async (password: string, salt: Buffer) => (await scryptAsync(password, salt, KEY_LENGTH)).toString("base64");
+
+export interface Registration {
+  username: string;
+  name: string;
+  password: string;
+  role: Role;
+  teacherCode?: string;
+}
+
+export async function createAccount({ username, name, password, role, teacherCode }: Registration, env: NodeJS.ProcessEnv = process.env): Promise<Account> {
+  const login = username.trim().toLowerCase();
+  if (!USERNAME.test(login)) throw new AccountError("Usernames are 3 to 32 letters, digits, dots, dashes or underscores.", 400);
+  if (!name.trim()) throw new AccountError("Please enter your name.", 400);
+  if (password.length < MIN_PASSWORD) throw new AccountError(`Passwords need at least ${MIN_PASSWORD} characters.`, 400);
+  if (!ROLES.includes(role)) throw new AccountError(`role must be one of ${ROLES.join(", ")}.`, 400);
+  if (role === "teacher" && env.TEACHER_SIGNUP_CODE && teacherCode !== env.TEACHER_SIGNUP_CODE) {
+    throw new AccountError("The teacher sign-up code is not right.", 403);
+  }
+
+  const store = accounts();
+  const id = randomUUID();
+  // Claimed atomically, so two registrations cannot share a username
+  const owner = await store.update<string>(`username:${login}`, (current) => current ?? id);
+  if (owner !== id) throw new AccountError("That username is taken.", 409);
+
+  const salt = randomBytes(16);
+  const account: StoredAccount = {
+    id,
+    username: login,
+    name: name.trim(),
+    role,
+    createdAt: Date.now(),
+    salt: salt.toString("base64"),
+    passwordHash: await hashPassword(password, salt),
+  };
+  await store.set(`account:${id}`, account);
+  return publicAccount(account);
+}
+
+export async function authenticate(username: string, password: string): Promise<Account> {
+  const store = accounts();
+  const id = await store.get<string>(`username:${username.trim().toLowerCase()}`);
+  const account = id ? await store.get<StoredAccount>(`account:${id}`) : undefined;
+  // A made-up salt keeps unknown usernames as slow to refuse as wrong passwords
+  const hash = Buffer.from(await hashPassword(password, account ? Buffer.from(account.salt, "base64") : randomBytes(16)), "base64");
+  if (!account || !timingSafeEqual(hash, Buffer.from(account.passwordHash, "base64"))) {
+    throw new AccountError("Wrong username or password.", 401);
+  }
+  return publicAccount(account);
+}
+
+export async function getAccount(id: string): Promise<Account | undefined> {
+  const account = await accounts().get<StoredAccount>(`account:${id}`);
+  return account && publicAccount(account);
+}
+
+export async function getAccounts(ids: string[]): Promise<Account[]> {
+  const found = await Promise.all(ids.map(getAccount));
+  return found.filter((account): account is Account => !!account);
+}
+
+/** Starts a session and returns its token, for the session cookie. */
+export async function createSession(account: Account): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await accounts().set(`session:${token}`, account.id, SESSION_TTL_MS);
+  return token;
+}
+
+export async function endSession(token: string): Promise<void> {
+  await accounts().delete(`session:${token}`);
+}
+
+export function sessionToken(req: Request): string | undefined {
+  const cookies = req.headers.get("cookie")?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/** The signed-in account for a request, if its session is still valid. */
+export async function currentAccount(req: Request): Promise<Account | undefined> {
+  const token = sessionToken(req);
+  const id = token && (await accounts().get<string>(`session:${token}`));
+  return id ? getAccount(id) : undefined;
+}
@@ -0,0 +1,50 @@
+// Finished analyses keyed by everything that shapes them, so submitting the
+// same essay again returns the stored result instead of calling the model.
+
+import { createHash } from "crypto";
+import type { AnalyzeInput } from "@/lib/analyze";
+import type { FeedbackData } from "@/lib/feedback";
+import type { LLMProvider } from "@/lib/providers";
+import type { KeyValueStore } from "@/lib/store";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Reads the cache settings from the environment:
+ *
+ *   ANALYSIS_CACHE_TTL_HOURS   how long results are kept (default 168, a week;
+ *                              0 turns the cache off)
+ */
+export function cacheTtlMs(env: NodeJS.ProcessEnv = process.env): number {
+  const hours = Number(env.ANALYSIS_CACHE_TTL_HOURS ?? 168);
+  return Number.isFinite(hours) && hours > 0 ? hours * HOUR : 0;
+}
+
+// The essay is hashed exactly as sent: even a whitespace change can move
+// quotes and anchors, so only identical text may share a result.
+export function analysisCacheKey({ essay, taskMode, question }: AnalyzeInput, promptVersion: string, provider: LLMProvider): string {
+  const content = JSON.stringify([essay, taskMode, question?.text ?? "", question?.visual ?? null, promptVersion, provider.name, provider.model]);
+  return `analysis:${createHash("sha256").update(content).digest("hex")}`;
+}
+
+export interface AnalysisCache {
+  get(key: string): Promise<FeedbackData | undefined>;
+  set(key: string, data: FeedbackData): Promise<void>;
+}
+
+// A failing store only costs the cache, never the analysis itself.
+export function createAnalysisCache(store: KeyValueStore, ttlMs: number): AnalysisCache {
+  return {
+    async get(key) {
+      if (!ttlMs) return undefined;
+      return store.get<FeedbackData>(key).catch((error) => {
+        console.warn("Analysis cache read failed:", error);
+        return undefined;
+      });
+    },
+    async set(key, data) {
+      if (!ttlMs) return;
+      await store.set(key, data, ttlMs).catch((error) => console.warn("Analysis cache write failed:", error));
+    },
+  };
+}
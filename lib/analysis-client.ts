@@ -0,0 +1,158 @@
+import {
+  validateFeedback,
+  validateSection,
+  type AnalyzeErrorBody,
+  type AnalyzeStreamEvent,
+  type FeedbackData,
+  type FeedbackSection,
+} from "@/lib/feedback";
+import type { RewriteResult } from "@/lib/model-answer";
+import type { ExamQuestion } from "@/lib/question";
+import type { TutorFocus, TutorMessage, TutorStreamEvent } from "@/lib/tutor";
+import type { TaskModeId } from "@/lib/tasks";
+
+export interface AnalyzeRequestBody {
+  essay: string;
+  taskMode: TaskModeId;
+  question?: ExamQuestion;
+}
+
+export interface RewriteRequestBody extends AnalyzeRequestBody {
+  targetBand: number;
+}
+
+export interface TutorRequestBody extends AnalyzeRequestBody {
+  feedback: FeedbackData;
+  focus?: TutorFocus;
+  messages: Pick<TutorMessage, "role" | "content">[];
+}
+
+export class AnalysisError extends Error {
+  fields?: string[];
+  // Only the offline checks could be run; their sections have been delivered.
+  degraded: boolean;
+  // HTTP status of a rejected request; a 4xx means the input itself was refused.
+  status?: number;
+  // Seconds to wait before trying again, after a 429.
+  retryAfter?: number;
+
+  constructor(body: AnalyzeErrorBody, status?: number) {
+    super(body.error);
+    this.name = "AnalysisError";
+    this.fields = body.fields;
+    this.degraded = !!body.degraded;
+    this.status = status;
+    this.retryAfter = body.retryAfter;
+  }
+}
+
+interface RequestAnalysisOptions {
+  signal?: AbortSignal;
+  onSection?: (section: FeedbackSection) => void;
+}
+
+// The events of an NDJSON response body, one per line.
+async function* readEvents<T>(stream: NonNullable<Response["body"]>): AsyncGenerator<T> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+}
+
+// An error response as an AnalysisError, with Retry-After folded into the body.
+async function errorFrom(response: Response, fallback: string): Promise<{ error: AnalysisError; body: AnalyzeErrorBody | null }> {
+  const body: AnalyzeErrorBody | null = await response.json().catch(() => null);
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  if (body && body.retryAfter === undefined && retryAfter > 0) body.retryAfter = retryAfter;
+  return { error: new AnalysisError(body ?? { error: fallback }, response.status), body };
+}
+
+/**
+ * Calls /api/analyze in streaming mode. Sections are handed to `onSection`
+ * as they arrive; the promise resolves with the complete, validated result
+ * or rejects with an AnalysisError (or an AbortError when `signal` fires).
+ * When the model is unavailable, the offline results are delivered as
+ * sections before the AnalysisError.
+ */
+export async function requestAnalysis(
+  body: AnalyzeRequestBody,
+  { signal, onSection }: RequestAnalysisOptions = {},
+): Promise<FeedbackData> {
+  const response = await fetch("/api/analyze", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const { error, body: errorBody } = await errorFrom(response, "Failed to analyze essay");
+    Object.entries(errorBody?.partial ?? {}).forEach(([key, value]) => {
+      const section = validateSection([key], value);
+      if (section) onSection?.(section);
+    });
+    throw error;
+  }
+
+  for await (const event of readEvents<AnalyzeStreamEvent>(response.body)) {
+    if (event.type === "section") {
+      onSection?.(event.section);
+    } else if (event.type === "done") {
+      return validateFeedback(event.data, body.essay).data;
+    } else {
+      throw new AnalysisError(event);
+    }
+  }
+
+  throw new AnalysisError({ error: "The analysis stream ended before it was complete" });
+}
+
+/** Calls /api/rewrite for a model answer at the target band. */
+export async function requestRewrite(body: RewriteRequestBody, signal?: AbortSignal): Promise<RewriteResult> {
+  const response = await fetch("/api/rewrite", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw (await errorFrom(response, "Failed to write a model answer")).error;
+  return response.json();
+}
+
+interface RequestTutorReplyOptions {
+  signal?: AbortSignal;
+  // Called with the raw reply so far as it streams in; see `visibleTutorText`.
+  onText?: (text: string) => void;
+}
+
+/** Asks /api/tutor the last question in `messages` and resolves with the tutor's reply. */
+export async function requestTutorReply(body: TutorRequestBody, { signal, onText }: RequestTutorReplyOptions = {}): Promise<TutorMessage> {
+  const response = await fetch("/api/tutor", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok || !response.body) throw (await errorFrom(response, "The tutor could not answer")).error;
+
+  let text = "";
+  for await (const event of readEvents<TutorStreamEvent>(response.body)) {
+    if (event.type === "delta") {
+      text += event.text;
+      onText?.(text);
+    } else if (event.type === "done") {
+      return event.message;
+    } else {
+      throw new AnalysisError(event);
+    }
+  }
+  throw new AnalysisError({ error: "The tutor's reply ended before it was complete" });
+}
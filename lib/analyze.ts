@@ -0,0 +1,169 @@
+import { overallBand } from "@/lib/bands";
+import {
+  CRITERIA,
+  hasSection,
+  mergeSection,
+  validateFeedback,
+  validateSection,
+  type Correction,
+  type FeedbackData,
+  type FeedbackSection,
+  type PartialFeedback,
+  type SchemaIssue,
+} from "@/lib/feedback";
+import { checkEssay, mergeCorrections } from "@/lib/checker";
+import { createSectionParser } from "@/lib/json-sections";
+import { detectInjection, INJECTION_LABELS, type InjectionFlag } from "@/lib/injection";
+import { fenceText } from "@/lib/input-safety";
+import { descriptorsFor, loadPrompts, type PromptSet, type Rubric } from "@/lib/prompts";
+import { formatVisual, type ExamQuestion } from "@/lib/question";
+import { criterionNames, describeTaskMode, getTaskMode, type TaskModeId } from "@/lib/tasks";
+import { renderTemplate } from "@/lib/template";
+import { describeMetrics, measureText } from "@/lib/text-metrics";
+import { checkWordCount, type WordCount } from "@/lib/word-count";
+import type { ChatMessage, LLMProvider, TokenUsage } from "@/lib/providers";
+import { createUsageMeter, type AnalysisUsage } from "@/lib/usage";
+
+// Total attempts per request: the first call plus corrective retries.
+const MAX_ATTEMPTS = 3;
+
+export interface AnalyzeInput {
+  essay: string;
+  taskMode: TaskModeId;
+  question?: ExamQuestion;
+}
+
+export type AnalyzeOutcome =
+  | { ok: true; data: FeedbackData; attempts: number; usage: AnalysisUsage }
+  | { ok: false; issues: SchemaIssue[]; attempts: number; usage: AnalysisUsage };
+
+// The variables available to the analysis template.
+function promptVariables({ essay, taskMode, question }: AnalyzeInput, rubric: Rubric) {
+  const mode = getTaskMode(taskMode);
+  const names = criterionNames(mode);
+
+  return {
+    task: describeTaskMode(mode),
+    instructions: mode.instructions,
+    question: question && {
+      text: fenceText(question.text),
+      visual: question.visual ? fenceText(formatVisual(question.visual)) : "",
+    },
+    essay: fenceText(essay),
+    // Described, not quoted, so no candidate text reaches the instructions
+    injection_flags: [...new Set(detectInjection(essay, question).map((flag) => `${INJECTION_LABELS[flag.kind]} (in the ${flag.source})`))],
+    // Examiners penalise under-length responses under Task Achievement/Response,
+    // so the model is told the count rather than left to estimate it.
+    word_count: checkWordCount(essay, mode.minWords),
+    names: Object.fromEntries(CRITERIA.map((key) => [key, names[key].label])),
+    metrics: describeMetrics(measureText(essay)),
+    checks: mode.checks,
+    criteria: CRITERIA.map((key) => ({
+      label: names[key].label,
+      descriptors: descriptorsFor(rubric.criteria.find((criterion) => criterion.key === key)!, mode.task),
+    })),
+    counts: rubric.counts,
+    output_format: JSON.stringify(rubric.output_format, null, 2),
+  };
+}
+
+// Prompt versions with a submission template keep the candidate's text out
+// of the instructions: the instructions go in a system message and the
+// delimited question and essay in the user message after it.
+export function buildMessages(input: AnalyzeInput, prompts: PromptSet = loadPrompts()): ChatMessage[] {
+  const variables = promptVariables(input, prompts.rubric);
+  const instructions = renderTemplate(prompts.analysis, variables);
+  if (!prompts.submission) return [{ role: "user", content: instructions }];
+  return [
+    { role: "system", content: instructions },
+    { role: "user", content: renderTemplate(prompts.submission, variables) },
+  ];
+}
+
+const correctivePrompt = (issues: SchemaIssue[], prompts: PromptSet) => renderTemplate(prompts.corrective, { issues });
+
+// What can be worked out without a model: the word count, injection flags
+// and the offline checker's corrections. Also the whole result when no model
+// is available.
+export function localAnalysis({ essay, taskMode, question }: AnalyzeInput): {
+  word_count: WordCount;
+  injection_flags: InjectionFlag[];
+  corrections: Correction[];
+} {
+  return {
+    word_count: checkWordCount(essay, getTaskMode(taskMode).minWords),
+    injection_flags: detectInjection(essay, question),
+    corrections: checkEssay(essay, taskMode),
+  };
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  // Called once per section, in arrival order, as soon as it validates.
+  onSection?: (section: FeedbackSection) => void;
+  // Defaults to the version chosen by PROMPT_VERSION (see lib/prompts.ts).
+  prompts?: PromptSet;
+}
+
+/**
+ * Runs one essay through the provider, validating each reply against the
+ * feedback schema and asking the model to correct itself when it is malformed.
+ * Sections are reported as they stream in; a section that validated on an
+ * earlier attempt is kept, and retries only fill in what is still missing.
+ */
+export async function analyzeEssay(
+  input: AnalyzeInput,
+  provider: LLMProvider,
+  { signal, onSection, prompts = loadPrompts() }: AnalyzeOptions = {},
+): Promise<AnalyzeOutcome> {
+  const messages = buildMessages(input, prompts);
+  const meter = createUsageMeter(provider);
+  let received: PartialFeedback = {};
+  let issues: SchemaIssue[] = [];
+  const accept = (section: FeedbackSection) => {
+    received = mergeSection(received, section);
+    onSection?.(section);
+  };
+
+  const local = localAnalysis(input);
+  accept({ key: "word_count", value: local.word_count });
+  if (local.injection_flags.length) accept({ key: "injection_flags", value: local.injection_flags });
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let content = "";
+    const parser = createSectionParser((path, value) => {
+      const section = validateSection(path, value, input.essay);
+      if (!section || hasSection(received, section)) return;
+      // The model's corrections take precedence where both flag the same text
+      accept(section.key === "corrections" ? { ...section, value: mergeCorrections(section.value, local.corrections) } : section);
+
+      // The overall band is ours to compute, as soon as every criterion is scored.
+      const bands = CRITERIA.map((key) => received.feedback?.[key]?.band);
+      if (received.band_score === undefined && bands.every((band) => band !== undefined)) {
+        accept({ key: "band_score", value: overallBand(bands as number[]) });
+      }
+    });
+
+    let reported: TokenUsage | undefined;
+    const onUsage = (usage: TokenUsage) => (reported = usage);
+    for await (const delta of provider.stream({ messages, json: true, subject: { purpose: "analysis", essay: input.essay, taskMode: input.taskMode }, signal, onUsage })) {
+      content += delta;
+      parser.push(delta);
+    }
+    meter.add(messages.map((message) => message.content).join("\n"), content, reported);
+
+    const validation = validateFeedback(received, input.essay);
+    if (validation.issues.length === 0) {
+      // Merged again in case the model sent no corrections at all
+      const corrections = mergeCorrections(validation.data.corrections, local.corrections);
+      const usage = meter.usage(attempt);
+      return { ok: true, data: { ...validation.data, corrections, prompt_version: prompts.version, usage }, attempts: attempt, usage };
+    }
+    issues = validation.issues;
+
+    console.warn(`Analysis attempt ${attempt} (${provider.name}/${provider.model}) returned malformed feedback:`, issues);
+    messages.push({ role: "assistant", content }, { role: "user", content: correctivePrompt(issues, prompts) });
+  }
+
+  return { ok: false, issues, attempts: MAX_ATTEMPTS, usage: meter.usage(MAX_ATTEMPTS) };
+}
@@ -0,0 +1,155 @@
+// Character-offset anchors for feedback that points at the essay
+// (corrections, suggestions, tips and vocabulary targets).
+//
+// The server locates each quoted span in the analysed essay and records its
+// offsets plus a little surrounding context. As the essay is edited the
+// client shifts anchors past each edit; an anchor whose own text was edited
+// is found again through its context, or reported as stale rather than being
+// applied somewhere else.
+
+import type { PartialFeedback } from "@/lib/feedback";
+
+// Characters of context kept on each side of an anchor.
+const CONTEXT = 24;
+
+export interface TextAnchor {
+  // Offsets into the essay, in UTF-16 code units as used by String#slice.
+  start: number;
+  end: number;
+  before: string;
+  after: string;
+}
+
+// Replacement of `start`..`end` in the old text with `text`.
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type AnchorState =
+  | { status: "ok"; start: number; end: number }
+  // The suggested replacement is already in place.
+  | { status: "applied"; start: number; end: number }
+  // The text was changed some other way, or cannot be pinned down.
+  | { status: "stale" };
+
+export function anchorAt(essay: string, start: number, end: number): TextAnchor {
+  return { start, end, before: essay.slice(Math.max(0, start - CONTEXT), start), after: essay.slice(end, end + CONTEXT) };
+}
+
+function occurrences(text: string, search: string): number[] {
+  const found: number[] = [];
+  if (!search) return found;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + search.length)) {
+    found.push(index);
+  }
+  return found;
+}
+
+/**
+ * Anchors quoted spans in one list of feedback items. When the same text is
+ * quoted more than once (the model flagging "it's" twice, say) each quote
+ * takes the next occurrence in the essay, in order. Returns null when the
+ * text is not in the essay at all.
+ */
+export function createAnchorLocator(essay: string) {
+  const used = new Map<string, number>();
+  return (text: string): TextAnchor | null => {
+    const found = occurrences(essay, text);
+    if (found.length === 0) return null;
+    const nth = used.get(text) ?? 0;
+    used.set(text, nth + 1);
+    const start = found[Math.min(nth, found.length - 1)];
+    return anchorAt(essay, start, start + text.length);
+  };
+}
+
+export function parseAnchor(raw: unknown): TextAnchor | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const { start, end, before, after } = raw as Record<string, unknown>;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || (start as number) < 0 || (end as number) < (start as number)) return undefined;
+  return {
+    start: start as number,
+    end: end as number,
+    before: typeof before === "string" ? before : "",
+    after: typeof after === "string" ? after : "",
+  };
+}
+
+// The single edit that turns `before` into `after`: everything between their
+// common prefix and common suffix.
+export function diffEdit(before: string, after: string): TextEdit {
+  let prefix = 0;
+  const max = Math.min(before.length, after.length);
+  while (prefix < max && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < max - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  return { start: prefix, end: before.length - suffix, text: after.slice(prefix, after.length - suffix) };
+}
+
+// Moves an anchor past an edit made before it. Edits after it leave it alone,
+// and so do edits that overlap it: `resolveAnchor` then falls back to context.
+export function shiftAnchor(anchor: TextAnchor, edit: TextEdit): TextAnchor {
+  if (edit.end > anchor.start) return anchor;
+  const delta = edit.text.length - (edit.end - edit.start);
+  return { ...anchor, start: anchor.start + delta, end: anchor.end + delta };
+}
+
+const uniqueIndex = (essay: string, search: string) => {
+  const found = occurrences(essay, search);
+  return found.length === 1 ? found[0] : -1;
+};
+
+// Finds `text` (or `replacement`) framed by the anchor's context, trying both
+// sides, then each side alone. Only unique matches count.
+function findByContext(essay: string, anchor: TextAnchor, text: string): number {
+  for (const [before, after] of [[anchor.before, anchor.after], [anchor.before, ""], ["", anchor.after]]) {
+    if (!before && !after) continue;
+    const index = uniqueIndex(essay, before + text + after);
+    if (index !== -1) return index + before.length;
+  }
+  return -1;
+}
+
+/**
+ * Where an item's quoted `text` is in the current essay. Items saved before
+ * anchors existed have none, and resolve only when their text is unique.
+ */
+export function resolveAnchor(essay: string, text: string, anchor?: TextAnchor, replacement?: string | null): AnchorState {
+  if (!anchor) {
+    const index = uniqueIndex(essay, text);
+    return index === -1 ? { status: "stale" } : { status: "ok", start: index, end: index + text.length };
+  }
+  if (essay.slice(anchor.start, anchor.end) === text) return { status: "ok", start: anchor.start, end: anchor.end };
+
+  const moved = findByContext(essay, anchor, text);
+  if (moved !== -1) return { status: "ok", start: moved, end: moved + text.length };
+
+  if (replacement) {
+    if (essay.slice(anchor.start, anchor.start + replacement.length) === replacement) {
+      return { status: "applied", start: anchor.start, end: anchor.start + replacement.length };
+    }
+    const applied = findByContext(essay, anchor, replacement);
+    if (applied !== -1) return { status: "applied", start: applied, end: applied + replacement.length };
+  }
+  return { status: "stale" };
+}
+
+const shiftItems = <T extends { anchor?: TextAnchor }>(items: T[], edit: TextEdit) =>
+  items.map((item) => (item.anchor ? { ...item, anchor: shiftAnchor(item.anchor, edit) } : item));
+
+// Applies `shiftAnchor` to every anchor in an analysis.
+export function shiftFeedbackAnchors(feedback: PartialFeedback, edit: TextEdit): PartialFeedback {
+  if (edit.start === edit.end && !edit.text) return feedback;
+  const shifted: PartialFeedback = { ...feedback };
+  if (feedback.corrections) shifted.corrections = shiftItems(feedback.corrections, edit);
+  if (feedback.prioritized_suggestions) shifted.prioritized_suggestions = shiftItems(feedback.prioritized_suggestions, edit);
+  if (feedback.enrichment) shifted.enrichment = shiftItems(feedback.enrichment, edit);
+  if (feedback.feedback) {
+    shifted.feedback = Object.fromEntries(
+      Object.entries(feedback.feedback).map(([key, detail]) => [key, detail && { ...detail, tips: shiftItems(detail.tips, edit) }]),
+    );
+  }
+  return shifted;
+}
@@ -0,0 +1,40 @@
+// What the API routes share: 429 responses for the rate limits, bounded
+// JSON bodies, and the usage recorded for calls the provider never metered.
+
+import { NextResponse } from "next/server";
+import type { AnalyzeErrorBody } from "@/lib/feedback";
+import { INPUT_LIMITS, readBodyText } from "@/lib/input-safety";
+import type { LLMProvider } from "@/lib/providers";
+import type { LimitResult } from "@/lib/rate-limit";
+import type { AnalysisUsage } from "@/lib/usage";
+
+export const limitedResponse = ({ message, retryAfter }: Extract<LimitResult, { ok: false }>) =>
+  NextResponse.json<AnalyzeErrorBody>({ error: message, retryAfter }, { status: 429, headers: { "Retry-After": String(retryAfter) } });
+
+export type JsonBody = { ok: true; body: unknown } | { ok: false; status: 400 | 413; error: string };
+
+/** Reads and decodes a JSON body of up to `maxBytes`: 413 when it is larger, 400 when it is not JSON. */
+export async function readJsonBody(req: Request, maxBytes = INPUT_LIMITS.bodyBytes): Promise<JsonBody> {
+  const text = await readBodyText(req, maxBytes);
+  if (text === null) return { ok: false, status: 413, error: `The request is larger than ${maxBytes / 1024} KB.` };
+  try {
+    return { ok: true, body: JSON.parse(text) };
+  } catch {
+    return { ok: false, status: 400, error: "The request body is not valid JSON." };
+  }
+}
+
+export const bodyErrorResponse = ({ status, error }: Extract<JsonBody, { ok: false }>) =>
+  NextResponse.json<AnalyzeErrorBody>({ error }, { status });
+
+// Usage for a call with no token counts, such as one that failed: recorded as zero.
+export const unmeteredUsage = (provider: LLMProvider, started: number): AnalysisUsage => ({
+  provider: provider.name,
+  model: provider.model,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  latency_ms: Date.now() - started,
+  cost_usd: 0,
+  attempts: 1,
+  cache: "miss",
+});
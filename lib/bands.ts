@@ -0,0 +1,27 @@
+// IELTS band arithmetic.
+//
+// Each Writing criterion is scored in whole bands from 0 to 9. The overall
+// score is the mean of the criterion bands rounded to the nearest half band,
+// with quarter values rounded up: a mean of 6.25 becomes 6.5 and a mean of
+// 6.75 becomes 7.
+
+export const MIN_BAND = 0;
+export const MAX_BAND = 9;
+
+export function roundToHalfBand(mean: number): number {
+  // Work in quarter bands to avoid floating-point drift around .25 and .75.
+  const quarters = Math.round(mean * 4);
+  return Math.floor((quarters + 1) / 2) / 2;
+}
+
+export function overallBand(criterionBands: number[]): number {
+  if (criterionBands.length === 0) return 0;
+  const mean = criterionBands.reduce((sum, band) => sum + band, 0) / criterionBands.length;
+  return roundToHalfBand(mean);
+}
+
+// Normalises a model-supplied criterion band: whole bands only, within range.
+export function toCriterionBand(value: number): number | undefined {
+  if (!Number.isFinite(value) || value < MIN_BAND || value > MAX_BAND) return undefined;
+  return Math.round(value);
+}
@@ -0,0 +1,113 @@
+// Collects every replacement the analysis offers (corrections, action-plan
+// suggestions, vocabulary swaps and criterion tips) so they can be reviewed
+// and applied together.
+
+import { resolveAnchor, type TextAnchor, type TextEdit } from "@/lib/anchors";
+import { CRITERIA, type CriterionKey, type PartialFeedback, type PrioritizedSuggestion } from "@/lib/feedback";
+
+export type FixSource = "correction" | "suggestion" | "enrichment" | "tip";
+
+export interface PendingFix {
+  id: string;
+  source: FixSource;
+  // e.g. the correction type, suggestion category or enriched word.
+  label: string;
+  explanation: string;
+  priority?: PrioritizedSuggestion["priority"];
+  criterion?: CriterionKey;
+  original: string;
+  replacement: string;
+  // Where `original` is in the current essay.
+  start: number;
+  end: number;
+}
+
+export interface AppliedFixes {
+  essay: string;
+  // In the order they were applied (last in the essay first), so each is
+  // relative to the text the previous ones produced.
+  edits: TextEdit[];
+}
+
+/**
+ * Every replacement whose text is still where the analysis found it.
+ * Fixes already applied, edited away, or without a replacement are left out.
+ */
+export function collectPendingFixes(result: PartialFeedback, essay: string): PendingFix[] {
+  const fixes: PendingFix[] = [];
+  const add = (fix: Omit<PendingFix, "start" | "end">, anchor: TextAnchor | undefined) => {
+    const target = resolveAnchor(essay, fix.original, anchor, fix.replacement);
+    if (target.status === "ok" && fix.original !== fix.replacement) fixes.push({ ...fix, start: target.start, end: target.end });
+  };
+
+  result.corrections?.forEach((c, i) =>
+    add({ id: `correction-${i}`, source: "correction", label: c.type, explanation: c.explanation, original: c.original, replacement: c.replacement }, c.anchor),
+  );
+  result.prioritized_suggestions?.forEach((s, i) => {
+    if (s.apply_to_text && s.replacement_text) {
+      add(
+        { id: `suggestion-${i}`, source: "suggestion", label: s.category, explanation: s.issue, priority: s.priority, original: s.apply_to_text, replacement: s.replacement_text },
+        s.anchor,
+      );
+    }
+  });
+  result.enrichment?.forEach((e, i) => {
+    if (e.target_text && e.replacement_text) {
+      add({ id: `enrichment-${i}`, source: "enrichment", label: e.word, explanation: e.definition, original: e.target_text, replacement: e.replacement_text }, e.anchor);
+    }
+  });
+  CRITERIA.forEach((criterion) =>
+    result.feedback?.[criterion]?.tips.forEach((t, i) => {
+      if (t.apply_to_text && t.replacement_text) {
+        add({ id: `tip-${criterion}-${i}`, source: "tip", label: t.tip, explanation: t.tip, criterion, original: t.apply_to_text, replacement: t.replacement_text }, t.anchor);
+      }
+    }),
+  );
+
+  return fixes.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// The same change proposed twice (say by a correction and a tip) is not a conflict.
+const sameChange = (a: PendingFix, b: PendingFix) => a.start === b.start && a.end === b.end && a.replacement === b.replacement;
+
+// Quoted text is never empty, so every fix covers at least one character.
+const overlaps = (a: PendingFix, b: PendingFix) => a.start < b.end && b.start < a.end;
+
+// For each fix, the ids of the other fixes that edit the same text differently.
+export function findConflicts(fixes: PendingFix[]): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  fixes.forEach((a, i) =>
+    fixes.slice(i + 1).forEach((b) => {
+      if (!overlaps(a, b) || sameChange(a, b)) return;
+      conflicts.set(a.id, [...(conflicts.get(a.id) ?? []), b.id]);
+      conflicts.set(b.id, [...(conflicts.get(b.id) ?? []), a.id]);
+    }),
+  );
+  return conflicts;
+}
+
+// Selects as many fixes as possible, earliest first, skipping any that conflict with one already chosen.
+export function defaultSelection(fixes: PendingFix[], conflicts: Map<string, string[]>): Set<string> {
+  const selected = new Set<string>();
+  fixes.forEach((fix) => {
+    if (!(conflicts.get(fix.id) ?? []).some((id) => selected.has(id))) selected.add(fix.id);
+  });
+  return selected;
+}
+
+// Applies non-conflicting fixes from the end of the essay backwards so
+// earlier offsets stay valid. Duplicates of the same change are applied once.
+export function applyFixes(essay: string, fixes: PendingFix[]): AppliedFixes {
+  const ordered = [...fixes].sort((a, b) => b.start - a.start || b.end - a.end);
+  const edits: TextEdit[] = [];
+  let text = essay;
+  let previous: PendingFix | undefined;
+  for (const fix of ordered) {
+    if (previous && sameChange(previous, fix)) continue;
+    if (previous && overlaps(previous, fix)) throw new Error(`Fixes ${previous.id} and ${fix.id} overlap`);
+    text = text.slice(0, fix.start) + fix.replacement + text.slice(fix.end);
+    edits.push({ start: fix.start, end: fix.end, text: fix.replacement });
+    previous = fix;
+  }
+  return { essay: text, edits };
+}
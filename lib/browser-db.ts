@@ -0,0 +1,44 @@
+// The browser's IndexedDB database, shared by the essay library and the
+// vocabulary notebook. Every function here must only be called in the browser.
+
+const DB_NAME = "ielts-writing-helper";
+// 1: essays. 2: vocabulary.
+const DB_VERSION = 2;
+
+export type StoreName = "essays" | "vocabulary";
+
+const STORES: { name: StoreName; keyPath: string }[] = [
+  { name: "essays", keyPath: "id" },
+  { name: "vocabulary", keyPath: "key" },
+];
+
+let connection: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  connection ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Creates whatever stores the stored version predates.
+    request.onupgradeneeded = () => {
+      for (const { name, keyPath } of STORES) {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      connection = null;
+      reject(request.error);
+    };
+  });
+  return connection;
+}
+
+export const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function objectStore(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
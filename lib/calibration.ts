@@ -0,0 +1,262 @@
+// Scoring calibration: runs a corpus of essays with known examiner bands
+// through the analysis pipeline and measures how far, and how consistently,
+// the predicted bands land from the examiner's. Used by scripts/calibrate.ts.
+//
+// A corpus is a directory of JSON files, one essay each (the file name is its
+// id), alongside an optional baseline.json written by an earlier run:
+//
+//   { "taskMode": "task2", "question": "...", "essay": "...",
+//     "bands": { "overall": 6.5, "lexical_resource": 7, ... } }
+//
+// `bands.overall` is required; criterion bands are optional and only the
+// criteria given are measured.
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { analyzeEssay, type AnalyzeInput } from "@/lib/analyze";
+import { MAX_BAND, MIN_BAND } from "@/lib/bands";
+import { CRITERIA, type CriterionKey } from "@/lib/feedback";
+import { parseAnalyzeRequest } from "@/lib/input-safety";
+import type { PromptSet } from "@/lib/prompts";
+import type { LLMProvider } from "@/lib/providers";
+
+export const BASELINE_FILE = "baseline.json";
+
+// How much worse than the baseline a metric may get before it counts as a
+// regression: bands for errors, bias and spread, a share for agreement.
+export const REGRESSION_TOLERANCE = { bands: 0.1, agreement: 0.05 };
+
+export class CalibrationError extends Error {}
+
+export interface ExaminerBands {
+  overall: number;
+  criteria: Partial<Record<CriterionKey, number>>;
+}
+
+export interface CalibrationEssay extends AnalyzeInput {
+  id: string;
+  examiner: ExaminerBands;
+}
+
+// One analysis of one essay; null bands mean the run failed.
+export interface CalibrationRun {
+  overall: number | null;
+  criteria: Partial<Record<CriterionKey, number>>;
+  outcome: "ok" | "malformed" | "error";
+}
+
+export interface EssayResult {
+  essay: CalibrationEssay;
+  runs: CalibrationRun[];
+}
+
+export interface ErrorMetrics {
+  // Scored runs compared; failed runs are left out.
+  n: number;
+  meanAbsoluteError: number;
+  // Mean of predicted minus examiner: positive means the model marks too high.
+  bias: number;
+}
+
+export interface CalibrationMetrics {
+  essays: number;
+  runs: number;
+  failedRuns: number;
+  overall: ErrorMetrics & {
+    // Shares of scored runs that match the examiner exactly, and to within half a band.
+    exactAgreement: number;
+    withinHalfBand: number;
+  };
+  criteria: Partial<Record<CriterionKey, ErrorMetrics>>;
+  // Spread of the overall band across repeated runs of the same essay.
+  stability: {
+    meanVariance: number;
+    meanStdDev: number;
+    maxStdDev: number;
+    // The essay with the largest spread, if any varied.
+    leastStable?: string;
+  };
+}
+
+export interface CalibrationBaseline {
+  createdAt: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  runsPerEssay: number;
+  essayIds: string[];
+  metrics: CalibrationMetrics;
+}
+
+export interface MetricComparison {
+  metric: string;
+  baseline: number;
+  current: number;
+  regressed: boolean;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isBand = (value: unknown, step: number): value is number =>
+  typeof value === "number" && value >= MIN_BAND && value <= MAX_BAND && Number.isInteger(value / step);
+
+function parseEssay(id: string, raw: unknown): CalibrationEssay {
+  const parsed = parseAnalyzeRequest(raw);
+  if (!parsed.ok) throw new CalibrationError(`${id}: ${parsed.error}`);
+  const bands = isObject(raw) && isObject(raw.bands) ? raw.bands : undefined;
+  if (!bands || !isBand(bands.overall, 0.5)) throw new CalibrationError(`${id}: bands.overall must be a band from ${MIN_BAND} to ${MAX_BAND} in half bands.`);
+
+  const criteria: ExaminerBands["criteria"] = {};
+  for (const [key, band] of Object.entries(bands)) {
+    if (key === "overall") continue;
+    if (!CRITERIA.includes(key as CriterionKey)) throw new CalibrationError(`${id}: unknown criterion "${key}" in bands.`);
+    if (!isBand(band, 1)) throw new CalibrationError(`${id}: bands.${key} must be a whole band from ${MIN_BAND} to ${MAX_BAND}.`);
+    criteria[key as CriterionKey] = band;
+  }
+  return { id, ...parsed.input, examiner: { overall: bands.overall, criteria } };
+}
+
+/** Reads every essay in a corpus directory, in file-name order. */
+export function loadCorpus(dir: string): CalibrationEssay[] {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => file.endsWith(".json") && file !== BASELINE_FILE).sort();
+  } catch (error) {
+    throw new CalibrationError(`The corpus ${dir} could not be read: ${(error as Error).message}`);
+  }
+  if (files.length === 0) throw new CalibrationError(`The corpus ${dir} has no essays.`);
+
+  return files.map((file) => {
+    const id = path.basename(file, ".json");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path.join(dir, file), "utf8"));
+    } catch (error) {
+      throw new CalibrationError(`${id}: ${(error as Error).message}`);
+    }
+    return parseEssay(id, raw);
+  });
+}
+
+export interface CalibrationOptions {
+  runs: number;
+  prompts: PromptSet;
+  // Called after each run, e.g. to show progress.
+  onRun?: (essay: CalibrationEssay, run: CalibrationRun, index: number) => void;
+}
+
+/** Analyses each essay `runs` times, one call at a time. */
+export async function runCalibration(corpus: CalibrationEssay[], provider: LLMProvider, { runs, prompts, onRun }: CalibrationOptions): Promise<EssayResult[]> {
+  const results: EssayResult[] = [];
+  for (const essay of corpus) {
+    const result: EssayResult = { essay, runs: [] };
+    for (let index = 0; index < runs; index++) {
+      let run: CalibrationRun;
+      try {
+        const outcome = await analyzeEssay(essay, provider, { prompts });
+        run = outcome.ok
+          ? {
+              overall: outcome.data.band_score,
+              criteria: Object.fromEntries(CRITERIA.map((key) => [key, outcome.data.feedback[key].band])),
+              outcome: "ok",
+            }
+          : { overall: null, criteria: {}, outcome: "malformed" };
+      } catch (error) {
+        console.error(`${essay.id}: ${(error as Error).message}`);
+        run = { overall: null, criteria: {}, outcome: "error" };
+      }
+      result.runs.push(run);
+      onRun?.(essay, run, index);
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+// Population variance: the runs are all there is of this essay.
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+};
+
+function errorMetrics(pairs: { predicted: number; examiner: number }[]): ErrorMetrics {
+  return {
+    n: pairs.length,
+    meanAbsoluteError: mean(pairs.map(({ predicted, examiner }) => Math.abs(predicted - examiner))),
+    bias: mean(pairs.map(({ predicted, examiner }) => predicted - examiner)),
+  };
+}
+
+export function summariseCalibration(results: EssayResult[]): CalibrationMetrics {
+  const overallPairs = results.flatMap(({ essay, runs }) =>
+    runs.flatMap((run) => (run.overall === null ? [] : [{ predicted: run.overall, examiner: essay.examiner.overall }])),
+  );
+  const share = (test: (difference: number) => boolean) =>
+    overallPairs.length ? overallPairs.filter(({ predicted, examiner }) => test(Math.abs(predicted - examiner))).length / overallPairs.length : 0;
+
+  const criteria: CalibrationMetrics["criteria"] = {};
+  for (const key of CRITERIA) {
+    const pairs = results.flatMap(({ essay, runs }) => {
+      const examiner = essay.examiner.criteria[key];
+      return examiner === undefined ? [] : runs.flatMap((run) => (run.criteria[key] === undefined ? [] : [{ predicted: run.criteria[key], examiner }]));
+    });
+    if (pairs.length) criteria[key] = errorMetrics(pairs);
+  }
+
+  const spreads = results.flatMap(({ essay, runs }) => {
+    const scored = runs.flatMap((run) => (run.overall === null ? [] : [run.overall]));
+    return scored.length > 1 ? [{ id: essay.id, variance: variance(scored) }] : [];
+  });
+  const widest = spreads.reduce<(typeof spreads)[number] | undefined>((max, spread) => (spread.variance > (max?.variance ?? 0) ? spread : max), undefined);
+
+  return {
+    essays: results.length,
+    runs: results.reduce((sum, { runs }) => sum + runs.length, 0),
+    failedRuns: results.reduce((sum, { runs }) => sum + runs.filter((run) => run.overall === null).length, 0),
+    overall: {
+      ...errorMetrics(overallPairs),
+      exactAgreement: share((difference) => difference === 0),
+      withinHalfBand: share((difference) => difference <= 0.5),
+    },
+    criteria,
+    stability: {
+      meanVariance: mean(spreads.map((spread) => spread.variance)),
+      meanStdDev: mean(spreads.map((spread) => Math.sqrt(spread.variance))),
+      maxStdDev: Math.sqrt(widest?.variance ?? 0),
+      leastStable: widest?.id,
+    },
+  };
+}
+
+/**
+ * Compares a run with the baseline, metric by metric. Errors, the size of a
+ * bias and the spread between runs regress when they grow; agreement when it
+ * falls. Failed runs regress whenever there are more of them.
+ */
+export function compareToBaseline(current: CalibrationMetrics, baseline: CalibrationMetrics): MetricComparison[] {
+  const { bands, agreement } = REGRESSION_TOLERANCE;
+  const rows: MetricComparison[] = [];
+  const higherIsWorse = (metric: string, before: number, after: number, tolerance = bands) =>
+    rows.push({ metric, baseline: before, current: after, regressed: after - before > tolerance + 1e-9 });
+  const lowerIsWorse = (metric: string, before: number, after: number) =>
+    rows.push({ metric, baseline: before, current: after, regressed: before - after > agreement + 1e-9 });
+
+  higherIsWorse("failed runs", baseline.failedRuns, current.failedRuns, 0);
+  higherIsWorse("overall MAE", baseline.overall.meanAbsoluteError, current.overall.meanAbsoluteError);
+  lowerIsWorse("exact agreement", baseline.overall.exactAgreement, current.overall.exactAgreement);
+  lowerIsWorse("within half a band", baseline.overall.withinHalfBand, current.overall.withinHalfBand);
+  higherIsWorse("overall |bias|", Math.abs(baseline.overall.bias), Math.abs(current.overall.bias));
+  for (const key of CRITERIA) {
+    const before = baseline.criteria[key];
+    const after = current.criteria[key];
+    if (!before || !after) continue;
+    higherIsWorse(`${key} MAE`, before.meanAbsoluteError, after.meanAbsoluteError);
+    higherIsWorse(`${key} |bias|`, Math.abs(before.bias), Math.abs(after.bias));
+  }
+  higherIsWorse("run-to-run std dev", baseline.stability.meanStdDev, current.stability.meanStdDev);
+  return rows;
+}
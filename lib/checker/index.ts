@@ -0,0 +1,55 @@
+import { anchorAt, type TextAnchor } from "@/lib/anchors";
+import type { Correction } from "@/lib/feedback";
+import { getTaskMode, type TaskModeId } from "@/lib/tasks";
+import { RULES } from "./rules";
+import type { CheckRule, RuleMatch } from "./types";
+
+export type { CheckContext, CheckRule, RuleMatch } from "./types";
+export { RULES } from "./rules";
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) => a.start < b.end && b.start < a.end;
+
+/**
+ * Runs the rule-based checker over an essay, offline. Returns corrections in
+ * the same shape as the model's, anchored and in essay order; where two rules
+ * flag overlapping text only the first rule's correction is kept.
+ */
+export function checkEssay(essay: string, taskMode: TaskModeId, rules: CheckRule[] = RULES): Correction[] {
+  const mode = getTaskMode(taskMode);
+  const context = { essay, mode, formal: mode.id !== "task1-general-informal" };
+  const taken: RuleMatch[] = [];
+  const corrections: (Correction & { anchor: TextAnchor })[] = [];
+
+  for (const rule of rules) {
+    if (rule.formalOnly && !context.formal) continue;
+    for (const match of rule.check(context)) {
+      const original = essay.slice(match.start, match.end);
+      if (!original.trim() || original === match.replacement || taken.some((other) => overlaps(other, match))) continue;
+      taken.push(match);
+      corrections.push({
+        original,
+        replacement: match.replacement,
+        type: rule.type,
+        explanation: match.explanation,
+        anchor: anchorAt(essay, match.start, match.end),
+        source: "local",
+      });
+    }
+  }
+  return corrections.sort((a, b) => a.anchor.start - b.anchor.start);
+}
+
+/**
+ * Adds local corrections to the model's, leaving out any that touch text a
+ * model correction already covers. Merging the result again changes nothing.
+ */
+export function mergeCorrections(model: Correction[], local: Correction[]): Correction[] {
+  const merged = [...model];
+  for (const correction of local) {
+    const duplicate = merged.some((other) =>
+      correction.anchor && other.anchor ? overlaps(correction.anchor, other.anchor) : other.original === correction.original,
+    );
+    if (!duplicate) merged.push(correction);
+  }
+  return merged;
+}
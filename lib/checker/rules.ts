@@ -0,0 +1,276 @@
+// Built-in rules for common IELTS learner errors. Each rule is a pattern
+// over the raw essay with guards against the commonest false positives;
+// they are deliberately conservative, since a wrong "correction" costs the
+// student more than a missed one.
+
+import type { CheckRule, RuleMatch } from "./types";
+
+type Fix = [replacement: string, explanation: string];
+
+// Every match of a global pattern; `fix` returns null to skip one.
+function scan(essay: string, pattern: RegExp, fix: (match: RegExpExecArray) => Fix | null): RuleMatch[] {
+  const found: RuleMatch[] = [];
+  for (const match of essay.matchAll(pattern)) {
+    const result = fix(match);
+    if (result) found.push({ start: match.index, end: match.index + match[0].length, replacement: result[0], explanation: result[1] });
+  }
+  return found;
+}
+
+// Gives `replacement` the capitalisation of the text it replaces.
+const matchCase = (original: string, replacement: string) =>
+  /^\p{Lu}/u.test(original) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+
+const precedingWord = (essay: string, index: number) => essay.slice(0, index).match(/([\p{L}']+)\W*$/u)?.[1].toLowerCase() ?? "";
+
+// The text from the start of the sentence up to `index`.
+const sentenceBefore = (essay: string, index: number) => essay.slice(0, index).split(/[.!?]\s+|\n/).at(-1) ?? "";
+
+const atSentenceStart = (essay: string, index: number) => /(?:^|[.!?]\s+|\n\s*)$/.test(essay.slice(0, index));
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+const FINITE_VERB = /\b(?:is|are|was|were|am|has|have|had|will|would|can|could|should|must|may|might|do|does|did|\w+ed)\b/i;
+
+// --- Articles ------------------------------------------------------------------
+
+// Words spelt with a vowel but said with a consonant sound, and the reverse.
+const CONSONANT_SOUND = /^(?:universit|uniq|uniform|union|unit\b|units|united|universal|universe|use|usu|utili|europ|euro|one\b|once\b)/i;
+const VOWEL_SOUND = /^(?:hour|honest|honou?r|heir)/i;
+
+const articles: CheckRule = {
+  id: "articles",
+  type: "grammar",
+  check: ({ essay }) => [
+    ...scan(essay, /(?<![\w-])(a|A)\s+([aeiou][\w-]*)/gi, (m) => {
+      if ((m[1] === "A" && !atSentenceStart(essay, m.index)) || CONSONANT_SOUND.test(m[2])) return null;
+      return [`${matchCase(m[1], "an")} ${m[2]}`, `Use "an" before a vowel sound: "an ${m[2]}".`];
+    }),
+    ...scan(essay, /\b(an|An)\s+([\w-]+)/g, (m) => {
+      const word = m[2];
+      // Numbers, letters and abbreviations depend on how they are read ("an 8-hour day", "an MBA")
+      if (/^(?:\d|[A-Z](?![a-z]))/.test(word) || VOWEL_SOUND.test(word)) return null;
+      if (/^[aeiou]/i.test(word) && !CONSONANT_SOUND.test(word)) return null;
+      return [`${matchCase(m[1], "a")} ${word}`, `Use "a" before a consonant sound: "a ${word}".`];
+    }),
+    ...scan(essay, /\bthe most of\b/gi, (m) => [matchCase(m[0], "most of"), 'Use "most of" without "the" to mean the majority of something.']),
+  ],
+};
+
+// --- Subject-verb agreement ------------------------------------------------------
+
+// Words after which a bare verb is correct ("does it have", "let it go", "to them be").
+const BARE_VERB_BEFORE = new Set(
+  "does did doesn't didn't do can could will would should must may might shall cannot won't wouldn't couldn't shouldn't let lets make makes made help helps see saw watch hear heard".split(" "),
+);
+
+const THIRD_PERSON: Record<string, string> = { have: "has", do: "does", are: "is", were: "was", "don't": "doesn't" };
+const PLURAL: Record<string, string> = { has: "have", does: "do", is: "are", was: "were", "doesn't": "don't" };
+const FIRST_PERSON: Record<string, string> = { has: "have", does: "do", is: "am", "doesn't": "don't" };
+const SINGULAR_PRONOUN: Record<string, string> = { have: "has", are: "is", were: "was", do: "does", "don't": "doesn't" };
+
+const agree = (subject: string, verb: string, fixed: string): Fix => [
+  `${subject} ${fixed}`,
+  `Subject-verb agreement: "${subject.toLowerCase()}" takes "${fixed}", not "${verb.toLowerCase()}".`,
+];
+
+const agreement: CheckRule = {
+  id: "subject-verb-agreement",
+  type: "grammar",
+  check: ({ essay }) => [
+    ...scan(essay, /\b(he|she|it)\s+(have|do|are|were|don't)\b/gi, (m) => {
+      const before = precedingWord(essay, m.index);
+      if (BARE_VERB_BEFORE.has(before)) return null;
+      // "if it were", "as if he were", "I wish she were"
+      if (m[2].toLowerCase() === "were" && ["if", "wish", "though"].includes(before)) return null;
+      return agree(m[1], m[2], THIRD_PERSON[m[2].toLowerCase()]);
+    }),
+    ...scan(essay, /\b(I|we|you|they)\s+(has|does|is|was|doesn't)\b/gi, (m) => {
+      const table = m[1].toLowerCase() === "i" ? FIRST_PERSON : PLURAL;
+      const fixed = table[m[2].toLowerCase()];
+      return fixed ? agree(m[1], m[2], fixed) : null;
+    }),
+    ...scan(essay, /\b(people|children)\s+(is|was|has|does|doesn't)\b/gi, (m) => agree(m[1], m[2], PLURAL[m[2].toLowerCase()])),
+    ...scan(essay, /\b(everyone|everybody|someone|somebody|nobody|no one|each person|each student)\s+(have|are|were|do|don't)\b/gi, (m) =>
+      agree(m[1], m[2], SINGULAR_PRONOUN[m[2].toLowerCase()]),
+    ),
+    ...scan(essay, /\b(there)\s+(is|was)(?=\s+(?:many|several|numerous|a few|few|various|two|three|four|five|some people)\b)/gi, (m) =>
+      agree(m[1], m[2], m[2].toLowerCase() === "is" ? "are" : "were"),
+    ),
+  ],
+};
+
+// --- Countable and uncountable nouns ---------------------------------------------
+
+const UNCOUNTABLE = ["information", "advice", "equipment", "furniture", "evidence", "homework", "luggage", "baggage", "news", "progress", "knowledge", "research", "traffic", "pollution", "money", "feedback", "software", "machinery"];
+
+// Nouns an uncountable noun can modify, making a countable compound ("an information desk", "many research projects").
+const COMPOUND_HEADS = new Set(
+  "session sessions system systems centre centres center centers desk desks technology technologies leaflet leaflets pack packs sheet sheets age overload service services campaign campaigns booklet booklets column columns line lines paper papers project projects study studies institute institutes method methods team teams program programs programme programmes story stories report reports form forms".split(" "),
+);
+
+const COUNTABLE_PLURALS = "people|cars|students|jobs|problems|opportunities|children|workers|vehicles|hours|things|crimes|accidents|employees|books|countries|resources|trees|houses|animals|patients|tourists|visitors";
+
+const nextWord = (essay: string, index: number) => essay.slice(index).match(/^\s+([\p{L}-]+)/u)?.[1].toLowerCase() ?? "";
+
+const countability: CheckRule = {
+  id: "countability",
+  type: "grammar",
+  check: ({ essay }) => [
+    ...scan(essay, /\b(informations|advices|knowledges|equipments|furnitures|evidences|homeworks|luggages|baggages|feedbacks|softwares|machineries|pollutions|traffics)\b/gi, (m) => {
+      const singular = m[1].replace(/ies$/i, "y").replace(/s$/i, "");
+      return [singular, `"${singular.toLowerCase()}" is uncountable and has no plural form.`];
+    }),
+    ...scan(essay, new RegExp(`\\b(an?)\\s+(${UNCOUNTABLE.filter((noun) => !["knowledge", "research", "money", "traffic", "pollution"].includes(noun)).join("|")})\\b`, "gi"), (m) => {
+      if (COMPOUND_HEADS.has(nextWord(essay, m.index + m[0].length))) return null;
+      const noun = m[2];
+      const replacement = noun.toLowerCase() === "progress" ? noun : `${matchCase(m[1], "a")} piece of ${noun}`;
+      return [replacement, `"${noun.toLowerCase()}" is uncountable, so it cannot take "a" or "an".`];
+    }),
+    ...scan(essay, new RegExp(`\\b(many)\\s+(${UNCOUNTABLE.join("|")})\\b`, "gi"), (m) => {
+      if (COMPOUND_HEADS.has(nextWord(essay, m.index + m[0].length))) return null;
+      return [`${matchCase(m[1], "much")} ${m[2]}`, `"${m[2].toLowerCase()}" is uncountable: use "much" (or "a great deal of"), not "many".`];
+    }),
+    ...scan(essay, new RegExp(`\\b(less)(?=\\s+(?:${COUNTABLE_PLURALS})\\b)`, "gi"), (m) => [
+      matchCase(m[1], "fewer"),
+      'Use "fewer" with plural countable nouns; "less" is for uncountable ones.',
+    ]),
+    ...scan(essay, new RegExp(`\\b(amount)(s?)(?=\\s+of\\s+(?:${COUNTABLE_PLURALS})\\b)`, "gi"), (m) => [
+      matchCase(m[1], "number") + m[2],
+      'Use "number of" with plural countable nouns; "amount of" is for uncountable ones.',
+    ]),
+  ],
+};
+
+// --- Register ------------------------------------------------------------------------
+
+const CONTRACTIONS: Record<string, string> = {
+  "can't": "cannot", "won't": "will not", "don't": "do not", "doesn't": "does not", "didn't": "did not", "isn't": "is not",
+  "aren't": "are not", "wasn't": "was not", "weren't": "were not", "haven't": "have not", "hasn't": "has not", "hadn't": "had not",
+  "shouldn't": "should not", "couldn't": "could not", "wouldn't": "would not", "mustn't": "must not", "that's": "that is",
+  "there's": "there is", "what's": "what is", "let's": "let us", "i'm": "I am", "i've": "I have", "i'd": "I would", "i'll": "I will",
+  "you're": "you are", "you've": "you have", "we're": "we are", "we've": "we have", "we'll": "we will", "they're": "they are",
+  "they've": "they have", "they'll": "they will", "it's": "it is", "he's": "he is", "she's": "she is",
+};
+
+const contractions: CheckRule = {
+  id: "contractions",
+  type: "vocabulary",
+  formalOnly: true,
+  check: ({ essay }) =>
+    scan(essay, /\b[\p{L}]+['’](?:t|s|m|re|ve|d|ll)\b/giu, (m) => {
+      const key = m[0].toLowerCase().replace("’", "'");
+      let expanded = CONTRACTIONS[key];
+      if (!expanded) return null;
+      // "it's been" is "it has been"
+      if (/^(it|he|she|that|there|what)'s$/.test(key) && /^(been|got)$/.test(nextWord(essay, m.index + m[0].length))) {
+        expanded = expanded.replace(/ is$/, " has");
+      }
+      return [matchCase(m[0], expanded), "Contractions are too informal for this task; write the words out in full."];
+    }),
+};
+
+const INFORMAL: [RegExp, string, string][] = [
+  [/\bkids\b/gi, "children", '"kids" is informal.'],
+  [/\bkid\b/gi, "child", '"kid" is informal.'],
+  [/\bgonna\b/gi, "going to", '"gonna" is spoken English only.'],
+  [/\bwanna\b/gi, "want to", '"wanna" is spoken English only.'],
+  [/\bgotta\b/gi, "have to", '"gotta" is spoken English only.'],
+  [/\bguys\b/gi, "people", '"guys" is informal.'],
+  [/\b(?:cos|cuz)\b/gi, "because", "This abbreviation is spoken English only."],
+  [/\banyways\b/gi, "anyway", '"anyways" is non-standard.'],
+  [/\btotally\b/gi, "completely", '"totally" is conversational.'],
+  [/\bget rid of\b/gi, "eliminate", '"get rid of" is informal; a single verb is more precise.'],
+  [/\btons of\b/gi, "a great many", '"tons of" is informal.'],
+  [/\bpretty(?=\s+(?:good|bad|much|important|big|difficult|hard|easy|common|expensive|cheap|clear|obvious)\b)/gi, "fairly", '"pretty" as an intensifier is informal.'],
+  [/\ba bit\b(?!\s+of\b)/gi, "slightly", '"a bit" is informal.'],
+  [/\b(?:okay|OK)\b/g, "acceptable", '"OK" is conversational.'],
+];
+
+const informal: CheckRule = {
+  id: "informal-phrasing",
+  type: "vocabulary",
+  formalOnly: true,
+  check: ({ essay }) => [
+    ...INFORMAL.flatMap(([pattern, replacement, explanation]) =>
+      scan(essay, pattern, (m) => [matchCase(m[0], replacement), `${explanation} Use "${replacement}" in formal writing.`]),
+    ),
+    ...scan(essay, /\b(?:But|Plus|So),?(?=\s)/g, (m) => {
+      // "So" without a comma usually starts "So many..." or "So far..."
+      if (!atSentenceStart(essay, m.index) || m[0] === "So") return null;
+      const formal = m[0].startsWith("But") ? "However," : m[0].startsWith("Plus") ? "In addition," : "Therefore,";
+      return [formal, `Starting a sentence with "${m[0].replace(",", "")}" is informal; use a linking adverb instead.`];
+    }),
+  ],
+};
+
+// --- Repetition and punctuation --------------------------------------------------------
+
+const repeatedWords: CheckRule = {
+  id: "repeated-words",
+  type: "grammar",
+  check: ({ essay }) =>
+    scan(essay, /\b([\p{L}]+)\s+\1\b/giu, (m) => {
+      // "that that" and "had had" can be correct
+      if (["that", "had"].includes(m[1].toLowerCase())) return null;
+      return [m[1], `"${m[1]}" is repeated.`];
+    }),
+};
+
+const SUBORDINATORS = /\b(?:if|when|whenever|because|although|though|while|whilst|since|as|unless|once|after|before|whereas|until|which|who)\b/i;
+const SPLICE_EXPLANATION = "Comma splice: two complete sentences joined only by a comma. Use a semicolon or full stop, or join them with a conjunction.";
+
+// A complete clause has a few words and a finite verb, and is not subordinate.
+const isMainClause = (text: string) => words(text).length >= 3 && FINITE_VERB.test(text) && !SUBORDINATORS.test(text) && !text.includes(",");
+
+const commaSplices: CheckRule = {
+  id: "comma-splice",
+  type: "grammar",
+  check: ({ essay }) => [
+    ...scan(essay, /,\s*(however|therefore|moreover|furthermore|thus|consequently|nevertheless|nonetheless|hence|otherwise|meanwhile|instead)\s*,/gi, (m) => {
+      const after = words(essay.slice(m.index + m[0].length).split(/[.!?;\n]/)[0]).slice(0, 8).join(" ");
+      if (!isMainClause(sentenceBefore(essay, m.index)) || !FINITE_VERB.test(after)) return null;
+      return [`; ${m[1].toLowerCase()},`, `${SPLICE_EXPLANATION} "${m[1].toLowerCase()}" is an adverb, not a conjunction.`];
+    }),
+    ...scan(essay, /,\s+(this|it|they|these|there|he|she|we|I)\s+(is|are|was|were|has|have|will|can|means|shows|leads|makes|would|should)\b/g, (m) => {
+      if (words(sentenceBefore(essay, m.index)).length < 4 || !isMainClause(sentenceBefore(essay, m.index))) return null;
+      return [`; ${m[1]} ${m[2]}`, SPLICE_EXPLANATION];
+    }),
+  ],
+};
+
+// --- Vague vocabulary ----------------------------------------------------------------------
+
+const PRECISE: Record<string, string> = {
+  good: "excellent", important: "crucial", big: "enormous", large: "vast", small: "minimal",
+  interesting: "fascinating", clear: "evident", common: "widespread", useful: "invaluable",
+};
+
+const vague: CheckRule = {
+  id: "vague-vocabulary",
+  type: "vocabulary",
+  check: ({ essay }) => [
+    ...scan(essay, /\b(?:a lot of|lots of)(?=\s+([\p{L}-]+))/giu, (m) => {
+      const noun = m[1].toLowerCase();
+      const plural = (/[^s]s$/.test(noun) && !UNCOUNTABLE.includes(noun)) || ["people", "children", "men", "women"].includes(noun);
+      const replacement = plural ? "many" : "a great deal of";
+      return [matchCase(m[0], replacement), `"${m[0].toLowerCase()}" is informal and vague; "${replacement}" is more precise.`];
+    }),
+    ...scan(essay, /\bvery\s+([a-z]+)\b/gi, (m) => {
+      const precise = PRECISE[m[1].toLowerCase()];
+      return precise ? [matchCase(m[0], precise), `Replace "very ${m[1]}" with a single precise adjective such as "${precise}".`] : null;
+    }),
+    ...scan(essay, /\b(big|huge) (problem|issue)(s?)\b/gi, (m) => [matchCase(m[0], `serious ${m[2]}${m[3]}`), `"${m[1]} ${m[2]}" is imprecise; "serious" collocates better.`]),
+    ...scan(essay, /\b(good|bad) (effect|impact|influence)(s?)\b/gi, (m) => {
+      const precise = m[1].toLowerCase() === "good" ? "positive" : "negative";
+      return [matchCase(m[0], `${precise} ${m[2]}${m[3]}`), `"${precise} ${m[2]}" is the usual academic collocation.`];
+    }),
+    ...scan(essay, /\b(thing)(s?)\b/gi, (m) => [
+      matchCase(m[0], `aspect${m[2]}`),
+      '"thing" is vague: name the specific aspect, factor or issue you mean.',
+    ]),
+  ],
+};
+
+// In priority order: where two rules flag overlapping text, the earlier wins.
+export const RULES: CheckRule[] = [repeatedWords, agreement, countability, articles, commaSplices, contractions, informal, vague];
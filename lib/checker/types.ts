@@ -0,0 +1,25 @@
+import type { TaskMode } from "@/lib/tasks";
+
+export interface CheckContext {
+  essay: string;
+  mode: TaskMode;
+  // False for informal letters, where contractions and casual phrasing are expected.
+  formal: boolean;
+}
+
+// One problem found by a rule: `start`..`end` in the essay should become `replacement`.
+export interface RuleMatch {
+  start: number;
+  end: number;
+  replacement: string;
+  explanation: string;
+}
+
+export interface CheckRule {
+  id: string;
+  // Reported as the correction's `type`, as the model's corrections are.
+  type: "grammar" | "vocabulary" | "coherence";
+  // Skipped where an informal register is appropriate.
+  formalOnly?: boolean;
+  check(context: CheckContext): RuleMatch[];
+}
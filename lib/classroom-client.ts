@@ -0,0 +1,88 @@
+// Browser-side calls to the classroom API. The session is an HTTP-only
+// cookie, so requests carry it without any token handling here.
+
+import type {
+  Account,
+  Assignment,
+  AssignmentDetail,
+  AssignmentInput,
+  Classroom,
+  ClassroomDetail,
+  ClassroomSummary,
+  Role,
+  Submission,
+  SubmissionDetail,
+  TeacherReview,
+} from "@/lib/classroom";
+import type { AnalyzeErrorBody } from "@/lib/feedback";
+
+// A refused classroom request; a 401 means the session has ended.
+export class ClassroomRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ClassroomRequestError";
+    this.status = status;
+  }
+}
+
+async function call<T>(path: string, fallback: string, init?: { method: string; body?: unknown }): Promise<T> {
+  const response = await fetch(path, {
+    method: init?.method ?? "GET",
+    headers: init?.body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  if (!response.ok) {
+    const body: AnalyzeErrorBody | null = await response.json().catch(() => null);
+    throw new ClassroomRequestError(body?.error ?? fallback, response.status);
+  }
+  return response.json();
+}
+
+export const getSession = async () => (await call<{ account: Account | null }>("/api/session", "Could not check your session")).account;
+
+export const signIn = async (username: string, password: string) =>
+  (await call<{ account: Account }>("/api/session", "Could not sign in", { method: "POST", body: { username, password } })).account;
+
+export interface RegistrationBody {
+  username: string;
+  name: string;
+  password: string;
+  role: Role;
+  teacherCode?: string;
+}
+
+export const register = async (body: RegistrationBody) =>
+  (await call<{ account: Account }>("/api/accounts", "Could not create the account", { method: "POST", body })).account;
+
+export const signOut = () => call<unknown>("/api/session", "Could not sign out", { method: "DELETE" });
+
+export const listClasses = async () => (await call<{ classes: ClassroomSummary[] }>("/api/classes", "Could not load your classes")).classes;
+
+export const createClass = async (name: string) =>
+  (await call<{ classroom: Classroom }>("/api/classes", "Could not create the class", { method: "POST", body: { name } })).classroom;
+
+export const joinClass = async (code: string) =>
+  (await call<{ classId: string }>("/api/classes/join", "Could not join the class", { method: "POST", body: { code } })).classId;
+
+export const getClass = (classId: string) => call<ClassroomDetail>(`/api/classes/${classId}`, "Could not load the class");
+
+export const createAssignment = async (classId: string, body: AssignmentInput) =>
+  (await call<{ assignment: Assignment }>(`/api/classes/${classId}/assignments`, "Could not set the assignment", { method: "POST", body })).assignment;
+
+export const getAssignment = (assignmentId: string) => call<AssignmentDetail>(`/api/assignments/${assignmentId}`, "Could not load the assignment");
+
+export const submitEssay = async (assignmentId: string, essay: string) =>
+  (await call<{ submission: Submission }>(`/api/assignments/${assignmentId}/submission`, "Could not submit your essay", { method: "POST", body: { essay } }))
+    .submission;
+
+export const getSubmission = (submissionId: string) => call<SubmissionDetail>(`/api/submissions/${submissionId}`, "Could not load the submission");
+
+export type ReviewBody = Pick<TeacherReview, "bands" | "corrections" | "criterionComments" | "comment" | "status">;
+
+export const saveReview = async (submissionId: string, body: ReviewBody) =>
+  (await call<{ submission: Submission }>(`/api/submissions/${submissionId}`, "Could not save the review", { method: "PUT", body })).submission;
+
+export const retryAnalysis = async (submissionId: string) =>
+  (await call<{ submission: Submission }>(`/api/submissions/${submissionId}/analysis`, "Could not analyse the submission", { method: "POST" })).submission;
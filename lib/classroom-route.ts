@@ -0,0 +1,59 @@
+// What the classroom API routes share: the signed-in account, JSON bodies,
+// the session cookie, and turning refusals into responses with their status.
+
+import { NextResponse } from "next/server";
+import { AccountError, currentAccount, SESSION_COOKIE, SESSION_TTL_MS } from "@/lib/accounts";
+import { readJsonBody } from "@/lib/api-route";
+import type { Account } from "@/lib/classroom";
+import { ClassroomError } from "@/lib/classroom-store";
+import type { AnalyzeErrorBody } from "@/lib/feedback";
+import { PromptConfigError } from "@/lib/prompts";
+import { ProviderConfigError } from "@/lib/providers";
+import { StoreConfigError } from "@/lib/store";
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof ClassroomError || error instanceof AccountError) {
+    return NextResponse.json<AnalyzeErrorBody>({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof StoreConfigError || error instanceof ProviderConfigError || error instanceof PromptConfigError) {
+    console.error("Classroom configuration error:", error.message);
+    return NextResponse.json<AnalyzeErrorBody>({ error: "Classroom mode is not configured correctly on the server." }, { status: 503 });
+  }
+  console.error("Error in classroom route:", error);
+  return NextResponse.json<AnalyzeErrorBody>({ error: "Internal Server Error" }, { status: 500 });
+}
+
+/** Runs `handler` for the signed-in account, answering 401 when there is none. */
+export async function withAccount(req: Request, handler: (account: Account) => Promise<Response>): Promise<Response> {
+  try {
+    const account = await currentAccount(req);
+    if (!account) return NextResponse.json<AnalyzeErrorBody>({ error: "Please sign in." }, { status: 401 });
+    return await handler(account);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** The decoded JSON object in the body, refusing anything else with a ClassroomError. */
+export async function readJson(req: Request): Promise<Record<string, unknown>> {
+  const read = await readJsonBody(req);
+  if (!read.ok) throw new ClassroomError(read.error, read.status);
+  const { body } = read;
+  if (typeof body !== "object" || body === null || Array.isArray(body)) throw new ClassroomError("The request body must be a JSON object.", 400);
+  return body as Record<string, unknown>;
+}
+
+export function setSessionCookie(response: NextResponse, token: string | null) {
+  response.cookies.set(SESSION_COOKIE, token ?? "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: token ? SESSION_TTL_MS / 1000 : 0,
+  });
+  return response;
+}
+
+// Limits for classroom requests count per account, since a whole class may
+// share one school address.
+export const accountClient = (account: Account) => `account:${account.id}`;
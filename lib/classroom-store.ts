@@ -0,0 +1,330 @@
+// Classroom records in the "classroom" store, and the rules for who may read
+// or change them: teachers manage their own classes, assignments and
+// reviews; students join with a code, submit to their classes' assignments
+// and only see reviews once they are returned. Lists are kept as arrays of
+// ids under their own keys, e.g. "assignments-of:<classId>".
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { getAccount, getAccounts } from "@/lib/accounts";
+import { analyzeEssay, type AnalyzeInput } from "@/lib/analyze";
+import { MAX_BAND, MIN_BAND } from "@/lib/bands";
+import {
+  submissionStatus,
+  type Account,
+  type Assignment,
+  type AssignmentDetail,
+  type AssignmentInput,
+  type AssignmentSummary,
+  type Classroom,
+  type ClassroomDetail,
+  type ClassroomSummary,
+  type CorrectionDecision,
+  type Submission,
+  type SubmissionDetail,
+  type TeacherReview,
+} from "@/lib/classroom";
+import { CRITERIA, type CriterionKey } from "@/lib/feedback";
+import { loadPrompts } from "@/lib/prompts";
+import { getProvider } from "@/lib/providers";
+import { consume, getLimits } from "@/lib/rate-limit";
+import { getStore } from "@/lib/store";
+import { recordUsage } from "@/lib/usage-log";
+
+const NAME_CHARS = 100;
+const COMMENT_CHARS = 4_000;
+// Unambiguous when read aloud or copied from a board.
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+// Why a classroom request was refused, with the HTTP status for it.
+export class ClassroomError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ClassroomError";
+    this.status = status;
+  }
+}
+
+const store = () => getStore("classroom", process.env, { durable: true });
+
+async function load<T>(kind: string, id: string, label: string): Promise<T> {
+  const record = await store().get<T>(`${kind}:${id}`);
+  if (!record) throw new ClassroomError(`No such ${label}.`, 404);
+  return record;
+}
+
+async function loadMany<T>(kind: string, ids: string[]): Promise<T[]> {
+  const found: (T | undefined)[] = await Promise.all(ids.map((id) => store().get<T>(`${kind}:${id}`)));
+  return found.filter((record): record is T => record !== undefined);
+}
+
+const idsOf = async (list: string) => (await store().get<string[]>(list)) ?? [];
+
+const addId = (list: string, id: string) => store().update<string[]>(list, (ids = []) => (ids.includes(id) ? ids : [...ids, id]));
+
+function requireRole(account: Account, role: Account["role"]) {
+  if (account.role !== role) throw new ClassroomError(`Only ${role}s can do that.`, 403);
+}
+
+// The class, if the account teaches it or is enrolled in it.
+async function classFor(account: Account, classId: string): Promise<Classroom> {
+  const classroom = await load<Classroom>("class", classId, "class");
+  if (classroom.teacherId !== account.id && !classroom.studentIds.includes(account.id)) throw new ClassroomError("No such class.", 404);
+  return classroom;
+}
+
+async function assignmentFor(account: Account, assignmentId: string): Promise<{ assignment: Assignment; classroom: Classroom }> {
+  const assignment = await load<Assignment>("assignment", assignmentId, "assignment");
+  return { assignment, classroom: await classFor(account, assignment.classId) };
+}
+
+// Students see a review only once it is returned.
+const forViewer = (account: Account, submission: Submission): Submission =>
+  account.role === "student" && submission.review?.status !== "returned" ? { ...submission, review: undefined } : submission;
+
+function cleanName(raw: unknown, field: string): string {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!name) throw new ClassroomError(`${field} is required.`, 400);
+  if (name.length > NAME_CHARS) throw new ClassroomError(`${field} is limited to ${NAME_CHARS} characters.`, 400);
+  return name;
+}
+
+// ---- Classes
+
+export async function createClass(teacher: Account, name: unknown): Promise<Classroom> {
+  requireRole(teacher, "teacher");
+  const classroom: Classroom = { id: randomUUID(), name: cleanName(name, "The class name"), teacherId: teacher.id, joinCode: "", studentIds: [], createdAt: Date.now() };
+
+  // Codes are claimed atomically; a clash just draws another
+  while (!classroom.joinCode) {
+    const bytes = randomBytes(CODE_LENGTH);
+    const code = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+    const owner = await store().update<string>(`join:${code}`, (current) => current ?? classroom.id);
+    if (owner === classroom.id) classroom.joinCode = code;
+  }
+
+  await store().set(`class:${classroom.id}`, classroom);
+  await addId(`classes-of:${teacher.id}`, classroom.id);
+  return classroom;
+}
+
+export async function joinClass(student: Account, code: unknown): Promise<Classroom> {
+  requireRole(student, "student");
+  const classId = typeof code === "string" ? await store().get<string>(`join:${code.trim().toUpperCase()}`) : undefined;
+  if (!classId) throw new ClassroomError("No class has that code.", 404);
+
+  const classroom = await store().update<Classroom>(`class:${classId}`, (current) => {
+    if (!current) throw new ClassroomError("No class has that code.", 404);
+    return current.studentIds.includes(student.id) ? current : { ...current, studentIds: [...current.studentIds, student.id] };
+  });
+  await addId(`classes-of:${student.id}`, classId);
+  return classroom;
+}
+
+export async function listClasses(account: Account): Promise<ClassroomSummary[]> {
+  const classes = await loadMany<Classroom>("class", await idsOf(`classes-of:${account.id}`));
+  return Promise.all(
+    classes.map(async (classroom) => ({
+      classroom: account.role === "teacher" ? classroom : { ...classroom, joinCode: "", studentIds: [] },
+      teacher: (await getAccount(classroom.teacherId))!,
+      assignments: (await idsOf(`assignments-of:${classroom.id}`)).length,
+    })),
+  );
+}
+
+async function summarise(account: Account, assignment: Assignment): Promise<AssignmentSummary> {
+  const submissions = await loadMany<Submission>("submission", await idsOf(`submissions-of:${assignment.id}`));
+  const visible = account.role === "teacher" ? submissions : submissions.filter((submission) => submission.studentId === account.id);
+  return {
+    assignment,
+    submissions: visible.length,
+    returned: visible.filter((submission) => submissionStatus(submission) === "returned").length,
+  };
+}
+
+export async function getClassDetail(account: Account, classId: string): Promise<ClassroomDetail> {
+  const classroom = await classFor(account, classId);
+  const teaches = classroom.teacherId === account.id;
+  const assignments = await loadMany<Assignment>("assignment", await idsOf(`assignments-of:${classId}`));
+  return {
+    classroom: teaches ? classroom : { ...classroom, joinCode: "", studentIds: [] },
+    teacher: (await getAccount(classroom.teacherId))!,
+    students: teaches ? await getAccounts(classroom.studentIds) : [],
+    assignments: await Promise.all(assignments.sort((a, b) => a.deadline - b.deadline).map((assignment) => summarise(account, assignment))),
+  };
+}
+
+// ---- Assignments
+
+export async function createAssignment(teacher: Account, classId: string, input: AssignmentInput): Promise<Assignment> {
+  requireRole(teacher, "teacher");
+  const classroom = await classFor(teacher, classId);
+  if (classroom.teacherId !== teacher.id) throw new ClassroomError("Only the class's teacher can set assignments.", 403);
+
+  const assignment: Assignment = { id: randomUUID(), classId, ...input, createdAt: Date.now() };
+  await store().set(`assignment:${assignment.id}`, assignment);
+  await addId(`assignments-of:${classId}`, assignment.id);
+  return assignment;
+}
+
+export async function getAssignmentDetail(account: Account, assignmentId: string): Promise<AssignmentDetail> {
+  const { assignment, classroom } = await assignmentFor(account, assignmentId);
+  const teaches = classroom.teacherId === account.id;
+  const submissions = (await loadMany<Submission>("submission", await idsOf(`submissions-of:${assignmentId}`))).filter(
+    (submission) => teaches || submission.studentId === account.id,
+  );
+  const students = await getAccounts(teaches ? classroom.studentIds : [account.id]);
+  const byId = new Map(students.map((student) => [student.id, student]));
+
+  return {
+    assignment,
+    classroom: teaches ? classroom : { ...classroom, joinCode: "", studentIds: [] },
+    submissions: submissions
+      .filter((submission) => byId.has(submission.studentId))
+      .map((submission) => ({ submission: forViewer(account, submission), student: byId.get(submission.studentId)! })),
+    missing: teaches ? students.filter((student) => !submissions.some((submission) => submission.studentId === student.id)) : [],
+  };
+}
+
+// ---- Submissions
+
+/**
+ * Analyses a submitted essay the same way /api/analyze does, counting it
+ * against the client's daily quota and recording its usage. A failure is
+ * returned as `analysisError` so the submission is kept and can be analysed
+ * again later.
+ */
+export async function analyseSubmission(input: AnalyzeInput, client: string): Promise<Pick<Submission, "analysis" | "analysisError">> {
+  const quota = await consume(getStore("limits"), client, getLimits().quota);
+  if (!quota.ok) return { analysis: null, analysisError: quota.message };
+
+  try {
+    const provider = getProvider();
+    const prompts = loadPrompts();
+    const outcome = await analyzeEssay(input, provider, { prompts });
+    await recordUsage({ client, taskMode: input.taskMode, promptVersion: prompts.version, kind: "analysis", outcome: outcome.ok ? "ok" : "malformed", usage: outcome.usage });
+    return outcome.ok ? { analysis: outcome.data } : { analysis: null, analysisError: "The AI examiner returned malformed feedback." };
+  } catch (error) {
+    console.error("Error analysing submission:", error);
+    return { analysis: null, analysisError: "The AI examiner is unavailable." };
+  }
+}
+
+/** The assignment a student may submit to now: in one of their classes, and not already reviewed. */
+export async function submissionTarget(student: Account, assignmentId: string): Promise<Assignment> {
+  requireRole(student, "student");
+  const { assignment } = await assignmentFor(student, assignmentId);
+  const existingId = await store().get<string>(`submission-by:${assignmentId}:${student.id}`);
+  const existing = existingId ? await store().get<Submission>(`submission:${existingId}`) : undefined;
+  if (existing?.review) throw new ClassroomError("Your teacher has started reviewing this submission, so it can no longer be changed.", 409);
+  return assignment;
+}
+
+/** Saves a student's essay for an assignment, replacing an earlier unreviewed submission. */
+export async function saveSubmission(
+  student: Account,
+  assignment: Assignment,
+  essay: string,
+  result: Pick<Submission, "analysis" | "analysisError">,
+): Promise<Submission> {
+  const now = Date.now();
+  const id = await store().update<string>(`submission-by:${assignment.id}:${student.id}`, (current) => current ?? randomUUID());
+  const submission = await store().update<Submission>(`submission:${id}`, (current) => {
+    if (current?.review) throw new ClassroomError("Your teacher has started reviewing this submission, so it can no longer be changed.", 409);
+    return { id, assignmentId: assignment.id, studentId: student.id, essay, submittedAt: now, late: now > assignment.deadline, ...result };
+  });
+  await addId(`submissions-of:${assignment.id}`, id);
+  return forViewer(student, submission);
+}
+
+async function submissionFor(account: Account, submissionId: string): Promise<SubmissionDetail & { classroom: Classroom }> {
+  const submission = await load<Submission>("submission", submissionId, "submission");
+  const { assignment, classroom } = await assignmentFor(account, submission.assignmentId);
+  if (classroom.teacherId !== account.id && submission.studentId !== account.id) throw new ClassroomError("No such submission.", 404);
+  const student = await getAccount(submission.studentId);
+  if (!student) throw new ClassroomError("No such submission.", 404);
+  return { submission, assignment, student, classroom };
+}
+
+export async function getSubmissionDetail(account: Account, submissionId: string): Promise<SubmissionDetail> {
+  const { submission, assignment, student } = await submissionFor(account, submissionId);
+  return { submission: forViewer(account, submission), assignment, student };
+}
+
+/** Runs the analysis again for a submission whose analysis failed. */
+export async function reanalyseSubmission(account: Account, submissionId: string, client: string): Promise<Submission> {
+  const { submission, assignment } = await submissionFor(account, submissionId);
+  if (submission.analysis) throw new ClassroomError("This submission has already been analysed.", 409);
+  const result = await analyseSubmission({ essay: submission.essay, taskMode: assignment.taskMode, question: assignment.question }, client);
+  const updated = await store().update<Submission>(`submission:${submissionId}`, (current) => ({ ...(current ?? submission), ...result }));
+  return forViewer(account, updated);
+}
+
+// ---- Reviews
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value);
+
+function cleanComment(raw: unknown, field: string): string {
+  if (raw === undefined || raw === null) return "";
+  if (typeof raw !== "string") throw new ClassroomError(`${field} must be a string.`, 400);
+  if (raw.length > COMMENT_CHARS) throw new ClassroomError(`${field} is limited to ${COMMENT_CHARS.toLocaleString("en")} characters.`, 400);
+  return raw.trim();
+}
+
+function parseDecision(raw: unknown, index: string): CorrectionDecision {
+  if (isObject(raw) && (raw.status === "accepted" || raw.status === "rejected")) return { status: raw.status };
+  if (isObject(raw) && raw.status === "edited" && typeof raw.replacement === "string") {
+    return { status: "edited", replacement: raw.replacement, explanation: cleanComment(raw.explanation, `corrections.${index}.explanation`) };
+  }
+  throw new ClassroomError(`corrections.${index} must be accepted, rejected, or edited with a replacement.`, 400);
+}
+
+/** Saves the teacher's review of a submission, as a draft or returned to the student. */
+export async function saveReview(teacher: Account, submissionId: string, raw: unknown): Promise<Submission> {
+  requireRole(teacher, "teacher");
+  const { submission, classroom } = await submissionFor(teacher, submissionId);
+  if (classroom.teacherId !== teacher.id) throw new ClassroomError("Only the class's teacher can review submissions.", 403);
+  if (!submission.analysis) throw new ClassroomError("This submission has no analysis to review yet.", 409);
+  if (!isObject(raw)) throw new ClassroomError("The review must be a JSON object.", 400);
+
+  const bands: TeacherReview["bands"] = {};
+  for (const [key, band] of Object.entries(isObject(raw.bands) ? raw.bands : {})) {
+    if (!CRITERIA.includes(key as CriterionKey)) throw new ClassroomError(`Unknown criterion "${key}".`, 400);
+    if (band === null || band === undefined) continue;
+    if (!Number.isInteger(band) || (band as number) < MIN_BAND || (band as number) > MAX_BAND) {
+      throw new ClassroomError(`bands.${key} must be a whole band from ${MIN_BAND} to ${MAX_BAND}.`, 400);
+    }
+    bands[key as CriterionKey] = band as number;
+  }
+
+  const corrections: TeacherReview["corrections"] = {};
+  for (const [index, decision] of Object.entries(isObject(raw.corrections) ? raw.corrections : {})) {
+    const position = Number(index);
+    if (!Number.isInteger(position) || position < 0 || position >= submission.analysis.corrections.length) {
+      throw new ClassroomError(`corrections.${index} does not match a correction in the analysis.`, 400);
+    }
+    corrections[position] = parseDecision(decision, index);
+  }
+
+  const criterionComments: TeacherReview["criterionComments"] = {};
+  for (const [key, comment] of Object.entries(isObject(raw.criterionComments) ? raw.criterionComments : {})) {
+    if (!CRITERIA.includes(key as CriterionKey)) throw new ClassroomError(`Unknown criterion "${key}".`, 400);
+    const text = cleanComment(comment, `criterionComments.${key}`);
+    if (text) criterionComments[key as CriterionKey] = text;
+  }
+
+  const review: TeacherReview = {
+    bands,
+    corrections,
+    criterionComments,
+    comment: cleanComment(raw.comment, "comment"),
+    status: raw.status === "returned" ? "returned" : "draft",
+    reviewerId: teacher.id,
+    updatedAt: Date.now(),
+  };
+  return store().update<Submission>(`submission:${submissionId}`, (current) => ({ ...(current ?? submission), review }));
+}
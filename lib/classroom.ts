@@ -0,0 +1,203 @@
+// Shared contract for classroom mode: teachers set assignments to their
+// classes, students submit essays that are analysed on submission, and the
+// teacher reviews each analysis before it is returned. Client-safe; the
+// server side is lib/classroom-store.ts and lib/accounts.ts.
+
+import { toCriterionBand } from "@/lib/bands";
+import { bandScoreOf, CRITERIA, type Correction, type CriterionKey, type FeedbackData } from "@/lib/feedback";
+import { checkQuestion, INPUT_LIMITS, tooLong } from "@/lib/input-safety";
+import { parseExamQuestion, type ExamQuestion } from "@/lib/question";
+import { isTaskModeId, type TaskModeId } from "@/lib/tasks";
+
+export type Role = "teacher" | "student";
+
+export const ROLES: Role[] = ["teacher", "student"];
+
+// An account as other users and the client see it: no credentials.
+export interface Account {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  createdAt: number;
+}
+
+export interface Classroom {
+  id: string;
+  name: string;
+  teacherId: string;
+  // Students join with this code.
+  joinCode: string;
+  studentIds: string[];
+  createdAt: number;
+}
+
+export interface Assignment {
+  id: string;
+  classId: string;
+  title: string;
+  question: ExamQuestion;
+  taskMode: TaskModeId;
+  // Epoch milliseconds; later submissions are accepted and marked late.
+  deadline: number;
+  createdAt: number;
+}
+
+// What a teacher sends to set an assignment.
+export type AssignmentInput = Pick<Assignment, "title" | "question" | "taskMode" | "deadline">;
+
+export type ParsedAssignmentRequest = { ok: true; input: AssignmentInput } | { ok: false; error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a decoded assignment body. Unlike an analyze request the question
+ * is required, since every submission is assessed against it.
+ */
+export function parseAssignmentRequest(body: unknown): ParsedAssignmentRequest {
+  if (!isObject(body)) return { ok: false, error: "The request body must be a JSON object." };
+  const { title, question, taskMode, deadline } = body;
+
+  if (typeof title !== "string" || !title.trim()) return { ok: false, error: "title is required." };
+  if (title.length > INPUT_LIMITS.assignmentTitleChars) return { ok: false, error: tooLong("title", title.length, INPUT_LIMITS.assignmentTitleChars) };
+  if (!isTaskModeId(taskMode)) return { ok: false, error: `Unknown taskMode "${String(taskMode)}".` };
+  if (typeof deadline !== "number" || !Number.isFinite(deadline) || deadline <= 0) {
+    return { ok: false, error: "deadline must be a time in epoch milliseconds." };
+  }
+
+  const parsedQuestion = parseExamQuestion(question);
+  if (!parsedQuestion?.text) return { ok: false, error: "question needs some text." };
+  const questionError = checkQuestion(parsedQuestion);
+  if (questionError) return { ok: false, error: questionError };
+
+  return { ok: true, input: { title: title.trim(), question: parsedQuestion, taskMode, deadline } };
+}
+
+// What the teacher decided about one AI correction. Undecided corrections stand.
+export type CorrectionDecision =
+  | { status: "accepted" }
+  | { status: "rejected" }
+  | { status: "edited"; replacement: string; explanation: string };
+
+export interface TeacherReview {
+  // Criterion bands the teacher changed; the overall band is recomputed from them.
+  bands: Partial<Record<CriterionKey, number>>;
+  // By index into the analysis's corrections.
+  corrections: Record<number, CorrectionDecision>;
+  criterionComments: Partial<Record<CriterionKey, string>>;
+  comment: string;
+  // Students only see a returned review.
+  status: "draft" | "returned";
+  reviewerId: string;
+  updatedAt: number;
+}
+
+export interface Submission {
+  id: string;
+  assignmentId: string;
+  studentId: string;
+  essay: string;
+  submittedAt: number;
+  late: boolean;
+  // Null when the analysis failed; see `analysisError`.
+  analysis: FeedbackData | null;
+  analysisError?: string;
+  review?: TeacherReview;
+}
+
+// A class as listed on the dashboard.
+export interface ClassroomSummary {
+  classroom: Classroom;
+  teacher: Account;
+  assignments: number;
+}
+
+// An assignment with how far the viewer (or, for a teacher, the class) has got with it.
+export interface AssignmentSummary {
+  assignment: Assignment;
+  // For a teacher: every submission so far. For a student: their own, if any.
+  submissions: number;
+  returned: number;
+}
+
+export interface ClassroomDetail {
+  classroom: Classroom;
+  teacher: Account;
+  // Empty for students.
+  students: Account[];
+  assignments: AssignmentSummary[];
+}
+
+export interface AssignmentDetail {
+  assignment: Assignment;
+  classroom: Classroom;
+  // For a teacher every submission with its student; for a student only their own.
+  submissions: { submission: Submission; student: Account }[];
+  // Students in the class who have not submitted (teachers only).
+  missing: Account[];
+}
+
+export interface SubmissionDetail {
+  submission: Submission;
+  assignment: Assignment;
+  student: Account;
+}
+
+export type SubmissionStatus = "analysis_failed" | "awaiting_review" | "draft_review" | "returned";
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  analysis_failed: "Analysis failed",
+  awaiting_review: "Awaiting review",
+  draft_review: "Review in progress",
+  returned: "Returned",
+};
+
+export function submissionStatus(submission: Submission): SubmissionStatus {
+  if (submission.review?.status === "returned") return "returned";
+  if (submission.review) return "draft_review";
+  return submission.analysis ? "awaiting_review" : "analysis_failed";
+}
+
+export const emptyReview = (reviewerId: string): TeacherReview => ({
+  bands: {},
+  corrections: {},
+  criterionComments: {},
+  comment: "",
+  status: "draft",
+  reviewerId,
+  updatedAt: Date.now(),
+});
+
+// A correction as the student sees it after review.
+export interface ReviewedCorrection extends Correction {
+  editedByTeacher?: boolean;
+}
+
+/**
+ * The analysis with the teacher's review applied: overridden bands (and the
+ * overall band recomputed from them), rejected corrections removed and
+ * edited ones replaced.
+ */
+export function mergeReview(analysis: FeedbackData, review?: TeacherReview): Omit<FeedbackData, "corrections"> & { corrections: ReviewedCorrection[] } {
+  if (!review) return analysis;
+  const feedback = Object.fromEntries(
+    CRITERIA.map((key) => {
+      const band = review.bands[key] === undefined ? undefined : toCriterionBand(review.bands[key]);
+      return [key, band === undefined ? analysis.feedback[key] : { ...analysis.feedback[key], band }];
+    }),
+  ) as FeedbackData["feedback"];
+
+  const corrections = analysis.corrections.flatMap((correction, index): ReviewedCorrection[] => {
+    const decision = review.corrections[index];
+    if (decision?.status === "rejected") return [];
+    if (decision?.status === "edited") {
+      return [{ ...correction, replacement: decision.replacement, explanation: decision.explanation, editedByTeacher: true }];
+    }
+    return [correction];
+  });
+
+  return { ...analysis, feedback, band_score: bandScoreOf(feedback), corrections };
+}
+
+export const isPastDeadline = (assignment: Assignment, now = Date.now()) => now > assignment.deadline;
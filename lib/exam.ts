@@ -0,0 +1,45 @@
+// Timed exam simulation. Task 1 gets 20 minutes and Task 2 gets 40, as in
+// the real test; the full test gives 60 minutes for both, with a reminder
+// when it is time to move from Task 1 to Task 2.
+
+export type ExamKind = "task1" | "task2" | "full";
+
+export interface ExamWarning {
+  // Fires when this many minutes remain.
+  remainingMinutes: number;
+  message: string;
+}
+
+export interface ExamPlan {
+  kind: ExamKind;
+  label: string;
+  minutes: number;
+  warnings: ExamWarning[];
+}
+
+const closingWarnings = (minutes: number[]): ExamWarning[] =>
+  minutes.map((m) => ({
+    remainingMinutes: m,
+    message: m === 1 ? "1 minute left. Finish your final sentence." : `${m} minutes left. Start checking your work.`,
+  }));
+
+export const EXAM_PLANS: Record<ExamKind, ExamPlan> = {
+  task1: { kind: "task1", label: "Task 1 (20 min)", minutes: 20, warnings: closingWarnings([5, 1]) },
+  task2: { kind: "task2", label: "Task 2 (40 min)", minutes: 40, warnings: closingWarnings([10, 5, 1]) },
+  full: {
+    kind: "full",
+    label: "Full test (60 min)",
+    minutes: 60,
+    warnings: [
+      { remainingMinutes: 40, message: "20 minutes used. You should be moving on to Task 2." },
+      ...closingWarnings([10, 5, 1]),
+    ],
+  },
+};
+
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
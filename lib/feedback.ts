@@ -0,0 +1,481 @@
+import { overallBand, toCriterionBand } from "@/lib/bands";
+import { INJECTION_LABELS, type InjectionFlag } from "@/lib/injection";
+import type { AnalysisUsage } from "@/lib/usage";
+import type { WordCount } from "@/lib/word-count";
+import { createAnchorLocator, parseAnchor, type TextAnchor } from "@/lib/anchors";
+
+// Shared contract for the /api/analyze response.
+// The route validates every model reply with `validateFeedback` and the page
+// runs the same check on whatever it receives, so neither side ever has to
+// trust that a field exists.
+
+export interface Correction {
+  original: string;
+  replacement: string;
+  type: string;
+  explanation: string;
+  // Where `original` is in the analysed essay.
+  anchor?: TextAnchor;
+  // Set when the correction came from the offline checker (lib/checker) rather than the model.
+  source?: "local";
+}
+
+export interface PrioritizedSuggestion {
+  priority: "high" | "medium" | "low";
+  issue: string;
+  suggestion: string;
+  example_fix?: string;
+  apply_to_text?: string | null;
+  replacement_text?: string | null;
+  category: string;
+  // Where `apply_to_text` is in the analysed essay.
+  anchor?: TextAnchor;
+}
+
+export interface VocabularyEnrichment {
+  word: string;
+  phonetic: string;
+  type: string;
+  definition: string;
+  example_sentence: string;
+  context_in_essay: string;
+  target_text?: string | null;
+  replacement_text?: string | null;
+  // Where `target_text` is in the analysed essay.
+  anchor?: TextAnchor;
+}
+
+export interface Tip {
+  tip: string;
+  example_implementation?: string;
+  apply_to_text?: string | null;
+  replacement_text?: string | null;
+  // Where `apply_to_text` is in the analysed essay.
+  anchor?: TextAnchor;
+}
+
+// Result of one item on the task mode's checklist (see lib/tasks.ts),
+// e.g. "Overview present" for Academic Task 1.
+export interface TaskCheck {
+  id: string;
+  label: string;
+  status: "met" | "partial" | "missing";
+  comment: string;
+}
+
+// How well one part of the exam question was answered. Only produced when
+// the question was supplied with the essay.
+export interface QuestionCoverage {
+  part: string;
+  status: "addressed" | "partial" | "missed";
+  comment: string;
+}
+
+export interface FeedbackDetail {
+  // Whole band from 0 to 9 for this criterion.
+  band: number;
+  // Why this band was awarded, in the wording of the public band descriptors.
+  justification: string;
+  summary: string;
+  tips: Tip[];
+}
+
+export interface FeedbackData {
+  // Overall band, computed from the criterion bands rather than taken from the model.
+  band_score: number;
+  prioritized_suggestions: PrioritizedSuggestion[];
+  enrichment?: VocabularyEnrichment[];
+  feedback: {
+    task_achievement: FeedbackDetail;
+    coherence_cohesion: FeedbackDetail;
+    lexical_resource: FeedbackDetail;
+    grammatical_range_accuracy: FeedbackDetail;
+  };
+  task_checks: TaskCheck[];
+  question_coverage: QuestionCoverage[];
+  corrections: Correction[];
+  general_comment: string;
+  // Counted by the server with IELTS rules (lib/word-count.ts), not by the model.
+  word_count?: WordCount;
+  // The data/prompts version that produced the analysis; absent before prompts were versioned.
+  prompt_version?: string;
+  // Passages that try to instruct the examiner (lib/injection.ts), found by the server.
+  injection_flags?: InjectionFlag[];
+  // Tokens, time and estimated cost of producing this result (lib/usage.ts).
+  usage?: AnalysisUsage;
+}
+
+export type CriterionKey = keyof FeedbackData["feedback"];
+
+export const CRITERIA: CriterionKey[] = [
+  "task_achievement",
+  "coherence_cohesion",
+  "lexical_resource",
+  "grammatical_range_accuracy",
+];
+
+const PRIORITIES = ["high", "medium", "low"] as const;
+const CHECK_STATUSES = ["met", "partial", "missing"] as const;
+const COVERAGE_STATUSES = ["addressed", "partial", "missed"] as const;
+
+// A problem the validator could not repair on its own. `path` uses dotted
+// notation (e.g. "feedback.lexical_resource.summary") so it can be echoed
+// back to the model in a corrective prompt and to the client in a 502.
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  data: FeedbackData;
+  issues: SchemaIssue[];
+  // Paths of items removed because they were malformed or pointed at text
+  // that is not in the essay. These are not fatal.
+  dropped: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+const asNullableString = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+const asNumber = (value: unknown): number | undefined => {
+  const num = typeof value === "string" ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) ? num : undefined;
+};
+
+// Anchors an item's quoted text. With the essay (on the server) an anchor
+// that still points at the text is kept (the offline checker anchors its own
+// corrections), otherwise the text is located afresh and `false` means it is
+// not in the essay, so the item is dropped; without it (re-validating on the
+// client) the item's own anchor is read back.
+type Anchorer = (text: string | null, item: Json) => TextAnchor | undefined | false;
+
+const anchorerFor = (essay?: string): Anchorer => {
+  if (essay === undefined) return (text, item) => (text ? parseAnchor(item.anchor) : undefined);
+  const locate = createAnchorLocator(essay);
+  return (text, item) => {
+    if (!text) return undefined;
+    const own = parseAnchor(item.anchor);
+    if (own && essay.slice(own.start, own.end) === text) return own;
+    return locate(text) ?? false;
+  };
+};
+
+function validateList<T>(
+  raw: unknown,
+  path: string,
+  dropped: string[],
+  parseItem: (item: Json) => T | null,
+): T[] {
+  if (!Array.isArray(raw)) return [];
+  const items: T[] = [];
+  raw.forEach((item, index) => {
+    const parsed = isObject(item) ? parseItem(item) : null;
+    if (parsed) items.push(parsed);
+    else dropped.push(`${path}[${index}]`);
+  });
+  return items;
+}
+
+function parseCorrection(item: Json, anchorFor: Anchorer): Correction | null {
+  const original = asString(item.original);
+  const replacement = typeof item.replacement === "string" ? item.replacement : undefined;
+  if (!original || replacement === undefined) return null;
+  const anchor = anchorFor(original, item);
+  if (anchor === false) return null;
+  return {
+    original,
+    replacement,
+    type: asString(item.type) ?? "grammar",
+    explanation: asString(item.explanation) ?? "",
+    anchor,
+    ...(item.source === "local" && { source: "local" as const }),
+  };
+}
+
+function parseSuggestion(item: Json, anchorFor: Anchorer): PrioritizedSuggestion | null {
+  const issue = asString(item.issue);
+  const suggestion = asString(item.suggestion);
+  if (!issue || !suggestion) return null;
+  const applyTo = asNullableString(item.apply_to_text);
+  const anchor = anchorFor(applyTo, item);
+  if (anchor === false) return null;
+  const priority = PRIORITIES.find((p) => p === item.priority) ?? "medium";
+  return {
+    priority,
+    issue,
+    suggestion,
+    example_fix: asString(item.example_fix),
+    apply_to_text: applyTo,
+    replacement_text: applyTo ? asNullableString(item.replacement_text) : null,
+    category: asString(item.category) ?? "General",
+    anchor,
+  };
+}
+
+function parseEnrichment(item: Json, anchorFor: Anchorer): VocabularyEnrichment | null {
+  const word = asString(item.word);
+  if (!word) return null;
+  const target = asNullableString(item.target_text);
+  const anchor = anchorFor(target, item);
+  if (anchor === false) return null;
+  return {
+    word,
+    phonetic: asString(item.phonetic) ?? "",
+    type: asString(item.type) ?? "phrase",
+    definition: asString(item.definition) ?? "",
+    example_sentence: asString(item.example_sentence) ?? "",
+    context_in_essay: asString(item.context_in_essay) ?? "",
+    target_text: target,
+    replacement_text: target ? asNullableString(item.replacement_text) : null,
+    anchor,
+  };
+}
+
+function parseTip(item: Json, anchorFor: Anchorer): Tip | null {
+  const tip = asString(item.tip);
+  if (!tip) return null;
+  const applyTo = asNullableString(item.apply_to_text);
+  const anchor = anchorFor(applyTo, item);
+  if (anchor === false) return null;
+  return {
+    tip,
+    example_implementation: asString(item.example_implementation),
+    apply_to_text: applyTo,
+    replacement_text: applyTo ? asNullableString(item.replacement_text) : null,
+    anchor,
+  };
+}
+
+function parseTaskCheck(item: Json): TaskCheck | null {
+  const id = asString(item.id);
+  const status = CHECK_STATUSES.find((s) => s === item.status);
+  if (!id || !status) return null;
+  return {
+    id,
+    label: asString(item.label) ?? id,
+    status,
+    comment: asString(item.comment) ?? "",
+  };
+}
+
+function parseCoverage(item: Json): QuestionCoverage | null {
+  const part = asString(item.part);
+  const status = COVERAGE_STATUSES.find((s) => s === item.status);
+  if (!part || !status) return null;
+  return { part, status, comment: asString(item.comment) ?? "" };
+}
+
+function parseWordCount(raw: unknown): WordCount | undefined {
+  if (!isObject(raw)) return undefined;
+  const count = asNumber(raw.count);
+  const minimum = asNumber(raw.minimum);
+  if (count === undefined || minimum === undefined) return undefined;
+  return { count, minimum, under_length: count < minimum };
+}
+
+function parseInjectionFlags(raw: unknown): InjectionFlag[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter(isObject).flatMap((item) => {
+    const kind = Object.keys(INJECTION_LABELS).find((k) => k === item.kind) as InjectionFlag["kind"] | undefined;
+    const source = item.source === "essay" || item.source === "question" ? item.source : undefined;
+    const text = asString(item.text);
+    return kind && source && text ? [{ kind, source, text }] : [];
+  });
+}
+
+function parseUsage(raw: unknown): AnalysisUsage | undefined {
+  if (!isObject(raw)) return undefined;
+  const provider = asString(raw.provider);
+  const model = asString(raw.model);
+  const counts = [raw.prompt_tokens, raw.completion_tokens, raw.latency_ms, raw.attempts].map(asNumber);
+  if (!provider || !model || counts.some((count) => count === undefined) || (raw.cache !== "hit" && raw.cache !== "miss")) return undefined;
+  const [prompt_tokens, completion_tokens, latency_ms, attempts] = counts as number[];
+  return {
+    provider,
+    model,
+    prompt_tokens,
+    completion_tokens,
+    ...(raw.tokens_estimated === true && { tokens_estimated: true }),
+    latency_ms,
+    cost_usd: asNumber(raw.cost_usd) ?? null,
+    attempts,
+    cache: raw.cache,
+  };
+}
+
+function parseCriterion(detail: Json, essay: string | undefined, path: string, dropped: string[]) {
+  const anchorFor = anchorerFor(essay);
+  const band = asNumber(detail.band);
+  return {
+    band: band === undefined ? undefined : toCriterionBand(band),
+    justification: asString(detail.justification) ?? "",
+    summary: asString(detail.summary),
+    tips: validateList(detail.tips, `${path}.tips`, dropped, (item) => parseTip(item, anchorFor)),
+  };
+}
+
+export const bandScoreOf = (feedback: FeedbackData["feedback"]) => overallBand(CRITERIA.map((key) => feedback[key].band));
+
+/**
+ * Checks an untrusted value against the FeedbackData contract.
+ * Optional fields and lists are filled with safe defaults, malformed or
+ * unanchored list items are dropped, and anything that cannot be defaulted
+ * (the score, a criterion summary) is reported in `issues`.
+ */
+export function validateFeedback(raw: unknown, essay?: string): ValidationResult {
+  const issues: SchemaIssue[] = [];
+  const dropped: string[] = [];
+  const root: Json = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    issues.push({ path: "$", message: "expected a JSON object" });
+  }
+
+  const rawFeedback: Json = isObject(root.feedback) ? root.feedback : {};
+  if (!isObject(root.feedback)) {
+    issues.push({ path: "feedback", message: "expected an object with one entry per criterion" });
+  }
+
+  const feedback = {} as FeedbackData["feedback"];
+  for (const key of CRITERIA) {
+    const detail: Json = isObject(rawFeedback[key]) ? rawFeedback[key] : {};
+    const { band, justification, summary, tips } = parseCriterion(detail, essay, `feedback.${key}`, dropped);
+    if (isObject(root.feedback) && band === undefined) {
+      issues.push({ path: `feedback.${key}.band`, message: "expected a whole band from 0 to 9" });
+    }
+    if (isObject(root.feedback) && !summary) {
+      issues.push({ path: `feedback.${key}.summary`, message: "expected a non-empty string" });
+    }
+    feedback[key] = { band: band ?? 0, justification, summary: summary ?? "", tips };
+  }
+
+  // Each list anchors its repeated quotes to successive occurrences independently
+  const [suggestionAnchors, enrichmentAnchors, correctionAnchors] = [anchorerFor(essay), anchorerFor(essay), anchorerFor(essay)];
+  const data: FeedbackData = {
+    band_score: bandScoreOf(feedback),
+    prioritized_suggestions: validateList(root.prioritized_suggestions, "prioritized_suggestions", dropped, (item) =>
+      parseSuggestion(item, suggestionAnchors),
+    ),
+    enrichment: validateList(root.enrichment, "enrichment", dropped, (item) => parseEnrichment(item, enrichmentAnchors)),
+    feedback,
+    task_checks: validateList(root.task_checks, "task_checks", dropped, parseTaskCheck),
+    question_coverage: validateList(root.question_coverage, "question_coverage", dropped, parseCoverage),
+    corrections: validateList(root.corrections, "corrections", dropped, (item) => parseCorrection(item, correctionAnchors)),
+    general_comment: asString(root.general_comment) ?? "",
+    word_count: parseWordCount(root.word_count),
+    prompt_version: asString(root.prompt_version),
+    injection_flags: parseInjectionFlags(root.injection_flags),
+    usage: parseUsage(root.usage),
+  };
+
+  return { data, issues, dropped };
+}
+
+// One independently renderable part of the analysis, as streamed by
+// /api/analyze. Criteria arrive one at a time rather than as a whole, and
+// `band_score` is sent by the server once all four criterion bands are in;
+// `word_count` and `injection_flags` are sent before the model starts.
+export type FeedbackSection =
+  | { key: "band_score"; value: number }
+  | { key: "word_count"; value: WordCount }
+  | { key: "injection_flags"; value: InjectionFlag[] }
+  | { key: "prioritized_suggestions"; value: PrioritizedSuggestion[] }
+  | { key: "corrections"; value: Correction[] }
+  | { key: "enrichment"; value: VocabularyEnrichment[] }
+  | { key: "feedback"; criterion: CriterionKey; value: FeedbackDetail }
+  | { key: "task_checks"; value: TaskCheck[] }
+  | { key: "question_coverage"; value: QuestionCoverage[] }
+  | { key: "general_comment"; value: string };
+
+// Analysis built up section by section while a stream is in flight.
+export type PartialFeedback = Partial<Omit<FeedbackData, "feedback">> & {
+  feedback?: Partial<FeedbackData["feedback"]>;
+};
+
+/**
+ * Validates a single top-level value (or a single criterion under
+ * `feedback`) from a partially received reply. Returns null when the value
+ * is not a section or cannot be used as-is.
+ */
+export function validateSection(path: string[], raw: unknown, essay?: string): FeedbackSection | null {
+  const ignored: string[] = [];
+  const [key, criterion] = path;
+
+  if (path.length === 2 && key === "feedback") {
+    const match = CRITERIA.find((c) => c === criterion);
+    if (!match || !isObject(raw)) return null;
+    const { band, justification, summary, tips } = parseCriterion(raw, essay, "", ignored);
+    if (band === undefined || !summary) return null;
+    return { key, criterion: match, value: { band, justification, summary, tips } };
+  }
+  if (path.length !== 1) return null;
+  const anchorFor = anchorerFor(essay);
+
+  switch (key) {
+    case "prioritized_suggestions":
+      return Array.isArray(raw) ? { key, value: validateList(raw, "", ignored, (item) => parseSuggestion(item, anchorFor)) } : null;
+    case "corrections":
+      return Array.isArray(raw) ? { key, value: validateList(raw, "", ignored, (item) => parseCorrection(item, anchorFor)) } : null;
+    case "enrichment":
+      return Array.isArray(raw) ? { key, value: validateList(raw, "", ignored, (item) => parseEnrichment(item, anchorFor)) } : null;
+    case "task_checks":
+      return Array.isArray(raw) ? { key, value: validateList(raw, "", ignored, parseTaskCheck) } : null;
+    case "question_coverage":
+      return Array.isArray(raw) ? { key, value: validateList(raw, "", ignored, parseCoverage) } : null;
+    case "general_comment": {
+      const comment = asString(raw);
+      return comment ? { key, value: comment } : null;
+    }
+    case "word_count": {
+      const count = parseWordCount(raw);
+      return count ? { key, value: count } : null;
+    }
+    case "injection_flags": {
+      const flags = parseInjectionFlags(raw);
+      return flags ? { key, value: flags } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function hasSection(partial: PartialFeedback, section: FeedbackSection): boolean {
+  return section.key === "feedback" ? !!partial.feedback?.[section.criterion] : partial[section.key] !== undefined;
+}
+
+export function mergeSection(partial: PartialFeedback, section: FeedbackSection): PartialFeedback {
+  if (section.key === "feedback") {
+    return { ...partial, feedback: { ...partial.feedback, [section.criterion]: section.value } };
+  }
+  return { ...partial, [section.key]: section.value };
+}
+
+// Body of the 502 returned when the model never produced a usable reply.
+export interface AnalyzeErrorBody {
+  error: string;
+  fields?: string[];
+  issues?: SchemaIssue[];
+  // The model could not be used at all, so only the offline checks ran.
+  degraded?: boolean;
+  // Those offline results (word count and corrections) in a non-streaming
+  // response; a stream sends them as sections instead.
+  partial?: PartialFeedback;
+  // Seconds until a rate-limited client may try again (429 only; also sent
+  // as the Retry-After header).
+  retryAfter?: number;
+}
+
+// One line of the NDJSON stream returned to clients that send
+// `Accept: application/x-ndjson`. `done` carries the fully validated result;
+// `error` never invalidates sections that were already sent.
+export type AnalyzeStreamEvent =
+  | { type: "section"; section: FeedbackSection }
+  | { type: "done"; data: FeedbackData }
+  | ({ type: "error" } & AnalyzeErrorBody);
@@ -0,0 +1,51 @@
+// A scan for text in an essay or question that tries to instruct the examiner
+// instead of being assessed by it. The prompt builders and the feedback
+// validator both depend on it, so it imports nothing but the question type.
+
+import type { ExamQuestion } from "@/lib/question";
+
+export type InjectionKind = "override" | "score_request" | "role_play" | "prompt_leak" | "markup" | "json_output";
+
+export const INJECTION_LABELS: Record<InjectionKind, string> = {
+  override: "tells the examiner to ignore its instructions",
+  score_request: "asks for a particular score",
+  role_play: "addresses the examiner or AI directly",
+  prompt_leak: "asks for the examiner's instructions",
+  markup: "contains chat or prompt markup",
+  json_output: "contains examiner output in JSON",
+};
+
+// Text that is addressed to the examiner rather than part of the answer.
+export interface InjectionFlag {
+  kind: InjectionKind;
+  source: "essay" | "question";
+  // The matching passage, as written.
+  text: string;
+}
+
+// Narrow on purpose: essays and letters legitimately talk about rules, scores
+// and instructions, and address their reader as "you".
+const INJECTION_PATTERNS: [InjectionKind, RegExp][] = [
+  ["override", /\b(?:ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}?\b(?:previous|prior|above|earlier|all|any|your|these|system)\b[^.\n]{0,20}?\b(?:instructions|prompts?|directions)\b/gi],
+  ["score_request", /\b(?:give|award|assign|grade|rate|mark|score)\b[^.\n]{0,40}?(?:\bband\s*(?:score\s*)?(?:of\s*)?(?:9(?:\.0)?|nine|8\.5)\b|\bfull marks\b)/gi],
+  ["role_play", /\b(?:you are now (?:an?|the|in) (?:\w+ )?(?:mode|examiner|assistant|ai|model)\b|pretend (?:that )?you are|as an? (?:ai|language model)\b|(?:dear|note to the|attention,?) (?:examiner|grader|marker|assessor)\b)/gi],
+  ["prompt_leak", /\b(?:reveal|print|repeat|show|output|tell me)\b[^.\n]{0,30}?\b(?:your (?:system )?|the system )(?:prompt|instructions)\b/gi],
+  ["markup", /<\/?(?:system|assistant|user|essay|question|visual|instructions?)>|\[\/?(?:INST|SYS)\]|<\|im_(?:start|end)\|>|^#{2,}\s*(?:system|instructions?)\b/gim],
+  ["json_output", /[{,]\s*"(?:band|band_score|feedback|overall)"\s*:/gi],
+];
+
+/** Finds passages in the essay or question that read as instructions to the examiner. */
+export function detectInjection(essay: string, question?: ExamQuestion): InjectionFlag[] {
+  const sources: [InjectionFlag["source"], string][] = [["essay", essay]];
+  if (question?.text) sources.push(["question", question.text]);
+
+  const flags: InjectionFlag[] = [];
+  for (const [source, text] of sources) {
+    for (const [kind, pattern] of INJECTION_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        if (!flags.some((flag) => flag.source === source && flag.text === match[0])) flags.push({ kind, source, text: match[0] });
+      }
+    }
+  }
+  return flags;
+}
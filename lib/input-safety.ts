@@ -0,0 +1,120 @@
+// Checks on what a client sends to the model routes, before any of it reaches a
+// prompt: size and type limits, bounded body reading, and fencing of candidate
+// text. The scan for text addressed to the examiner is in lib/injection.ts.
+
+import type { AnalyzeInput } from "@/lib/analyze";
+import { parseExamQuestion, type ExamQuestion } from "@/lib/question";
+import { DEFAULT_TASK_MODE, isTaskModeId, type TaskType } from "@/lib/tasks";
+
+export const INPUT_LIMITS = {
+  // The whole JSON body, in bytes.
+  bodyBytes: 64 * 1024,
+  // About 2,000 words; an exam answer is a fraction of that.
+  essayChars: 12_000,
+  questionChars: 2_000,
+  visualItems: 40,
+  visualColumns: 12,
+  visualTextChars: 200,
+  // A tutor request carries the analysis and recent conversation as well as the essay.
+  tutorBodyBytes: 256 * 1024,
+  tutorMessageChars: 4_000,
+  assignmentTitleChars: 100,
+};
+
+const TASK_TYPES: TaskType[] = ["Task 1", "Task 2"];
+
+export type ParsedAnalyzeRequest = { ok: true; input: AnalyzeInput } | { ok: false; error: string };
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** The error for a field longer than its limit in `INPUT_LIMITS`. */
+export const tooLong = (field: string, length: number, limit: number) =>
+  `${field} is ${length.toLocaleString("en")} characters long; the limit is ${limit.toLocaleString("en")}.`;
+
+/** Checks a parsed question against `INPUT_LIMITS`, returning the first error or null. */
+export function checkQuestion(question: ExamQuestion): string | null {
+  if (question.text.length > INPUT_LIMITS.questionChars) return tooLong("question", question.text.length, INPUT_LIMITS.questionChars);
+
+  const visual = question.visual;
+  if (!visual) return null;
+  const items = visual.kind === "table" ? visual.rows : visual.steps;
+  if (items.length > INPUT_LIMITS.visualItems) return `question.visual has ${items.length} rows or steps; the limit is ${INPUT_LIMITS.visualItems}.`;
+  if (visual.kind === "table" && visual.rows.some((row) => row.values.length > INPUT_LIMITS.visualColumns)) {
+    return `question.visual has more than ${INPUT_LIMITS.visualColumns} columns.`;
+  }
+  const texts =
+    visual.kind === "table"
+      ? [visual.title, visual.unit, ...visual.columns, ...visual.rows.flatMap((row) => [row.label, ...row.values])]
+      : [visual.title, ...visual.steps];
+  if (texts.some((text) => (text?.length ?? 0) > INPUT_LIMITS.visualTextChars)) {
+    return `Each title, label, value or step in question.visual is limited to ${INPUT_LIMITS.visualTextChars} characters.`;
+  }
+  return null;
+}
+
+/**
+ * Validates a decoded /api/analyze body. `taskMode` wins over the older
+ * `taskType` field; with neither, the request is for Task 2. Unknown values
+ * are rejected rather than silently replaced with the default.
+ */
+export function parseAnalyzeRequest(body: unknown): ParsedAnalyzeRequest {
+  if (!isObject(body)) return { ok: false, error: "The request body must be a JSON object." };
+  const { essay, taskMode, taskType, question } = body;
+
+  if (typeof essay !== "string") return { ok: false, error: "essay must be a string." };
+  if (!essay.trim()) return { ok: false, error: "Essay content is required" };
+  if (essay.length > INPUT_LIMITS.essayChars) return { ok: false, error: tooLong("essay", essay.length, INPUT_LIMITS.essayChars) };
+
+  if (taskMode !== undefined && !isTaskModeId(taskMode)) return { ok: false, error: `Unknown taskMode "${String(taskMode)}".` };
+  if (taskType !== undefined && !TASK_TYPES.includes(taskType as TaskType)) {
+    return { ok: false, error: `Unknown taskType "${String(taskType)}". Expected "Task 1" or "Task 2".` };
+  }
+  if (question !== undefined && question !== null && typeof question !== "string" && !isObject(question)) {
+    return { ok: false, error: "question must be a string or an object with text and visual." };
+  }
+
+  const parsedQuestion = parseExamQuestion(question);
+  const questionError = parsedQuestion && checkQuestion(parsedQuestion);
+  if (questionError) return { ok: false, error: questionError };
+
+  return {
+    ok: true,
+    input: {
+      essay,
+      // `taskType` is the pre-sub-mode field; "Task 1" on its own means an Academic line graph.
+      taskMode: isTaskModeId(taskMode) ? taskMode : taskType === "Task 1" ? "task1-academic-line" : DEFAULT_TASK_MODE,
+      question: parsedQuestion,
+    },
+  };
+}
+
+/**
+ * Reads a request body as text, giving up with null once it passes
+ * `maxBytes` so an oversized upload is never buffered whole.
+ */
+export async function readBodyText(req: Request, maxBytes = INPUT_LIMITS.bodyBytes): Promise<string | null> {
+  if (Number(req.headers.get("content-length")) > maxBytes) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let size = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return text + decoder.decode();
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+// Candidate text goes to the model between <essay>, <question> and <visual>
+// tags, so it must not be able to close them early or open new ones.
+export const fenceText = (text: string) => text.replace(/<(\/?)(essay|question|visual)\b/gi, "‹$1$2");
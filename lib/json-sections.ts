@@ -0,0 +1,107 @@
+// Incremental scanner for a JSON object that arrives in chunks.
+// It reports each object member as soon as its value is complete, together
+// with the path of object keys leading to it, so callers can act on
+// `band_score` long before the closing brace of the whole reply arrives.
+// Members inside arrays are not reported individually.
+
+interface Frame {
+  kind: "object" | "array";
+  key?: string;
+  expectingKey: boolean;
+  valueStart?: number;
+}
+
+export type SectionHandler = (path: string[], value: unknown) => void;
+
+export function createSectionParser(onMember: SectionHandler) {
+  let buffer = "";
+  let position = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  const stack: Frame[] = [];
+
+  const top = () => stack[stack.length - 1];
+
+  const startValue = (index: number) => {
+    const frame = top();
+    if (frame?.kind === "object" && !frame.expectingKey && frame.valueStart === undefined) {
+      frame.valueStart = index;
+    }
+  };
+
+  const finishMember = (end: number) => {
+    const frame = top();
+    if (frame.kind !== "object" || frame.valueStart === undefined || frame.key === undefined) return;
+    const path = stack.map((f) => f.key);
+    if (stack.every((f) => f.kind === "object")) {
+      try {
+        onMember(path as string[], JSON.parse(buffer.slice(frame.valueStart, end)));
+      } catch {
+        // A value that does not parse is simply not reported; the caller
+        // validates the complete reply afterwards.
+      }
+    }
+    frame.valueStart = undefined;
+  };
+
+  const step = (char: string, index: number) => {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') {
+        inString = false;
+        const frame = top();
+        if (frame?.kind === "object" && frame.expectingKey) {
+          try {
+            frame.key = JSON.parse(buffer.slice(stringStart, index + 1));
+          } catch {
+            frame.key = undefined;
+          }
+        }
+      }
+      return;
+    }
+
+    // Ignore anything before the root object, e.g. a ```json fence.
+    if (stack.length === 0 && char !== "{") return;
+
+    switch (char) {
+      case '"':
+        startValue(index);
+        inString = true;
+        stringStart = index;
+        return;
+      case "{":
+      case "[":
+        startValue(index);
+        stack.push({ kind: char === "{" ? "object" : "array", expectingKey: char === "{" });
+        return;
+      case "}":
+      case "]":
+        if (char === "}") finishMember(index);
+        stack.pop();
+        return;
+      case ":":
+        if (top().kind === "object") top().expectingKey = false;
+        return;
+      case ",":
+        if (top().kind === "object") {
+          finishMember(index);
+          top().expectingKey = true;
+        }
+        return;
+      default:
+        if (!/\s/.test(char)) startValue(index);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      for (; position < buffer.length; position++) {
+        step(buffer[position], position);
+      }
+    },
+  };
+}
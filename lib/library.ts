@@ -0,0 +1,94 @@
+// Essay library, stored in the browser's IndexedDB (lib/browser-db.ts) so
+// drafts and feedback survive a refresh without a server-side database.
+// Every function here must only be called in the browser.
+
+import { objectStore, settle } from "@/lib/browser-db";
+import type { FeedbackData } from "@/lib/feedback";
+import type { ExamQuestion } from "@/lib/question";
+import type { TaskModeId } from "@/lib/tasks";
+import type { TutorMessage } from "@/lib/tutor";
+
+export interface SavedAnalysis {
+  id: string;
+  // Index into `revisions` of the text that was analysed, or null once that
+  // revision was discarded (undo followed by a new edit).
+  revision: number | null;
+  // The analysed text itself, so the analysis stays readable either way.
+  essay: string;
+  taskMode: TaskModeId;
+  question: ExamQuestion;
+  data: FeedbackData;
+  createdAt: number;
+  // Questions to the tutor about this analysis and its answers, oldest first.
+  conversation?: TutorMessage[];
+}
+
+export interface SavedEssay {
+  id: string;
+  // Empty until the user renames the essay; see `essayTitle`.
+  title: string;
+  taskMode: TaskModeId;
+  question: ExamQuestion;
+  // Undo history of the text, oldest first; `revisionIndex` is the current one.
+  revisions: string[];
+  revisionIndex: number;
+  analyses: SavedAnalysis[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What the editor saves; the title and timestamps are managed here.
+export type EssayDraft = Omit<SavedEssay, "title" | "createdAt" | "updatedAt">;
+
+const essays = (mode: IDBTransactionMode) => objectStore("essays", mode);
+
+export const newId = () => crypto.randomUUID();
+
+export function essayTitle(essay: SavedEssay): string {
+  if (essay.title) return essay.title;
+  const source = essay.question.text || essay.revisions[essay.revisionIndex] || "";
+  const firstLine = source.trim().split("\n")[0];
+  if (!firstLine) return "Untitled essay";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+}
+
+// Most recently edited first.
+export async function listEssays(): Promise<SavedEssay[]> {
+  const all = await settle((await essays("readonly")).getAll() as IDBRequest<SavedEssay[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadEssay(id: string): Promise<SavedEssay | undefined> {
+  return settle((await essays("readonly")).get(id) as IDBRequest<SavedEssay | undefined>);
+}
+
+// Creates the essay or updates it in place, keeping its title and creation time.
+export async function saveEssay(draft: EssayDraft): Promise<SavedEssay> {
+  const store = await essays("readwrite");
+  const existing = await settle(store.get(draft.id) as IDBRequest<SavedEssay | undefined>);
+  const now = Date.now();
+  const essay: SavedEssay = { ...draft, title: existing?.title ?? "", createdAt: existing?.createdAt ?? now, updatedAt: now };
+  await settle(store.put(essay));
+  return essay;
+}
+
+export async function renameEssay(id: string, title: string): Promise<void> {
+  const store = await essays("readwrite");
+  const existing = await settle(store.get(id) as IDBRequest<SavedEssay | undefined>);
+  if (!existing) return;
+  await settle(store.put({ ...existing, title: title.trim(), updatedAt: Date.now() }));
+}
+
+export async function duplicateEssay(id: string): Promise<SavedEssay | undefined> {
+  const store = await essays("readwrite");
+  const existing = await settle(store.get(id) as IDBRequest<SavedEssay | undefined>);
+  if (!existing) return undefined;
+  const now = Date.now();
+  const copy: SavedEssay = { ...existing, id: newId(), title: `Copy of ${essayTitle(existing)}`, createdAt: now, updatedAt: now };
+  await settle(store.put(copy));
+  return copy;
+}
+
+export async function deleteEssay(id: string): Promise<void> {
+  await settle((await essays("readwrite")).delete(id));
+}
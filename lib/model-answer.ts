@@ -0,0 +1,88 @@
+// Shared contract for /api/rewrite: the essay rewritten as a model answer at a
+// target band, aligned with the original paragraph by paragraph and sentence
+// by sentence. Client-safe; the server side is lib/rewrite.ts.
+
+import { shiftAnchor, type TextAnchor, type TextEdit } from "@/lib/anchors";
+import type { CriterionKey } from "@/lib/feedback";
+import { continuesSentence } from "@/lib/text-metrics";
+import type { AnalysisUsage } from "@/lib/usage";
+
+export const TARGET_BANDS = [6, 6.5, 7, 7.5, 8, 8.5, 9];
+
+// A step up from the current band, as far as band 9.
+export const defaultTargetBand = (band?: number) =>
+  TARGET_BANDS.find((target) => band === undefined || target >= band + 1) ?? TARGET_BANDS[TARGET_BANDS.length - 1];
+
+// One significant change in a rewritten sentence and the criterion it improves.
+export interface RewriteChange {
+  criterion: CriterionKey;
+  note: string;
+}
+
+// One or more consecutive sentences of the original and what replaced them.
+export interface AlignedSentence {
+  original: string;
+  // Where `original` is in the essay that was rewritten.
+  anchor: TextAnchor;
+  rewrite: string;
+  changes: RewriteChange[];
+}
+
+export interface AlignedParagraph {
+  sentences: AlignedSentence[];
+}
+
+export interface RewriteResult {
+  target_band: number;
+  paragraphs: AlignedParagraph[];
+  summary: string;
+  prompt_version: string;
+  usage?: AnalysisUsage;
+}
+
+// A sentence of the original essay, numbered for the model as "paragraph.sentence".
+export interface SourceSentence {
+  id: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits an essay into paragraphs (any line break, as in the editor) and
+ * sentences with their offsets, by the same rules as the text metrics.
+ */
+export function segmentEssay(essay: string): SourceSentence[][] {
+  const paragraphs: SourceSentence[][] = [];
+  for (const line of essay.matchAll(/[^\n]+/g)) {
+    const sentences: SourceSentence[] = [];
+    const add = (start: number, end: number) => {
+      const text = essay.slice(start, end);
+      if (!/[\p{L}\p{N}]/u.test(text)) return;
+      const leading = text.length - text.trimStart().length;
+      sentences.push({ id: `${paragraphs.length + 1}.${sentences.length + 1}`, start: start + leading, end: start + text.trimEnd().length });
+    };
+
+    let start = line.index;
+    for (const gap of line[0].matchAll(/(?<=[.!?])\s+/g)) {
+      const end = line.index + gap.index;
+      // A full stop after an abbreviation does not end the sentence
+      if (continuesSentence(essay.slice(start, end), essay.slice(end + gap[0].length))) continue;
+      add(start, end);
+      start = end + gap[0].length;
+    }
+    add(start, line.index + line[0].length);
+    if (sentences.length) paragraphs.push(sentences);
+  }
+  return paragraphs;
+}
+
+// Applies `shiftAnchor` to every sentence of a model answer, as the essay is edited.
+export function shiftRewriteAnchors(result: RewriteResult, edit: TextEdit): RewriteResult {
+  if (edit.start === edit.end && !edit.text) return result;
+  return {
+    ...result,
+    paragraphs: result.paragraphs.map((paragraph) => ({
+      sentences: paragraph.sentences.map((sentence) => ({ ...sentence, anchor: shiftAnchor(sentence.anchor, edit) })),
+    })),
+  };
+}
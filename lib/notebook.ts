@@ -0,0 +1,156 @@
+// Vocabulary notebook: enrichment words the learner chose to keep, merged
+// across essays, with a spaced-repetition schedule (lib/srs.ts) and a record
+// of whether each word turns up in essays written after it was saved. Stored
+// in the browser's IndexedDB next to the essay library.
+
+import { objectStore, settle } from "@/lib/browser-db";
+import type { VocabularyEnrichment } from "@/lib/feedback";
+import type { SavedEssay } from "@/lib/library";
+import { newReviewState, review, type Grade, type ReviewState } from "@/lib/srs";
+
+// Where a word was saved from.
+export interface WordSource {
+  essayId: string;
+  savedAt: number;
+}
+
+export interface NotebookWord {
+  // The normalised word, so the same word saved from two essays is one entry.
+  key: string;
+  word: string;
+  phonetic: string;
+  type: string;
+  definition: string;
+  // Every distinct example sentence the word was saved with.
+  examples: string[];
+  sources: WordSource[];
+  review: ReviewState;
+  createdAt: number;
+}
+
+// A later essay that uses a saved word.
+export interface WordUse {
+  essayId: string;
+  analysisId: string;
+  createdAt: number;
+  // The text as written, e.g. "mitigated" for "mitigate".
+  match: string;
+}
+
+export interface Cloze {
+  before: string;
+  answer: string;
+  after: string;
+}
+
+export const wordKey = (word: string) =>
+  word
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches the word or phrase with common inflections: each word of four or
+// more letters may take a suffix, after dropping a final "e" or "y"
+// ("mitigate" matches "mitigated", "play a role" matches "playing a role").
+export function wordPattern(word: string): RegExp {
+  const parts = wordKey(word)
+    .split(" ")
+    .filter(Boolean)
+    .map((part) => (part.length < 4 ? escapeRegExp(part) : `${escapeRegExp(part.length > 4 ? part.replace(/[ey]$/, "") : part)}\\p{L}*`));
+  return new RegExp(`(?<![\\p{L}\\p{N}])${parts.join("\\s+")}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+/** Blanks out the word in one of its example sentences, or null if none contains it. */
+export function buildCloze(entry: Pick<NotebookWord, "word" | "examples">): Cloze | null {
+  const pattern = wordPattern(entry.word);
+  for (const sentence of entry.examples) {
+    const match = sentence.match(pattern);
+    if (match?.index !== undefined) {
+      return { before: sentence.slice(0, match.index), answer: match[0], after: sentence.slice(match.index + match[0].length) };
+    }
+  }
+  return null;
+}
+
+export const checkCloze = (cloze: Cloze, attempt: string) => wordKey(attempt) === wordKey(cloze.answer);
+
+/**
+ * Analysed essays written after the word was saved that use it. Essays the
+ * word was saved from do not count, since applying the suggested swap there
+ * is not the same as choosing the word unprompted.
+ */
+export function findUses(entry: NotebookWord, essays: SavedEssay[]): WordUse[] {
+  const pattern = wordPattern(entry.word);
+  const fromEssays = new Set(entry.sources.map((source) => source.essayId));
+  return essays
+    .filter((essay) => !fromEssays.has(essay.id))
+    .flatMap((essay) => {
+      // The earliest analysis in each essay that uses the word.
+      const analysis = essay.analyses.find((a) => a.createdAt > entry.createdAt && pattern.test(a.essay));
+      const match = analysis?.essay.match(pattern);
+      return analysis && match ? [{ essayId: essay.id, analysisId: analysis.id, createdAt: analysis.createdAt, match: match[0] }] : [];
+    })
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Soonest due first.
+export const dueWords = (words: NotebookWord[], now = Date.now()) =>
+  words.filter((word) => word.review.due <= now).sort((a, b) => a.review.due - b.review.due);
+
+const vocabulary = (mode: IDBTransactionMode) => objectStore("vocabulary", mode);
+
+// Alphabetical.
+export async function listWords(): Promise<NotebookWord[]> {
+  const all = await settle((await vocabulary("readonly")).getAll() as IDBRequest<NotebookWord[]>);
+  return all.sort((a, b) => a.word.localeCompare(b.word));
+}
+
+/**
+ * Adds an enrichment item to the notebook. A word already there keeps its
+ * review schedule and gains the new example sentence and source.
+ */
+export async function saveWord(item: VocabularyEnrichment, essayId: string): Promise<NotebookWord> {
+  const key = wordKey(item.word);
+  const store = await vocabulary("readwrite");
+  const existing = await settle(store.get(key) as IDBRequest<NotebookWord | undefined>);
+  const now = Date.now();
+  const example = item.example_sentence.trim();
+
+  const entry: NotebookWord = existing
+    ? {
+        ...existing,
+        examples: example && !existing.examples.includes(example) ? [...existing.examples, example] : existing.examples,
+        sources: existing.sources.some((source) => source.essayId === essayId)
+          ? existing.sources
+          : [...existing.sources, { essayId, savedAt: now }],
+      }
+    : {
+        key,
+        word: item.word.trim(),
+        phonetic: item.phonetic,
+        type: item.type,
+        definition: item.definition,
+        examples: example ? [example] : [],
+        sources: [{ essayId, savedAt: now }],
+        review: newReviewState(now),
+        createdAt: now,
+      };
+  await settle(store.put(entry));
+  return entry;
+}
+
+export async function recordReview(key: string, grade: Grade): Promise<NotebookWord | undefined> {
+  const store = await vocabulary("readwrite");
+  const existing = await settle(store.get(key) as IDBRequest<NotebookWord | undefined>);
+  if (!existing) return undefined;
+  const entry = { ...existing, review: review(existing.review, grade) };
+  await settle(store.put(entry));
+  return entry;
+}
+
+export async function deleteWord(key: string): Promise<void> {
+  await settle((await vocabulary("readwrite")).delete(key));
+}
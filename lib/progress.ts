@@ -0,0 +1,149 @@
+// Statistics for the progress dashboard, computed from the essay library.
+// Everything here is pure so it can run on whatever subset the filters leave.
+
+import { CRITERIA, type CriterionKey } from "@/lib/feedback";
+import type { SavedAnalysis, SavedEssay } from "@/lib/library";
+import { getTaskMode, type TaskType, type TaskModeId } from "@/lib/tasks";
+
+// One analysed submission: a single analysis of a single essay revision.
+export interface Submission {
+  essayId: string;
+  analysisId: string;
+  taskMode: TaskModeId;
+  task: TaskType;
+  createdAt: number;
+  band: number;
+  criteria: Record<CriterionKey, number>;
+}
+
+// An analysis together with the essay it belongs to.
+export interface AnalysisEntry {
+  essayId: string;
+  analysis: SavedAnalysis;
+  task: TaskType;
+  createdAt: number;
+}
+
+export interface ProgressFilter {
+  task?: TaskType;
+  // Inclusive bounds, in milliseconds since the epoch.
+  from?: number;
+  to?: number;
+}
+
+export interface Tally {
+  label: string;
+  count: number;
+}
+
+// A correction that keeps coming back, reduced to the words that changed,
+// e.g. "on → in" or "a → (none)".
+export interface RepeatedMistake {
+  change: string;
+  count: number;
+  essays: number;
+  examples: { original: string; replacement: string }[];
+}
+
+const NOTHING = "(none)";
+
+// Oldest first, so the result can be charted as is.
+export function collectSubmissions(essays: SavedEssay[]): Submission[] {
+  return essays
+    .flatMap((essay) =>
+      essay.analyses.map((analysis) => ({
+        essayId: essay.id,
+        analysisId: analysis.id,
+        taskMode: analysis.taskMode,
+        task: getTaskMode(analysis.taskMode).task,
+        createdAt: analysis.createdAt,
+        band: analysis.data.band_score,
+        criteria: Object.fromEntries(CRITERIA.map((key) => [key, analysis.data.feedback[key].band])) as Record<CriterionKey, number>,
+      })),
+    )
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function applyFilter<T extends { task: TaskType; createdAt: number }>(items: T[], filter: ProgressFilter): T[] {
+  return items.filter(
+    (item) =>
+      (!filter.task || item.task === filter.task) &&
+      (filter.from === undefined || item.createdAt >= filter.from) &&
+      (filter.to === undefined || item.createdAt <= filter.to),
+  );
+}
+
+// The analyses of each essay that pass the filter, for counting errors.
+export function filterAnalyses(essays: SavedEssay[], filter: ProgressFilter): AnalysisEntry[] {
+  return essays.flatMap((essay) =>
+    applyFilter(
+      essay.analyses.map((analysis) => ({ essayId: essay.id, analysis, task: getTaskMode(analysis.taskMode).task, createdAt: analysis.createdAt })),
+      filter,
+    ),
+  );
+}
+
+const tally = (labels: string[]): Tally[] => {
+  const counts = new Map<string, number>();
+  labels.forEach((label) => counts.set(label, (counts.get(label) ?? 0) + 1));
+  return [...counts].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count);
+};
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+export function errorTypeCounts(analyses: AnalysisEntry[]) {
+  return {
+    corrections: tally(analyses.flatMap(({ analysis }) => analysis.data.corrections.map((c) => normalizeLabel(c.type)))),
+    suggestions: tally(analyses.flatMap(({ analysis }) => analysis.data.prioritized_suggestions.map((s) => normalizeLabel(s.category)))),
+  };
+}
+
+const words = (text: string) => text.toLowerCase().replace(/[.,;:!?"]/g, "").split(/\s+/).filter(Boolean);
+
+/**
+ * Reduces a correction to the words that actually changed by trimming the
+ * words it shares with its replacement at both ends, so "interested on
+ * technology" → "interested in technology" becomes "on → in".
+ */
+export function describeChange(original: string, replacement: string): string {
+  const before = words(original);
+  const after = words(replacement);
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+  const removed = before.slice(start, before.length - end).join(" ") || NOTHING;
+  const added = after.slice(start, after.length - end).join(" ") || NOTHING;
+  return `${removed} → ${added}`;
+}
+
+// Changes corrected in at least two different essays, most widespread first.
+export function repeatedMistakes(analyses: AnalysisEntry[], limit = 10): RepeatedMistake[] {
+  const byChange = new Map<string, { count: number; essays: Set<string>; examples: RepeatedMistake["examples"] }>();
+
+  for (const { essayId, analysis } of analyses) {
+    for (const correction of analysis.data.corrections) {
+      const change = describeChange(correction.original, correction.replacement);
+      if (change === `${NOTHING} → ${NOTHING}`) continue;
+      const entry = byChange.get(change) ?? { count: 0, essays: new Set(), examples: [] };
+      entry.count++;
+      entry.essays.add(essayId);
+      if (entry.examples.length < 3 && !entry.examples.some((e) => e.original === correction.original)) {
+        entry.examples.push({ original: correction.original, replacement: correction.replacement });
+      }
+      byChange.set(change, entry);
+    }
+  }
+
+  return [...byChange]
+    .filter(([, entry]) => entry.essays.size > 1)
+    .map(([change, entry]) => ({ change, count: entry.count, essays: entry.essays.size, examples: entry.examples }))
+    .sort((a, b) => b.essays - a.essays || b.count - a.count)
+    .slice(0, limit);
+}
@@ -0,0 +1,168 @@
+// Versioned examiner prompts, read from data/prompts/<version>/ at run time so
+// they can be tuned without a code change:
+//
+//   analysis.md     the analysis prompt (see lib/template.ts for the syntax)
+//   submission.md   optional: the candidate's question and essay, sent as a
+//                   separate user message after analysis.md as the system
+//                   message; without it analysis.md carries them itself
+//   corrective.md   the follow-up sent when a reply fails validation
+//   rewrite.md      optional: instructions for a model answer at a target
+//                   band (lib/rewrite.ts), sent with submission.md
+//   tutor.md        optional: instructions for the follow-up tutor
+//                   (lib/tutor-reply.ts), sent with submission.md
+//   rubric.json     criteria with band descriptors, counts such as the number
+//                   of enrichment items, and the JSON output format
+//
+// Never edit a version that has been used for real analyses: copy it to a new
+// directory instead, so saved results can tell which prompt produced them.
+
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { CRITERIA, type CriterionKey } from "@/lib/feedback";
+import type { TaskType } from "@/lib/tasks";
+import { renderTemplate, TemplateError } from "@/lib/template";
+
+export const DEFAULT_PROMPT_VERSION = "v2";
+
+const PROMPTS_DIR = path.join(process.cwd(), "data", "prompts");
+const VERSION_NAME = /^\w[\w.-]*$/;
+
+export class PromptConfigError extends Error {}
+
+export interface BandDescriptor {
+  band: number;
+  text: string;
+}
+
+export interface RubricCriterion {
+  key: CriterionKey;
+  // By task where the criterion differs (Task Achievement vs Task Response), otherwise "all".
+  descriptors: Partial<Record<TaskType | "all", BandDescriptor[]>>;
+}
+
+export interface Rubric {
+  description?: string;
+  criteria: RubricCriterion[];
+  // Numbers quoted in the instructions, e.g. counts.enrichment.min.
+  counts: Record<string, unknown>;
+  // The JSON contract shown to the model, field values describing their types.
+  output_format: Record<string, unknown>;
+}
+
+export interface PromptSet {
+  version: string;
+  analysis: string;
+  submission?: string;
+  corrective: string;
+  rewrite?: string;
+  tutor?: string;
+  rubric: Rubric;
+}
+
+function readRubric(file: string): Rubric {
+  const rubric = JSON.parse(readFileSync(file, "utf8")) as Rubric;
+  const missing = CRITERIA.filter((key) => !rubric.criteria?.some((criterion) => criterion.key === key));
+  if (missing.length) throw new PromptConfigError(`${file} has no descriptors for ${missing.join(", ")}.`);
+  if (!rubric.counts || !rubric.output_format) throw new PromptConfigError(`${file} needs "counts" and "output_format".`);
+  return rubric;
+}
+
+const readOptional = (file: string) => (existsSync(file) ? readFileSync(file, "utf8") : undefined);
+
+type TemplateName = "analysis" | "submission" | "corrective" | "rewrite" | "tutor";
+
+// Placeholders in the shape each template is rendered with (see the message
+// builders in lib/analyze.ts, lib/rewrite.ts and lib/tutor-reply.ts).
+// submission.md only gets the question and essay, as the tutor renders it with
+// nothing else. `full` takes every conditional one way and its absence the other.
+function sampleVariables(rubric: Rubric, full: boolean): Record<TemplateName, Record<string, unknown>> {
+  const submission = { question: full ? { text: "Question", visual: "Visual" } : undefined, essay: "Essay" };
+  const shared = { ...submission, task: "Task", instructions: "Instructions", injection_flags: full ? ["Flag"] : [] };
+  return {
+    analysis: {
+      ...shared,
+      word_count: { count: 250, minimum: 250, under_length: full },
+      names: Object.fromEntries(CRITERIA.map((key) => [key, key])),
+      metrics: full ? ["Metric"] : [],
+      checks: full ? [{ id: "check", label: "Check" }] : [],
+      criteria: rubric.criteria.map((criterion) => ({ label: criterion.key, descriptors: descriptorsFor(criterion, "Task 2") })),
+      counts: rubric.counts,
+      output_format: JSON.stringify(rubric.output_format, null, 2),
+    },
+    submission,
+    corrective: { issues: [{ path: "band_score", message: "Message" }] },
+    rewrite: {
+      ...shared,
+      target_band: 7,
+      paragraph_count: 1,
+      criteria: CRITERIA.map((key) => ({ key, label: key, descriptor: "Descriptor" })),
+      criterion_keys: CRITERIA.join(", "),
+    },
+    tutor: { ...shared, band: 7, focus: full },
+  };
+}
+
+// Renders every template of the set with placeholders, so a typo fails the
+// load with a PromptConfigError instead of failing whichever request first
+// reaches that template (corrective.md only when a model reply is malformed).
+function checkTemplates(prompts: PromptSet, dir: string) {
+  for (const full of [true, false]) {
+    const samples = sampleVariables(prompts.rubric, full);
+    for (const name of Object.keys(samples) as TemplateName[]) {
+      const template = prompts[name];
+      if (template === undefined) continue;
+      try {
+        renderTemplate(template, samples[name]);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        throw new PromptConfigError(`${path.join(dir, `${name}.md`)}: ${error.message}`);
+      }
+    }
+  }
+}
+
+function readPromptSet(version: string): PromptSet {
+  const dir = path.join(PROMPTS_DIR, version);
+  try {
+    const prompts: PromptSet = {
+      version,
+      analysis: readFileSync(path.join(dir, "analysis.md"), "utf8"),
+      submission: readOptional(path.join(dir, "submission.md")),
+      corrective: readFileSync(path.join(dir, "corrective.md"), "utf8"),
+      rewrite: readOptional(path.join(dir, "rewrite.md")),
+      tutor: readOptional(path.join(dir, "tutor.md")),
+      rubric: readRubric(path.join(dir, "rubric.json")),
+    };
+    checkTemplates(prompts, dir);
+    return prompts;
+  } catch (error) {
+    if (error instanceof PromptConfigError) throw error;
+    throw new PromptConfigError(`Prompt version "${version}" could not be loaded from ${dir}: ${(error as Error).message}`);
+  }
+}
+
+const cache = new Map<string, PromptSet>();
+
+/**
+ * Loads a prompt version. Without one, PROMPT_VERSION picks it; a
+ * comma-separated list (e.g. "v1,v2") picks one at random per call, for A/B
+ * comparisons. Versions are cached in production and re-read on every call in
+ * development, so edits to the files show up straight away.
+ */
+export function loadPrompts(version?: string, env: NodeJS.ProcessEnv = process.env): PromptSet {
+  if (!version) {
+    const choices = (env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION).split(",").map((name) => name.trim()).filter(Boolean);
+    version = choices[Math.floor(Math.random() * choices.length)] ?? DEFAULT_PROMPT_VERSION;
+  }
+  if (!VERSION_NAME.test(version)) throw new PromptConfigError(`Invalid prompt version "${version}".`);
+
+  const cached = cache.get(version);
+  if (cached) return cached;
+  const prompts = readPromptSet(version);
+  if (env.NODE_ENV === "production") cache.set(version, prompts);
+  return prompts;
+}
+
+// The descriptors that apply to one task, falling back to the shared ones.
+export const descriptorsFor = (criterion: RubricCriterion, task: TaskType): BandDescriptor[] =>
+  criterion.descriptors[task] ?? criterion.descriptors.all ?? [];
@@ -0,0 +1,49 @@
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import type { LLMProvider, ProviderName } from "./types";
+
+export type { ChatMessage, CompletionRequest, CompletionResult, CompletionSubject, LLMProvider, ProviderName, TokenUsage } from "./types";
+
+const PROVIDERS: ProviderName[] = ["openai", "local", "mock"];
+
+export class ProviderConfigError extends Error {}
+
+/**
+ * Builds the provider selected by the environment:
+ *
+ *   LLM_PROVIDER          openai (default) | local | mock
+ *   LLM_MODEL             model override for the selected provider
+ *   OPENAI_API_KEY        used by the openai provider
+ *   LOCAL_LLM_BASE_URL    OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+ *   LOCAL_LLM_MODEL       model name served by that endpoint
+ *   LOCAL_LLM_API_KEY     optional; most local servers ignore it
+ *   MOCK_STREAM_DELAY_MS  delay between mock stream chunks (default 0)
+ */
+export function getProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "openai") as ProviderName;
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new ProviderConfigError("OPENAI_API_KEY is not set. Set it, or use LLM_PROVIDER=mock to run offline.");
+      }
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL || "gpt-4o",
+      });
+    case "local":
+      if (!env.LOCAL_LLM_BASE_URL) {
+        throw new ProviderConfigError("LOCAL_LLM_BASE_URL is required when LLM_PROVIDER=local.");
+      }
+      return createOpenAIProvider({
+        name: "local",
+        apiKey: env.LOCAL_LLM_API_KEY || "not-needed",
+        baseURL: env.LOCAL_LLM_BASE_URL,
+        model: env.LLM_MODEL || env.LOCAL_LLM_MODEL || "llama3.1",
+      });
+    case "mock":
+      return createMockProvider({ chunkDelayMs: Number(env.MOCK_STREAM_DELAY_MS) || 0 });
+    default:
+      throw new ProviderConfigError(`Unknown LLM_PROVIDER "${name}". Expected one of: ${PROVIDERS.join(", ")}.`);
+  }
+}
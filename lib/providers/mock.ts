@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { checkEssay } from "@/lib/checker";
+import type { Correction, CriterionKey, FeedbackData } from "@/lib/feedback";
+import { segmentEssay } from "@/lib/model-answer";
+import type { CompletionRequest, CompletionSubject, LLMProvider } from "./types";
+import task2Technology from "./fixtures/task2-technology.json";
+import fallback from "./fixtures/fallback.json";
+
+// Fixtures hold what a model would reply with; the overall band is left
+// out because the server computes it from the criterion bands.
+type ModelReply = Omit<FeedbackData, "band_score">;
+
+interface EssayFixture {
+  question?: string;
+  essay: string;
+  feedback: ModelReply;
+}
+
+const ESSAY_FIXTURES: EssayFixture[] = [task2Technology as EssayFixture];
+
+// Whitespace is collapsed so that line-ending or trailing-space differences
+// from copy and paste still hit the same fixture.
+export function hashEssay(essay: string): string {
+  return createHash("sha256").update(essay.trim().replace(/\s+/g, " ")).digest("hex").slice(0, 16);
+}
+
+const FIXTURES_BY_HASH = new Map(ESSAY_FIXTURES.map((fixture) => [hashEssay(fixture.essay), fixture.feedback]));
+
+const CHANGE_CRITERIA: Record<string, CriterionKey> = {
+  grammar: "grammatical_range_accuracy",
+  vocabulary: "lexical_resource",
+  coherence: "coherence_cohesion",
+};
+
+// The fixture's corrections for the essay, then the offline checker's for its task.
+const knownCorrections = ({ essay, taskMode }: CompletionSubject): Correction[] => [
+  ...(FIXTURES_BY_HASH.get(hashEssay(essay))?.corrections ?? []),
+  ...checkEssay(essay, taskMode),
+];
+
+// A stand-in model answer: each sentence with the fixture's and the offline
+// checker's corrections applied, each correction reported as a change.
+function rewriteReply(subject: CompletionSubject): string {
+  const { essay } = subject;
+  const corrections = knownCorrections(subject);
+  const paragraphs = segmentEssay(essay).map((sentences) => ({
+    sentences: sentences.map(({ id, start, end }) => {
+      let text = essay.slice(start, end);
+      const changes: { criterion: CriterionKey; note: string }[] = [];
+      for (const correction of corrections) {
+        if (!text.includes(correction.original)) continue;
+        text = text.replace(correction.original, correction.replacement);
+        changes.push({ criterion: CHANGE_CRITERIA[correction.type] ?? "lexical_resource", note: correction.explanation });
+      }
+      return { sources: [id], text, changes };
+    }),
+  }));
+  return JSON.stringify({ paragraphs, summary: "Mock model answer: the essay with its corrections applied." });
+}
+
+// A stand-in tutor answer that echoes the question and suggests the first
+// known correction as an edit, in the format tutor.md asks for.
+function tutorReply(subject: CompletionSubject, messages: CompletionRequest["messages"]): string {
+  const question = (messages.at(-1)?.content ?? "").replace(/<focus>[\s\S]*<\/focus>/, "").trim();
+  const correction = knownCorrections(subject).find((c) => subject.essay.includes(c.original));
+  const lines = [`Mock tutor reply to: "${question}"`, "", "Look closely at the feedback for this part of your essay and compare it with the examples given."];
+  if (correction) {
+    const { original, replacement, explanation } = correction;
+    lines.push("", `EDIT ${JSON.stringify({ original, replacement, explanation })}`);
+  }
+  return lines.join("\n");
+}
+
+const reply = ({ subject, messages }: CompletionRequest) => {
+  if (subject.purpose === "rewrite") return rewriteReply(subject);
+  if (subject.purpose === "tutor") return tutorReply(subject, messages);
+  return JSON.stringify(FIXTURES_BY_HASH.get(hashEssay(subject.essay)) ?? (fallback as ModelReply));
+};
+
+const STREAM_CHUNK_SIZE = 48;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+interface MockProviderOptions {
+  // Pause between streamed chunks, to make progressive rendering visible in demos.
+  chunkDelayMs?: number;
+}
+
+/**
+ * Offline provider for development, demos and CI. Essays with a known hash
+ * get their matching canned analysis; anything else gets a generic one.
+ * Rewrite requests get the essay back with its known corrections applied,
+ * and tutor questions a canned answer with one suggested edit.
+ */
+export function createMockProvider({ chunkDelayMs = 0 }: MockProviderOptions = {}): LLMProvider {
+  return {
+    name: "mock",
+    model: "mock-fixtures",
+    async complete(request: CompletionRequest) {
+      return {
+        content: reply(request),
+        model: "mock-fixtures",
+      };
+    },
+    async *stream(request: CompletionRequest) {
+      const { signal } = request;
+      const content = reply(request);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        signal?.throwIfAborted();
+        if (chunkDelayMs > 0) await wait(chunkDelayMs, signal);
+        yield content.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import OpenAI from "openai";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+interface OpenAIProviderOptions {
+  name?: string;
+  apiKey?: string;
+  // Set for OpenAI-compatible servers (Ollama, LM Studio, vLLM, llama.cpp).
+  baseURL?: string;
+  model: string;
+}
+
+export function createOpenAIProvider({ name = "openai", apiKey, baseURL, model }: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey,
+    baseURL,
+  });
+
+  return {
+    name,
+    model,
+    async complete({ messages, json, signal }: CompletionRequest) {
+      const completion = await client.chat.completions.create(
+        {
+          messages,
+          model,
+          response_format: json ? { type: "json_object" } : undefined,
+        },
+        { signal },
+      );
+
+      return {
+        content: completion.choices[0]?.message.content || "",
+        model: completion.model || model,
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        },
+      };
+    },
+    async *stream({ messages, json, signal, onUsage }: CompletionRequest) {
+      const stream = await client.chat.completions.create(
+        {
+          messages,
+          model,
+          response_format: json ? { type: "json_object" } : undefined,
+          stream: true,
+          // The usage arrives in a final chunk with no choices
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta.content;
+        if (delta) yield delta;
+        if (chunk.usage) onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+      }
+    },
+  };
+}
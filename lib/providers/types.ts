@@ -0,0 +1,46 @@
+import type { TaskModeId } from "@/lib/tasks";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a request is about. A model only needs the messages; a provider
+// without one answers from this instead, as the mock provider does with a
+// fixture for the essay and the offline checker for the task.
+export interface CompletionSubject {
+  purpose: "analysis" | "rewrite" | "tutor";
+  essay: string;
+  taskMode: TaskModeId;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  // Ask the provider for a single JSON object rather than free text.
+  json?: boolean;
+  subject: CompletionSubject;
+  signal?: AbortSignal;
+  // Called with the token counts once a streamed reply ends, if the provider reports them.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields the reply as text deltas while it is being generated.
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = "openai" | "local" | "mock";
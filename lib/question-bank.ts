@@ -0,0 +1,56 @@
+// Practice questions shipped with the app (data/question-bank.json).
+// Bump `version` in the JSON whenever questions are added, removed or
+// reworded, so saved work can tell which revision of a question it used.
+
+import bank from "@/data/question-bank.json";
+import type { VisualDescription } from "@/lib/question";
+import { getTaskMode, isTaskModeId, type TaskModeId } from "@/lib/tasks";
+
+export const ESSAY_TYPES = ["opinion", "discussion", "advantages-disadvantages", "problem-solution", "two-part"] as const;
+export type EssayType = (typeof ESSAY_TYPES)[number];
+
+// Broad groups used by the picker; finer filtering is by task mode.
+export type QuestionGroup = "task1-academic" | "task1-general" | "task2";
+
+export interface BankQuestion {
+  id: string;
+  taskMode: TaskModeId;
+  // Task 2 only.
+  essayType?: EssayType;
+  topics: string[];
+  text: string;
+  visual?: VisualDescription;
+}
+
+export interface QuestionFilter {
+  group?: QuestionGroup;
+  taskMode?: TaskModeId;
+  essayType?: EssayType;
+  topic?: string;
+}
+
+export const QUESTION_BANK_VERSION: number = bank.version;
+
+export const QUESTIONS: BankQuestion[] = (bank.questions as BankQuestion[]).filter((q) => isTaskModeId(q.taskMode));
+
+export const TOPICS: string[] = [...new Set(QUESTIONS.flatMap((q) => q.topics))].sort();
+
+export function groupOf(taskMode: TaskModeId): QuestionGroup {
+  const mode = getTaskMode(taskMode);
+  if (mode.task === "Task 2") return "task2";
+  return mode.module === "general" ? "task1-general" : "task1-academic";
+}
+
+export function filterQuestions(filter: QuestionFilter, questions: BankQuestion[] = QUESTIONS): BankQuestion[] {
+  return questions.filter(
+    (q) =>
+      (!filter.group || groupOf(q.taskMode) === filter.group) &&
+      (!filter.taskMode || q.taskMode === filter.taskMode) &&
+      (!filter.essayType || q.essayType === filter.essayType) &&
+      (!filter.topic || q.topics.includes(filter.topic))
+  );
+}
+
+export function pickRandom<T>(items: T[], random: () => number = Math.random): T | undefined {
+  return items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
+}
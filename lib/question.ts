@@ -0,0 +1,98 @@
+// The exam question a response was written for, plus (for Academic Task 1)
+// a structured description of the visual, since the model cannot see the
+// chart itself. Charts and tables are described as a table of series and
+// values; process diagrams and maps as an ordered list of stages or features.
+
+export interface DataRow {
+  label: string;
+  values: string[];
+}
+
+export type VisualDescription =
+  | { kind: "table"; title?: string; unit?: string; columns: string[]; rows: DataRow[] }
+  | { kind: "steps"; title?: string; steps: string[] };
+
+export type VisualKind = VisualDescription["kind"];
+
+export interface ExamQuestion {
+  text: string;
+  visual?: VisualDescription;
+  // Set when the question came from the built-in question bank.
+  bankId?: string;
+}
+
+export const emptyVisual = (kind: VisualKind): VisualDescription =>
+  kind === "table"
+    ? { kind, columns: ["", ""], rows: [{ label: "", values: ["", ""] }] }
+    : { kind, steps: [""] };
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.map((item) => (typeof item === "string" ? item.trim() : String(item ?? ""))) : [];
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+function parseVisual(raw: unknown): VisualDescription | undefined {
+  if (!isObject(raw)) return undefined;
+
+  if (raw.kind === "table") {
+    const columns = strings(raw.columns);
+    const rows = (Array.isArray(raw.rows) ? raw.rows : [])
+      .filter(isObject)
+      .map((row) => ({ label: optionalString(row.label) ?? "", values: strings(row.values) }))
+      .filter((row) => row.label || row.values.some(Boolean));
+    if (rows.length === 0) return undefined;
+    return { kind: "table", title: optionalString(raw.title), unit: optionalString(raw.unit), columns, rows };
+  }
+
+  if (raw.kind === "steps") {
+    const steps = strings(raw.steps).filter(Boolean);
+    if (steps.length === 0) return undefined;
+    return { kind: "steps", title: optionalString(raw.title), steps };
+  }
+
+  return undefined;
+}
+
+// Accepts either a bare question string or `{ text, visual }`. Blank
+// questions and empty visuals are treated as absent.
+export function parseExamQuestion(raw: unknown): ExamQuestion | undefined {
+  if (typeof raw === "string") return raw.trim() ? { text: raw.trim() } : undefined;
+  if (!isObject(raw)) return undefined;
+
+  const text = optionalString(raw.text) ?? "";
+  const visual = parseVisual(raw.visual);
+  if (!text && !visual) return undefined;
+  return { text, visual };
+}
+
+// Renders the visual as plain text for the prompt.
+export function formatVisual(visual: VisualDescription): string {
+  const lines = visual.title ? [`Title: ${visual.title}`] : [];
+
+  if (visual.kind === "steps") {
+    visual.steps.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+    return lines.join("\n");
+  }
+
+  if (visual.unit) lines.push(`Unit: ${visual.unit}`);
+  lines.push(`| Series | ${visual.columns.join(" | ")} |`);
+  for (const row of visual.rows) {
+    lines.push(`| ${row.label} | ${row.values.join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+// Drops a visual that does not belong to the selected task mode, e.g. a
+// table left over after switching from a bar chart to a letter.
+export function questionForVisual(question: ExamQuestion, kind?: VisualKind): ExamQuestion {
+  return {
+    text: question.text,
+    visual: kind && question.visual?.kind === kind ? question.visual : undefined,
+    bankId: question.bankId,
+  };
+}
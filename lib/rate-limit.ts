@@ -0,0 +1,99 @@
+// Per-client limits on /api/analyze: a short-window rate limit against
+// hammering, and a daily quota on analyses that reach the model. Both are
+// fixed windows counted in a KeyValueStore.
+
+import type { KeyValueStore } from "@/lib/store";
+
+export interface Limit {
+  name: "rate" | "quota";
+  // 0 turns the limit off.
+  max: number;
+  windowMs: number;
+}
+
+export type LimitResult =
+  | { ok: true; remaining: number }
+  | { ok: false; limit: Limit; retryAfter: number; message: string };
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Reads the limits from the environment:
+ *
+ *   RATE_LIMIT_PER_MINUTE   requests per client per minute (default 10)
+ *   DAILY_ANALYSIS_QUOTA    model analyses per client per UTC day (default 50)
+ */
+export function getLimits(env: NodeJS.ProcessEnv = process.env): { rate: Limit; quota: Limit } {
+  const count = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== "" && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    rate: { name: "rate", max: count(env.RATE_LIMIT_PER_MINUTE, 10), windowMs: MINUTE },
+    quota: { name: "quota", max: count(env.DAILY_ANALYSIS_QUOTA, 50), windowMs: DAY },
+  };
+}
+
+let warnedShared = false;
+
+/**
+ * How many proxies in front of the app to trust, from TRUST_PROXY: 0 or
+ * "false" for none, "true" for one, or a count. Only addresses added by a
+ * trusted proxy are used; anything before them came from the client.
+ *
+ * Without a trusted proxy there is no address a client cannot choose (Next
+ * only fills in X-Forwarded-For when the request has none), so every request
+ * shares one set of limits. That is right for a single user on localhost but
+ * not for a public deployment, so leaving TRUST_PROXY unset in production
+ * logs a warning; set it to 0 to say the shared limits are intended.
+ */
+export function getTrustedProxies(env: NodeJS.ProcessEnv = process.env): number {
+  const value = env.TRUST_PROXY?.trim().toLowerCase();
+  if (!value && env.NODE_ENV === "production" && !warnedShared) {
+    warnedShared = true;
+    console.warn(
+      "TRUST_PROXY is not set, so rate limits and quotas are shared by every client. " +
+        "Set it to the number of proxies in front of the app, or to 0 if shared limits are intended.",
+    );
+  }
+  if (value === "true") return 1;
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+}
+
+// Clients can send any X-Forwarded-For they like, so it is only read behind
+// trusted proxies, each of which appends the address it saw: the entry `hops`
+// from the end is the client's as the outermost proxy saw it. With fewer
+// entries the request skipped a proxy, and only the last entry is known to
+// be genuine. Without a trusted proxy every request counts as the same client.
+export function clientId(req: Request, hops = getTrustedProxies()): string {
+  if (hops === 0) return "local";
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").map((address) => address.trim()) ?? [];
+  return (forwarded.length >= hops ? forwarded[forwarded.length - hops] : forwarded.at(-1)) || "local";
+}
+
+const describeWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+/** Counts one use of `limit` for `client`, and says whether it was allowed. */
+export async function consume(store: KeyValueStore, client: string, limit: Limit, now = Date.now()): Promise<LimitResult> {
+  if (limit.max === 0) return { ok: true, remaining: Infinity };
+
+  const windowStart = Math.floor(now / limit.windowMs) * limit.windowMs;
+  const windowEnd = windowStart + limit.windowMs;
+  const count = await store.increment(`${limit.name}:${client}:${windowStart}`, windowEnd - now);
+  if (count <= limit.max) return { ok: true, remaining: limit.max - count };
+
+  const retryAfter = Math.max(1, Math.ceil((windowEnd - now) / 1000));
+  const message =
+    limit.name === "rate"
+      ? `Too many requests: the limit is ${limit.max} a minute. Try again in ${describeWait(retryAfter)}.`
+      : `The daily limit of ${limit.max} analyses has been reached. Try again in ${describeWait(retryAfter)}.`;
+  return { ok: false, limit, retryAfter, message };
+}
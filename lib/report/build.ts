@@ -0,0 +1,149 @@
+import { collectPendingFixes, defaultSelection, findConflicts, applyFixes, type PendingFix } from "@/lib/batch-fixes";
+import { CRITERIA } from "@/lib/feedback";
+import type { SavedAnalysis } from "@/lib/library";
+import type { VisualDescription } from "@/lib/question";
+import { criterionNames, describeTaskMode, getTaskMode } from "@/lib/tasks";
+import type { Block, Report, Run } from "./types";
+
+const PRIORITY_LABELS = { high: "High", medium: "Medium", low: "Low" };
+
+// The corrections that can be marked in the analysed text: those still found
+// there, minus any that would overlap one earlier in the essay.
+function markableCorrections(analysis: SavedAnalysis): PendingFix[] {
+  const fixes = collectPendingFixes({ corrections: analysis.data.corrections }, analysis.essay);
+  const selected = defaultSelection(fixes, findConflicts(fixes));
+  return fixes.filter((fix) => selected.has(fix.id));
+}
+
+// One paragraph block per non-blank line of `text`, with the corrections that
+// fall inside a line shown as deleted and inserted runs. A correction that
+// spans a line break is left unmarked.
+function essayBlocks(text: string, fixes: PendingFix[] = []): Block[] {
+  return [...text.matchAll(/[^\n]*\S[^\n]*/g)].map((line) => {
+    const start = line.index;
+    const end = start + line[0].length;
+    const runs: Run[] = [];
+    let position = start;
+    for (const fix of fixes) {
+      if (fix.start < position || fix.end > end) continue;
+      if (fix.start > position) runs.push({ text: text.slice(position, fix.start) });
+      runs.push({ text: fix.original, style: "deleted" }, { text: fix.replacement, style: "inserted" });
+      position = fix.end;
+    }
+    if (position < end) runs.push({ text: text.slice(position, end) });
+    return { kind: "paragraph", runs };
+  });
+}
+
+function visualBlocks(visual: VisualDescription): Block[] {
+  const blocks: Block[] = [];
+  const caption = [visual.title, visual.kind === "table" && visual.unit ? `(${visual.unit})` : undefined].filter(Boolean).join(" ");
+  if (caption) blocks.push({ kind: "paragraph", runs: [{ text: caption, style: "italic" }] });
+  if (visual.kind === "steps") {
+    blocks.push({ kind: "list", ordered: true, items: visual.steps.map((step) => [{ text: step }]) });
+  } else {
+    blocks.push({ kind: "table", header: ["", ...visual.columns], rows: visual.rows.map((row) => [row.label, ...row.values]) });
+  }
+  return blocks;
+}
+
+const paragraph = (text: string, style?: Run["style"]): Block => ({ kind: "paragraph", runs: [{ text, style }] });
+
+/**
+ * Builds the report for one saved analysis: the question, the analysed essay
+ * with its corrections marked, the essay with those corrections applied, the
+ * band scores, the action plan, each criterion's summary and tips, and the
+ * vocabulary list. Everything comes from the saved analysis, so the report
+ * matches what was analysed even if the essay has been edited since.
+ */
+export function buildReport(analysis: SavedAnalysis): Report {
+  const { data, question } = analysis;
+  const mode = getTaskMode(analysis.taskMode);
+  const names = criterionNames(mode);
+  const fixes = markableCorrections(analysis);
+  const date = new Date(analysis.createdAt).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+
+  const details = [`Analysed ${date}`];
+  const words = data.word_count;
+  if (words) details.push(words.under_length ? `${words.count} words, under the ${words.minimum}-word minimum` : `${words.count} words`);
+  if (data.prompt_version) details.push(`prompt ${data.prompt_version}`);
+
+  const blocks: Block[] = [paragraph(details.join(" · "), "italic")];
+
+  blocks.push(
+    { kind: "heading", level: 2, text: `Band score: ${data.band_score.toFixed(1)}` },
+    {
+      kind: "table",
+      header: ["Criterion", "Band"],
+      rows: CRITERIA.map((key) => [names[key].label, String(data.feedback[key].band)]),
+    },
+  );
+  if (data.general_comment) blocks.push(paragraph(data.general_comment));
+
+  if (question.text || question.visual) {
+    blocks.push({ kind: "heading", level: 2, text: "Question" });
+    if (question.text) blocks.push(...essayBlocks(question.text));
+    if (question.visual) blocks.push(...visualBlocks(question.visual));
+  }
+
+  blocks.push({ kind: "heading", level: 2, text: "Your essay with corrections" }, ...essayBlocks(analysis.essay, fixes));
+  if (fixes.length) {
+    blocks.push({
+      kind: "list",
+      items: fixes.map((fix) => [
+        { text: fix.original, style: "deleted" },
+        { text: " → " },
+        { text: fix.replacement, style: "inserted" },
+        { text: ` (${fix.label}) ${fix.explanation}` },
+      ]),
+    });
+  }
+
+  blocks.push(
+    { kind: "heading", level: 2, text: "Revised essay" },
+    paragraph(fixes.length ? "Your essay with the corrections above applied." : "There were no corrections to apply.", "italic"),
+    ...essayBlocks(applyFixes(analysis.essay, fixes).essay),
+  );
+
+  if (data.prioritized_suggestions.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Action plan" });
+    data.prioritized_suggestions.forEach((s) => {
+      blocks.push({ kind: "heading", level: 3, text: `${PRIORITY_LABELS[s.priority]} priority · ${s.category}: ${s.issue}` }, paragraph(s.suggestion));
+      if (s.example_fix) blocks.push({ kind: "paragraph", runs: [{ text: "Example: ", style: "bold" }, { text: s.example_fix }] });
+    });
+  }
+
+  blocks.push({ kind: "heading", level: 2, text: "Criteria" });
+  CRITERIA.forEach((key) => {
+    const detail = data.feedback[key];
+    blocks.push({ kind: "heading", level: 3, text: `${names[key].label}: band ${detail.band}` }, paragraph(detail.summary));
+    if (detail.justification) blocks.push(paragraph(detail.justification, "italic"));
+    if (detail.tips.length) {
+      blocks.push({
+        kind: "list",
+        items: detail.tips.map((tip) =>
+          tip.example_implementation ? [{ text: tip.tip }, { text: ` e.g. ${tip.example_implementation}`, style: "italic" }] : [{ text: tip.tip }],
+        ),
+      });
+    }
+  });
+
+  if (data.enrichment?.length) {
+    blocks.push(
+      { kind: "heading", level: 2, text: "Vocabulary" },
+      {
+        kind: "table",
+        header: ["Word", "Type", "Meaning", "Example", "In your essay"],
+        rows: data.enrichment.map((e) => [
+          e.phonetic ? `${e.word} ${e.phonetic}` : e.word,
+          e.type,
+          e.definition,
+          e.example_sentence,
+          e.context_in_essay,
+        ]),
+      },
+    );
+  }
+
+  return { title: `IELTS Writing ${describeTaskMode(mode)} feedback`, blocks };
+}
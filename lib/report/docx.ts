@@ -0,0 +1,125 @@
+// Writes a report as a Word document: the minimum set of OOXML parts (content
+// types, package relationships, styles and the document body), zipped.
+
+import type { Block, Report, Run } from "./types";
+import { createZip } from "./zip";
+
+// XML 1.0 cannot hold most control characters, even escaped.
+const escape = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const RUN_PROPERTIES = {
+  bold: "<w:b/>",
+  italic: "<w:i/>",
+  deleted: '<w:strike/><w:color w:val="B42318"/>',
+  inserted: '<w:color w:val="067647"/><w:u w:val="single"/>',
+};
+
+const run = ({ text, style }: Run) =>
+  `<w:r>${style ? `<w:rPr>${RUN_PROPERTIES[style]}</w:rPr>` : ""}<w:t xml:space="preserve">${escape(text)}</w:t></w:r>`;
+
+const paragraph = (runs: Run[], style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ""}${runs.map(run).join("")}</w:p>`;
+
+// List items are plain paragraphs with a hanging indent; real Word numbering
+// needs a numbering part that a report this simple can do without.
+const listItem = (runs: Run[], marker: string) =>
+  `<w:p><w:pPr><w:pStyle w:val="ListItem"/></w:pPr>${run({ text: `${marker}\t` })}${runs.map(run).join("")}</w:p>`;
+
+const cell = (text: string, header: boolean) =>
+  `<w:tc>${paragraph([{ text, style: header ? "bold" : undefined }], "TableText")}</w:tc>`;
+
+// A4 with 2 cm margins, in twentieths of a point.
+const PAGE = { width: 11906, height: 16838, margin: 1134 };
+const TEXT_WIDTH = PAGE.width - 2 * PAGE.margin;
+
+function renderBlock(block: Block): string {
+  switch (block.kind) {
+    case "heading":
+      return paragraph([{ text: block.text }], `Heading${block.level}`);
+    case "paragraph":
+      return paragraph(block.runs);
+    case "list":
+      return block.items.map((item, index) => listItem(item, block.ordered ? `${index + 1}.` : "•")).join("");
+    case "table": {
+      const width = Math.floor(TEXT_WIDTH / block.header.length);
+      return [
+        '<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>',
+        `<w:tblGrid>${block.header.map(() => `<w:gridCol w:w="${width}"/>`).join("")}</w:tblGrid>`,
+        `<w:tr><w:trPr><w:tblHeader/></w:trPr>${block.header.map((text) => cell(text, true)).join("")}</w:tr>`,
+        ...block.rows.map((row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((text) => cell(text, false)).join("")}</w:tr>`),
+        // Word needs a paragraph between consecutive tables, and one after a table at the end of the body.
+        "</w:tbl><w:p/>",
+      ].join("");
+    }
+  }
+}
+
+const XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const CONTENT_TYPES = `${XML}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Sizes are in half-points, spacing in twentieths of a point.
+const heading = (id: string, name: string, size: number, before: number) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/><w:spacing w:before="${before}" w:after="120"/></w:pPr>` +
+  `<w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `${XML}
+<w:styles ${W}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="22"/><w:lang w:val="en-GB"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${heading("Title", "Title", 40, 0)}
+${heading("Heading1", "heading 1", 32, 360)}
+${heading("Heading2", "heading 2", 28, 360)}
+${heading("Heading3", "heading 3", 23, 240)}
+<w:style w:type="paragraph" w:styleId="ListItem"><w:name w:val="List Item"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:tblPr><w:tblBorders>
+<w:top w:val="single" w:sz="4" w:color="BBBBBB"/><w:left w:val="single" w:sz="4" w:color="BBBBBB"/><w:bottom w:val="single" w:sz="4" w:color="BBBBBB"/><w:right w:val="single" w:sz="4" w:color="BBBBBB"/><w:insideH w:val="single" w:sz="4" w:color="BBBBBB"/><w:insideV w:val="single" w:sz="4" w:color="BBBBBB"/>
+</w:tblBorders><w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="40" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+// Report headings start at level 2 below the title, so they map onto Word's Heading 1 to 3 shifted by one.
+const shiftHeadings = (block: Block): Block =>
+  block.kind === "heading" ? { ...block, level: Math.max(1, block.level - 1) as 1 | 2 | 3 } : block;
+
+/** Renders a report as a .docx file. */
+export function renderDocx(report: Report): Uint8Array {
+  const body = [paragraph([{ text: report.title }], "Title"), ...report.blocks.map(shiftHeadings).map(renderBlock)].join("\n");
+  const { width, height, margin } = PAGE;
+  const section = `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"/><w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`;
+  const document = `${XML}\n<w:document ${W}><w:body>\n${body}\n${section}</w:body></w:document>`;
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: encoder.encode(PACKAGE_RELS) },
+    { name: "word/document.xml", data: encoder.encode(document) },
+    { name: "word/_rels/document.xml.rels", data: encoder.encode(DOCUMENT_RELS) },
+    { name: "word/styles.xml", data: encoder.encode(STYLES) },
+  ]);
+}
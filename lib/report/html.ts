@@ -0,0 +1,62 @@
+import type { Block, Report, Run } from "./types";
+
+const escape = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const TAGS = { bold: "strong", italic: "em", deleted: "del", inserted: "ins" };
+
+const renderRun = ({ text, style }: Run) => (style ? `<${TAGS[style]}>${escape(text)}</${TAGS[style]}>` : escape(text));
+
+const renderRuns = (runs: Run[]) => runs.map(renderRun).join("");
+
+function renderBlock(block: Block): string {
+  switch (block.kind) {
+    case "heading":
+      return `<h${block.level}>${escape(block.text)}</h${block.level}>`;
+    case "paragraph":
+      return `<p>${renderRuns(block.runs)}</p>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>${block.items.map((item) => `<li>${renderRuns(item)}</li>`).join("")}</${tag}>`;
+    }
+    case "table":
+      return [
+        "<table><thead><tr>",
+        block.header.map((cell) => `<th>${escape(cell)}</th>`).join(""),
+        "</tr></thead><tbody>",
+        block.rows.map((row) => `<tr>${row.map((cell) => `<td>${escape(cell)}</td>`).join("")}</tr>`).join(""),
+        "</tbody></table>",
+      ].join("");
+  }
+}
+
+// A4 with print margins; headings are kept with the text that follows them.
+const STYLES = `
+@page { size: A4; margin: 20mm 18mm; }
+body { font: 11pt/1.5 Georgia, "Times New Roman", serif; color: #111; max-width: 170mm; margin: 0 auto; }
+h1 { font-size: 20pt; margin: 0 0 4pt; }
+h2 { font-size: 14pt; margin: 18pt 0 6pt; border-bottom: 1px solid #bbb; padding-bottom: 2pt; }
+h3 { font-size: 11.5pt; margin: 12pt 0 4pt; }
+h1, h2, h3 { font-family: "Helvetica Neue", Arial, sans-serif; break-after: avoid; }
+p, li { margin: 0 0 6pt; orphans: 3; widows: 3; }
+table { border-collapse: collapse; width: 100%; margin: 6pt 0 10pt; font-size: 10pt; }
+th, td { border: 1px solid #bbb; padding: 3pt 6pt; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+tr { break-inside: avoid; }
+del { color: #b42318; }
+ins { color: #067647; text-decoration: underline; }
+`;
+
+/** Renders a report as a standalone HTML page styled for printing to PDF. */
+export function renderHtml(report: Report): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${escape(report.title)}</title>`,
+    `<style>${STYLES}</style>`,
+    "</head><body>",
+    `<h1>${escape(report.title)}</h1>`,
+    ...report.blocks.map(renderBlock),
+    "</body></html>",
+  ].join("\n");
+}
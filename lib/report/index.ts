@@ -0,0 +1,37 @@
+import type { SavedAnalysis } from "@/lib/library";
+import { buildReport } from "./build";
+import { renderDocx } from "./docx";
+import { renderHtml } from "./html";
+import { renderMarkdown } from "./markdown";
+import type { ReportFormat } from "./types";
+
+export type { Block, Report, ReportFormat, Run, RunStyle } from "./types";
+export { buildReport } from "./build";
+export { renderDocx } from "./docx";
+export { renderHtml } from "./html";
+export { renderMarkdown } from "./markdown";
+
+export interface ReportFile {
+  filename: string;
+  blob: Blob;
+}
+
+const FILE_TYPES: Record<ReportFormat, { extension: string; type: string }> = {
+  markdown: { extension: "md", type: "text/markdown;charset=utf-8" },
+  docx: { extension: "docx", type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" },
+  html: { extension: "html", type: "text/html;charset=utf-8" },
+};
+
+/**
+ * Renders the report for one analysis in `format`, entirely in the browser.
+ * The HTML version is laid out for printing, which is how the page makes PDFs.
+ */
+export function exportReport(analysis: SavedAnalysis, format: ReportFormat): ReportFile {
+  const report = buildReport(analysis);
+  const { extension, type } = FILE_TYPES[format];
+  const content = format === "docx" ? renderDocx(report) : format === "html" ? renderHtml(report) : renderMarkdown(report);
+  // e.g. ielts-task-2-feedback-2026-10-19.md
+  const date = new Date(analysis.createdAt).toISOString().slice(0, 10);
+  const slug = report.title.toLowerCase().replace(/^ielts writing /, "ielts ").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return { filename: `${slug}-${date}.${extension}`, blob: new Blob([content as BlobPart], { type }) };
+}
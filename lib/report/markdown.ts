@@ -0,0 +1,35 @@
+import type { Block, Report, Run } from "./types";
+
+// Backslash-escapes characters Markdown would otherwise treat as formatting.
+const escape = (text: string) => text.replace(/([\\`*_~[\]<>|#])/g, "\\$1");
+
+// Markdown has no underline, so inserted text is bold next to the struck-out original.
+function renderRun({ text, style }: Run): string {
+  if (!text.trim() || !style) return escape(text);
+  // Emphasis markers must hug the text, so surrounding spaces go outside them.
+  const [, before, inner, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  const marker = { bold: "**", italic: "_", deleted: "~~", inserted: "**" }[style];
+  return `${before}${marker}${escape(inner)}${marker}${after}`;
+}
+
+const renderRuns = (runs: Run[]) => runs.map(renderRun).join("");
+
+const row = (cells: string[]) => `| ${cells.map((cell) => escape(cell).replace(/\n/g, " ")).join(" | ")} |`;
+
+function renderBlock(block: Block): string {
+  switch (block.kind) {
+    case "heading":
+      return `${"#".repeat(block.level)} ${escape(block.text)}`;
+    case "paragraph":
+      return renderRuns(block.runs);
+    case "list":
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${renderRuns(item)}`).join("\n");
+    case "table":
+      return [row(block.header), row(block.header.map(() => "---")), ...block.rows.map(row)].join("\n");
+  }
+}
+
+/** Renders a report as GitHub-flavoured Markdown (struck-out text needs the ~~ extension). */
+export function renderMarkdown(report: Report): string {
+  return [`# ${escape(report.title)}`, ...report.blocks.map(renderBlock)].join("\n\n") + "\n";
+}
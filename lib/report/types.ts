@@ -0,0 +1,23 @@
+// A format-neutral feedback report. lib/report/build.ts turns an analysis into
+// one; the markdown, docx and html modules each render it into a file.
+
+export type RunStyle = "bold" | "italic" | "deleted" | "inserted";
+
+// A stretch of text with one style; a correction is a deleted run followed by an inserted one.
+export interface Run {
+  text: string;
+  style?: RunStyle;
+}
+
+export type Block =
+  | { kind: "heading"; level: 1 | 2 | 3; text: string }
+  | { kind: "paragraph"; runs: Run[] }
+  | { kind: "list"; ordered?: boolean; items: Run[][] }
+  | { kind: "table"; header: string[]; rows: string[][] };
+
+export interface Report {
+  title: string;
+  blocks: Block[];
+}
+
+export type ReportFormat = "markdown" | "docx" | "html";
@@ -0,0 +1,78 @@
+// Just enough of the ZIP format to package a .docx: files are stored
+// uncompressed, which every reader accepts, and a report is small enough
+// that the size does not matter.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Fields are little-endian; `bytes` is 2 or 4.
+const header = (fields: [number, 2 | 4][]) => {
+  const view = new DataView(new ArrayBuffer(fields.reduce((size, [, bytes]) => size + bytes, 0)));
+  let offset = 0;
+  for (const [value, bytes] of fields) {
+    if (bytes === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += bytes;
+  }
+  return new Uint8Array(view.buffer);
+};
+
+// 1 January 1980, the earliest time DOS dates can express; entry times are not needed.
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// Bit 11: names are UTF-8.
+const FLAGS = 1 << 11;
+
+/** Packs `entries` into an uncompressed ZIP archive. */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+    const local = header([
+      [0x04034b50, 4], [20, 2], [FLAGS, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [nameBytes.length, 2], [0, 2],
+    ]);
+    directory.push(
+      header([
+        [0x02014b50, 4], [20, 2], [20, 2], [FLAGS, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+        [crc, 4], [data.length, 4], [data.length, 4], [nameBytes.length, 2], [0, 2], [0, 2],
+        [0, 2], [0, 2], [0, 4], [offset, 4],
+      ]),
+      nameBytes,
+    );
+    parts.push(local, nameBytes, data);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = header([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2], [directorySize, 4], [offset, 4], [0, 2],
+  ]);
+
+  const zip = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...parts, ...directory, end]) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
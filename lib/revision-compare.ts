@@ -0,0 +1,102 @@
+// Compares two analyses of the same essay: what changed in the text, how the
+// bands moved, and which corrections were dealt with or newly raised.
+
+import { resolveAnchor, shiftAnchor, type TextAnchor, type TextEdit } from "@/lib/anchors";
+import { CRITERIA, type Correction, type CriterionKey } from "@/lib/feedback";
+import type { SavedAnalysis } from "@/lib/library";
+import { diffWords, type DiffPart } from "@/lib/word-diff";
+
+export interface BandChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RevisionComparison {
+  diff: DiffPart[];
+  overall: BandChange;
+  criteria: Record<CriterionKey, BandChange>;
+  // Earlier corrections whose text was changed, and not flagged again.
+  resolved: Correction[];
+  // Earlier corrections whose text is unchanged but which the later analysis did not raise.
+  unflagged: Correction[];
+  // Earlier corrections raised again at the same place.
+  persisting: Correction[];
+  // Later corrections with no earlier counterpart.
+  introduced: Correction[];
+}
+
+const change = (before: number, after: number): BandChange => ({ before, after, delta: after - before });
+
+type Span = { start: number; end: number };
+
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+// The revision as edits to the earlier text, one per changed run of the word
+// diff, in order. Applied last to first, each one's offsets stay valid.
+function revisionEdits(diff: DiffPart[]): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let offset = 0;
+  let edit: TextEdit | null = null;
+  for (const part of diff) {
+    if (part.type === "same") {
+      offset += part.text.length;
+      edit = null;
+      continue;
+    }
+    if (!edit) edits.push((edit = { start: offset, end: offset, text: "" }));
+    if (part.type === "added") {
+      edit.text += part.text;
+    } else {
+      offset += part.text.length;
+      edit.end = offset;
+    }
+  }
+  return edits;
+}
+
+/**
+ * `before` should be the earlier analysis. Earlier corrections are located in
+ * the later text through their anchors, so a correction counts as the same
+ * issue only when it is raised at the same place.
+ */
+export function compareAnalyses(before: SavedAnalysis, after: SavedAnalysis): RevisionComparison {
+  // Where each later correction sits in the text it was made on
+  const later = after.data.corrections.map((correction) => {
+    const found = resolveAnchor(after.essay, correction.original, correction.anchor);
+    return { correction, span: found.status === "stale" ? null : found, matched: false };
+  });
+
+  const diff = diffWords(before.essay, after.essay);
+  const edits = revisionEdits(diff);
+  const resolved: Correction[] = [];
+  const unflagged: Correction[] = [];
+  const persisting: Correction[] = [];
+  for (const correction of before.data.corrections) {
+    // Moved past the revision first, or a repeated phrase could match at the old offsets
+    const anchor = correction.anchor && edits.reduceRight<TextAnchor>((moved, edit) => shiftAnchor(moved, edit), correction.anchor);
+    const found = resolveAnchor(after.essay, correction.original, anchor, correction.replacement);
+    const match =
+      found.status === "ok" && later.find((item) => !item.matched && item.span && overlaps(item.span, found));
+    if (match) {
+      match.matched = true;
+      persisting.push(correction);
+    } else if (found.status === "ok") {
+      unflagged.push(correction);
+    } else {
+      resolved.push(correction);
+    }
+  }
+
+  return {
+    diff,
+    overall: change(before.data.band_score, after.data.band_score),
+    criteria: Object.fromEntries(
+      CRITERIA.map((key) => [key, change(before.data.feedback[key].band, after.data.feedback[key].band)]),
+    ) as Record<CriterionKey, BandChange>,
+    resolved,
+    unflagged,
+    persisting,
+    introduced: later.filter((item) => !item.matched).map((item) => item.correction),
+  };
+}
@@ -0,0 +1,228 @@
+// Model answers: the essay rewritten at a target band by the provider. The
+// model sees the essay with every sentence numbered and replies with the ids
+// each rewritten sentence replaces, so the alignment with the original is
+// checked here rather than taken on trust.
+
+import type { AnalyzeInput } from "@/lib/analyze";
+import { anchorAt } from "@/lib/anchors";
+import { CRITERIA, type CriterionKey, type SchemaIssue } from "@/lib/feedback";
+import { detectInjection, INJECTION_LABELS } from "@/lib/injection";
+import { fenceText, parseAnalyzeRequest } from "@/lib/input-safety";
+import { segmentEssay, TARGET_BANDS, type AlignedParagraph, type RewriteChange, type RewriteResult, type SourceSentence } from "@/lib/model-answer";
+import { descriptorsFor, loadPrompts, PromptConfigError, type PromptSet } from "@/lib/prompts";
+import { formatVisual } from "@/lib/question";
+import { criterionNames, describeTaskMode, getTaskMode } from "@/lib/tasks";
+import { renderTemplate } from "@/lib/template";
+import type { ChatMessage, LLMProvider } from "@/lib/providers";
+import { createUsageMeter, type AnalysisUsage } from "@/lib/usage";
+
+// Total attempts per request: the first call plus corrective retries.
+const MAX_ATTEMPTS = 3;
+
+export interface RewriteInput extends AnalyzeInput {
+  targetBand: number;
+}
+
+export type RewriteOutcome =
+  | { ok: true; data: RewriteResult; attempts: number; usage: AnalysisUsage }
+  | { ok: false; issues: SchemaIssue[]; attempts: number; usage: AnalysisUsage };
+
+export interface RewriteOptions {
+  signal?: AbortSignal;
+  // Defaults to the version chosen by PROMPT_VERSION (see lib/prompts.ts).
+  prompts?: PromptSet;
+}
+
+// The essay as the model sees it: one numbered sentence per line, paragraphs separated by a blank line.
+const numberedEssay = (essay: string, paragraphs: SourceSentence[][]) =>
+  paragraphs.map((sentences) => sentences.map(({ id, start, end }) => `[${id}] ${essay.slice(start, end)}`).join("\n")).join("\n\n");
+
+export function buildRewriteMessages(input: RewriteInput, prompts: PromptSet): ChatMessage[] {
+  if (!prompts.rewrite || !prompts.submission) {
+    throw new PromptConfigError(`Prompt version "${prompts.version}" has no rewrite.md and submission.md.`);
+  }
+  const { essay, taskMode, question, targetBand } = input;
+  const mode = getTaskMode(taskMode);
+  const names = criterionNames(mode);
+  const paragraphs = segmentEssay(essay);
+  // The descriptor for the band at or just above the target
+  const band = Math.ceil(targetBand);
+
+  const variables = {
+    task: describeTaskMode(mode),
+    instructions: mode.instructions,
+    target_band: targetBand,
+    paragraph_count: paragraphs.length,
+    injection_flags: [...new Set(detectInjection(essay, question).map((flag) => `${INJECTION_LABELS[flag.kind]} (in the ${flag.source})`))],
+    criteria: CRITERIA.map((key) => ({
+      key,
+      label: names[key].label,
+      descriptor: descriptorsFor(prompts.rubric.criteria.find((criterion) => criterion.key === key)!, mode.task).find((d) => d.band === band)?.text ?? "",
+    })),
+    criterion_keys: CRITERIA.join(", "),
+    question: question && {
+      text: fenceText(question.text),
+      visual: question.visual ? fenceText(formatVisual(question.visual)) : "",
+    },
+    essay: fenceText(numberedEssay(essay, paragraphs)),
+  };
+  return [
+    { role: "system", content: renderTemplate(prompts.rewrite, variables) },
+    { role: "user", content: renderTemplate(prompts.submission, variables) },
+  ];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export type ParsedRewriteRequest = { ok: true; input: RewriteInput } | { ok: false; error: string };
+
+/** Validates a decoded /api/rewrite body: an analyze request plus a `targetBand`. */
+export function parseRewriteRequest(body: unknown): ParsedRewriteRequest {
+  const parsed = parseAnalyzeRequest(body);
+  if (!parsed.ok) return parsed;
+  const { targetBand } = body as Json;
+  if (typeof targetBand !== "number" || !TARGET_BANDS.includes(targetBand)) {
+    return { ok: false, error: `targetBand must be one of ${TARGET_BANDS.join(", ")}.` };
+  }
+  return { ok: true, input: { ...parsed.input, targetBand } };
+}
+
+function parseChanges(raw: unknown): RewriteChange[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) =>
+    isObject(item) && CRITERIA.includes(item.criterion as CriterionKey) && typeof item.note === "string" && item.note.trim()
+      ? [{ criterion: item.criterion as CriterionKey, note: item.note.trim() }]
+      : [],
+  );
+}
+
+interface Pair {
+  sources: SourceSentence[];
+  text: string;
+  changes: RewriteChange[];
+}
+
+/**
+ * Checks a reply against the essay's sentences. Sentences the model left out
+ * are kept unchanged, and a new sentence with no source is joined to the one
+ * before it (or after it, at the start of a paragraph) so that every rewrite
+ * replaces some span of the original. Unknown, repeated or out-of-order
+ * sentence ids are issues for a corrective retry.
+ */
+export function validateRewrite(
+  raw: unknown,
+  essay: string,
+): { data?: Omit<RewriteResult, "target_band" | "prompt_version">; issues: SchemaIssue[] } {
+  const segments = segmentEssay(essay);
+  if (!isObject(raw) || !Array.isArray(raw.paragraphs)) {
+    return { issues: [{ path: "paragraphs", message: "must be an array of paragraphs" }] };
+  }
+  const rawParagraphs: unknown[] = raw.paragraphs;
+  if (rawParagraphs.length !== segments.length) {
+    return { issues: [{ path: "paragraphs", message: `must have ${segments.length} items, one per paragraph of the essay` }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const paragraphs: AlignedParagraph[] = segments.map((sentences, p) => {
+    const path = `paragraphs.${p}.sentences`;
+    const rawParagraph = rawParagraphs[p];
+    const items = isObject(rawParagraph) && Array.isArray(rawParagraph.sentences) ? (rawParagraph.sentences as unknown[]) : null;
+    if (!items) {
+      issues.push({ path, message: "must be an array" });
+      return { sentences: [] };
+    }
+
+    const pairs: Pair[] = [];
+    let added: string[] = [];
+    let lastIndex = -1;
+    items.forEach((item, i) => {
+      const text = isObject(item) && typeof item.text === "string" ? item.text.trim() : "";
+      if (!isObject(item) || !text) {
+        issues.push({ path: `${path}.${i}.text`, message: "must be a non-empty string" });
+        return;
+      }
+      const ids = Array.isArray(item.sources) ? item.sources.map(String) : [];
+      if (ids.length === 0) {
+        const previous = pairs.at(-1);
+        if (previous) previous.text += ` ${text}`;
+        else added.push(text);
+        return;
+      }
+
+      const indexes = ids.map((id) => sentences.findIndex((sentence) => sentence.id === id));
+      const unknown = ids.filter((_, k) => indexes[k] === -1);
+      if (unknown.length) {
+        issues.push({ path: `${path}.${i}.sources`, message: `${unknown.join(", ")} not in paragraph ${p + 1}, whose ids are ${sentences.map((s) => s.id).join(", ")}` });
+        return;
+      }
+      if (indexes[0] <= lastIndex || indexes.some((index, k) => k > 0 && index !== indexes[k - 1] + 1)) {
+        issues.push({ path: `${path}.${i}.sources`, message: "ids must be consecutive, in order, and used once" });
+        return;
+      }
+      lastIndex = indexes[indexes.length - 1];
+      pairs.push({ sources: indexes.map((index) => sentences[index]), text: added.length ? `${added.join(" ")} ${text}` : text, changes: parseChanges(item.changes) });
+      added = [];
+    });
+
+    // Sentences the model skipped are kept as they were
+    const covered = new Set(pairs.flatMap((pair) => pair.sources.map((source) => source.id)));
+    sentences.forEach((sentence) => {
+      if (!covered.has(sentence.id)) pairs.push({ sources: [sentence], text: essay.slice(sentence.start, sentence.end), changes: [] });
+    });
+    pairs.sort((a, b) => a.sources[0].start - b.sources[0].start);
+    // Only new sentences and no ids at all: they join the last sentence of the paragraph
+    if (added.length && pairs.length) pairs[pairs.length - 1].text += ` ${added.join(" ")}`;
+
+    return {
+      sentences: pairs.map(({ sources, text, changes }) => {
+        const start = sources[0].start;
+        const end = sources[sources.length - 1].end;
+        const original = essay.slice(start, end);
+        return { original, anchor: anchorAt(essay, start, end), rewrite: text, changes: text === original ? [] : changes };
+      }),
+    };
+  });
+
+  if (issues.length) return { issues };
+  return { data: { paragraphs, summary: typeof raw.summary === "string" ? raw.summary.trim() : "" }, issues };
+}
+
+/**
+ * Rewrites an essay at the target band, asking the model to correct itself
+ * when its reply does not line up with the essay's sentences.
+ */
+export async function rewriteEssay(
+  input: RewriteInput,
+  provider: LLMProvider,
+  { signal, prompts = loadPrompts() }: RewriteOptions = {},
+): Promise<RewriteOutcome> {
+  const messages = buildRewriteMessages(input, prompts);
+  const meter = createUsageMeter(provider);
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const reply = await provider.complete({ messages, json: true, subject: { purpose: "rewrite", essay: input.essay, taskMode: input.taskMode }, signal });
+    meter.add(messages.map((message) => message.content).join("\n"), reply.content, reply.usage);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(reply.content);
+    } catch {
+      raw = null;
+    }
+    const validation = raw === null ? { issues: [{ path: "(root)", message: "is not valid JSON" }] } : validateRewrite(raw, input.essay);
+    if (validation.data) {
+      const usage = meter.usage(attempt);
+      return { ok: true, data: { target_band: input.targetBand, ...validation.data, prompt_version: prompts.version, usage }, attempts: attempt, usage };
+    }
+    issues = validation.issues;
+
+    console.warn(`Rewrite attempt ${attempt} (${provider.name}/${provider.model}) returned a malformed reply:`, issues);
+    messages.push({ role: "assistant", content: reply.content }, { role: "user", content: renderTemplate(prompts.corrective, { issues }) });
+  }
+
+  return { ok: false, issues, attempts: MAX_ATTEMPTS, usage: meter.usage(MAX_ATTEMPTS) };
+}
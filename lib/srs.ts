@@ -0,0 +1,48 @@
+// Spaced-repetition scheduling in the style of SM-2 (SuperMemo 2): each
+// successful review multiplies the gap before the next one by the card's
+// ease, and each grade nudges the ease up or down. A failed review starts the
+// card over with a one-day gap.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export interface ReviewState {
+  // Successful reviews in a row.
+  repetitions: number;
+  // Days until the next review.
+  interval: number;
+  ease: number;
+  // When the card is next due, in milliseconds since the epoch.
+  due: number;
+  lastReviewed?: number;
+  // Times the card has been forgotten after being learnt.
+  lapses: number;
+}
+
+// SM-2 grades run from 0 (blackout) to 5 (perfect); the review buttons use four of them.
+export type Grade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const GRADES: { grade: Grade; label: string }[] = [
+  { grade: 1, label: "Again" },
+  { grade: 3, label: "Hard" },
+  { grade: 4, label: "Good" },
+  { grade: 5, label: "Easy" },
+];
+
+// A new card is due straight away.
+export const newReviewState = (now = Date.now()): ReviewState => ({ repetitions: 0, interval: 0, ease: 2.5, due: now, lapses: 0 });
+
+export const isDue = (state: ReviewState, now = Date.now()) => state.due <= now;
+
+/** The card's schedule after a review graded `grade`. */
+export function review(state: ReviewState, grade: Grade, now = Date.now()): ReviewState {
+  const ease = Math.max(MIN_EASE, state.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  if (grade < 3) {
+    return { repetitions: 0, interval: 1, ease, due: now + DAY_MS, lastReviewed: now, lapses: state.lapses + (state.repetitions > 0 ? 1 : 0) };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * state.ease);
+  return { repetitions, interval, ease, due: now + interval * DAY_MS, lastReviewed: now, lapses: state.lapses };
+}
@@ -0,0 +1,103 @@
+import { createHash } from "crypto";
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { expiryOf, isLive, type AppendLog, type KeyValueStore, type StoredEntry } from "./types";
+
+interface FileStoreOptions {
+  dir: string;
+}
+
+/**
+ * One JSON file per key under `dir`, so values survive a restart. Writes go
+ * through a temporary file and a rename. Updates to the same key are
+ * serialised within this process; separate processes sharing a directory
+ * may lose an increment under contention.
+ */
+export function createFileStore({ dir }: FileStoreOptions): KeyValueStore {
+  const fileFor = (key: string) => path.join(dir, createHash("sha256").update(key).digest("hex") + ".json");
+  const pending = new Map<string, Promise<unknown>>();
+
+  // Runs `task` after any earlier task on the same key has finished.
+  const serialise = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const run = (pending.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+    pending.set(key, run);
+    run.finally(() => pending.get(key) === run && pending.delete(key)).catch(() => undefined);
+    return run;
+  };
+
+  const read = async (key: string): Promise<StoredEntry | undefined> => {
+    try {
+      const entry = JSON.parse(await readFile(fileFor(key), "utf8")) as StoredEntry;
+      if (isLive(entry)) return entry;
+      await rm(fileFor(key), { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") console.warn(`Could not read store entry ${key}:`, error);
+    }
+    return undefined;
+  };
+
+  const write = async (key: string, entry: StoredEntry) => {
+    await mkdir(dir, { recursive: true });
+    const file = fileFor(key);
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry));
+    await rename(temporary, file);
+  };
+
+  return {
+    name: "file",
+    async get<T>(key: string) {
+      return (await read(key))?.value as T | undefined;
+    },
+    set(key, value, ttlMs) {
+      return serialise(key, () => write(key, { value, expiresAt: expiryOf(ttlMs) }));
+    },
+    delete(key) {
+      return serialise(key, () => rm(fileFor(key), { force: true }));
+    },
+    increment(key, ttlMs) {
+      return serialise(key, async () => {
+        const entry = await read(key);
+        const count = ((entry?.value as number) ?? 0) + 1;
+        await write(key, { value: count, expiresAt: entry?.expiresAt ?? expiryOf(ttlMs) });
+        return count;
+      });
+    },
+    update<T>(key: string, change: (current: T | undefined) => T, ttlMs?: number) {
+      return serialise(key, async () => {
+        const entry = await read(key);
+        const value = change(entry?.value as T | undefined);
+        await write(key, { value, expiresAt: entry ? entry.expiresAt : expiryOf(ttlMs) });
+        return value;
+      });
+    },
+  };
+}
+
+// One JSON line per entry in `file`. A line that does not parse (say, cut
+// short by a crash) is skipped.
+export function createFileLog<T>({ file }: { file: string }): AppendLog<T> {
+  return {
+    async append(entry) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, JSON.stringify(entry) + "\n");
+    },
+    async read() {
+      let text: string;
+      try {
+        text = await readFile(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+      return text.split("\n").flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as T];
+        } catch {
+          return [];
+        }
+      });
+    },
+  };
+}
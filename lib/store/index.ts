@@ -0,0 +1,59 @@
+import path from "node:path";
+import { createFileLog, createFileStore } from "./file";
+import { createMemoryLog, createMemoryStore } from "./memory";
+import type { AppendLog, KeyValueStore, StoreName } from "./types";
+
+export type { AppendLog, KeyValueStore, StoreName } from "./types";
+
+const STORES: StoreName[] = ["memory", "file"];
+
+export class StoreConfigError extends Error {}
+
+// One store or log per namespace, shared by every request this process handles.
+const stores = new Map<string, KeyValueStore>();
+const logs = new Map<string, AppendLog<unknown>>();
+
+const storeName = (env: NodeJS.ProcessEnv) => {
+  const name = (env.STORE || "memory") as StoreName;
+  if (!STORES.includes(name)) throw new StoreConfigError(`Unknown STORE "${name}". Expected one of: ${STORES.join(", ")}.`);
+  return name;
+};
+
+interface StoreOptions {
+  // Records rather than a cache: the memory store never drops them to save space.
+  durable?: boolean;
+}
+
+/**
+ * Returns the store for a namespace such as "limits" or "cache", backed as
+ * the environment says:
+ *
+ *   STORE       memory (default) | file
+ *   STORE_DIR   where the file store keeps its data (default .data)
+ */
+export function getStore(namespace: string, env: NodeJS.ProcessEnv = process.env, { durable = false }: StoreOptions = {}): KeyValueStore {
+  const name = storeName(env);
+  const id = `${name}:${namespace}`;
+  const existing = stores.get(id);
+  if (existing) return existing;
+
+  const store =
+    name === "file"
+      ? createFileStore({ dir: path.resolve(env.STORE_DIR || ".data", namespace) })
+      : createMemoryStore(durable ? { maxEntries: Infinity } : {});
+  stores.set(id, store);
+  return store;
+}
+
+// The append-only counterpart of getStore, e.g. for usage records; the file
+// store writes `<STORE_DIR>/<namespace>.jsonl`.
+export function getLog<T>(namespace: string, env: NodeJS.ProcessEnv = process.env): AppendLog<T> {
+  const name = storeName(env);
+  const id = `${name}:${namespace}`;
+  const existing = logs.get(id);
+  if (existing) return existing as AppendLog<T>;
+
+  const log = name === "file" ? createFileLog<T>({ file: path.resolve(env.STORE_DIR || ".data", `${namespace}.jsonl`) }) : createMemoryLog<T>();
+  logs.set(id, log as AppendLog<unknown>);
+  return log;
+}
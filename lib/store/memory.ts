@@ -0,0 +1,69 @@
+import { expiryOf, isLive, type AppendLog, type KeyValueStore, type StoredEntry } from "./types";
+
+interface MemoryStoreOptions {
+  // Oldest entries are dropped beyond this many; Infinity keeps them all.
+  maxEntries?: number;
+}
+
+// Lives as long as the server process; each instance is separate.
+export function createMemoryStore({ maxEntries = 5_000 }: MemoryStoreOptions = {}): KeyValueStore {
+  const entries = new Map<string, StoredEntry>();
+
+  const put = (key: string, entry: StoredEntry) => {
+    // Re-inserting moves the key to the end, so the first key is the oldest
+    entries.delete(key);
+    entries.set(key, entry);
+    if (entries.size > maxEntries) {
+      for (const [oldKey, oldEntry] of entries) {
+        if (entries.size <= maxEntries && isLive(oldEntry)) break;
+        entries.delete(oldKey);
+      }
+    }
+  };
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (isLive(entry)) return entry;
+    entries.delete(key);
+    return undefined;
+  };
+
+  return {
+    name: "memory",
+    async get<T>(key: string) {
+      return read(key)?.value as T | undefined;
+    },
+    async set(key, value, ttlMs) {
+      put(key, { value, expiresAt: expiryOf(ttlMs) });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async increment(key, ttlMs) {
+      const entry = read(key);
+      const count = ((entry?.value as number) ?? 0) + 1;
+      put(key, { value: count, expiresAt: entry?.expiresAt ?? expiryOf(ttlMs) });
+      return count;
+    },
+    async update<T>(key: string, change: (current: T | undefined) => T, ttlMs?: number) {
+      const entry = read(key);
+      const value = change(entry?.value as T | undefined);
+      put(key, { value, expiresAt: entry ? entry.expiresAt : expiryOf(ttlMs) });
+      return value;
+    },
+  };
+}
+
+// Keeps the most recent `maxEntries` entries.
+export function createMemoryLog<T>({ maxEntries = 50_000 }: MemoryStoreOptions = {}): AppendLog<T> {
+  const entries: T[] = [];
+  return {
+    async append(entry) {
+      entries.push(entry);
+      if (entries.length > maxEntries) entries.splice(0, entries.length - maxEntries);
+    },
+    async read() {
+      return [...entries];
+    },
+  };
+}
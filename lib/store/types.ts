@@ -0,0 +1,36 @@
+// A small key-value store with expiry, enough for rate-limit counters,
+// cached analyses and classroom records without an external service.
+export interface KeyValueStore {
+  name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  // `ttlMs` is how long the value lives; without it the value never expires.
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Adds one to a counter, creating it with `ttlMs` to live if it is missing
+  // or expired, and returns the new count.
+  increment(key: string, ttlMs: number): Promise<number>;
+  // Replaces the value with `change(current)`, where `current` is undefined
+  // if the key is missing or expired, without losing a concurrent update to
+  // the same key. Keeps the entry's expiry unless it is new.
+  update<T>(key: string, change: (current: T | undefined) => T, ttlMs?: number): Promise<T>;
+}
+
+// Entries in the order they were added, for records that are only ever
+// appended and read back in bulk.
+export interface AppendLog<T> {
+  append(entry: T): Promise<void>;
+  read(): Promise<T[]>;
+}
+
+export type StoreName = "memory" | "file";
+
+export interface StoredEntry<T = unknown> {
+  value: T;
+  // Epoch milliseconds, or null for no expiry.
+  expiresAt: number | null;
+}
+
+export const isLive = (entry: StoredEntry | undefined, now = Date.now()): entry is StoredEntry =>
+  !!entry && (entry.expiresAt === null || entry.expiresAt > now);
+
+export const expiryOf = (ttlMs?: number) => (ttlMs === undefined ? null : Date.now() + ttlMs);
@@ -0,0 +1,170 @@
+// IELTS Writing task modes.
+// Each mode carries its own examiner guidance for the prompt, its own name
+// for the first criterion (Task Achievement for Task 1, Task Response for
+// Task 2) and the checklist the model must report on in `task_checks`.
+// The JSON key for the first criterion stays `task_achievement` in every
+// mode so stored analyses remain comparable.
+
+import type { CriterionKey } from "@/lib/feedback";
+import type { VisualKind } from "@/lib/question";
+
+export type TaskType = "Task 1" | "Task 2";
+
+export type Task1Module = "academic" | "general";
+
+export const ACADEMIC_VISUALS = ["line", "bar", "pie", "table", "process", "map"] as const;
+export type AcademicVisual = (typeof ACADEMIC_VISUALS)[number];
+
+export const LETTER_REGISTERS = ["formal", "semi-formal", "informal"] as const;
+export type LetterRegister = (typeof LETTER_REGISTERS)[number];
+
+export type TaskModeId = "task2" | `task1-academic-${AcademicVisual}` | `task1-general-${LetterRegister}`;
+
+export interface TaskCheckDefinition {
+  id: string;
+  label: string;
+}
+
+export interface TaskMode {
+  id: TaskModeId;
+  task: TaskType;
+  module?: Task1Module;
+  // Short name for selectors, e.g. "Line graph" or "Formal letter".
+  label: string;
+  minWords: number;
+  // How the Academic Task 1 visual is described to the model, if there is one.
+  visual?: VisualKind;
+  // Mode-specific examiner guidance inserted into the analysis prompt.
+  instructions: string;
+  checks: TaskCheckDefinition[];
+}
+
+const ACADEMIC_CHECKS: TaskCheckDefinition[] = [
+  { id: "overview", label: "Overview present" },
+  { id: "key_features", label: "Key features selected and compared" },
+  { id: "data_accuracy", label: "Data reported accurately" },
+  { id: "no_opinion", label: "No personal opinion or speculation" },
+];
+
+const ACADEMIC_VISUAL_DETAILS: Record<AcademicVisual, { label: string; instructions: string; checks: TaskCheckDefinition[] }> = {
+  line: {
+    label: "Line graph",
+    instructions: "The candidate describes a line graph. Look for the overall trends, the highest and lowest points, and comparisons between lines over time rather than a period-by-period list.",
+    checks: [{ id: "trends", label: "Trends over time described" }],
+  },
+  bar: {
+    label: "Bar chart",
+    instructions: "The candidate describes a bar chart. Look for grouping of similar categories and meaningful comparisons rather than a bar-by-bar list.",
+    checks: [{ id: "comparisons", label: "Categories compared, not just listed" }],
+  },
+  pie: {
+    label: "Pie chart",
+    instructions: "The candidate describes one or more pie charts. Look for comparisons of proportions, accurate use of fractions and percentages, and the largest and smallest segments.",
+    checks: [{ id: "proportions", label: "Proportions compared accurately" }],
+  },
+  table: {
+    label: "Table",
+    instructions: "The candidate describes a table. Look for selection of significant figures, grouping of rows or columns, and comparison rather than reproducing every number.",
+    checks: [{ id: "selection", label: "Significant figures selected, not all reproduced" }],
+  },
+  process: {
+    label: "Process diagram",
+    instructions: "The candidate describes a process. Look for every stage in the correct sequence, appropriate sequencing language, and the passive voice where the agent is unimportant. An overview should state the number of stages and where the process begins and ends.",
+    checks: [
+      { id: "all_stages", label: "All stages covered in sequence" },
+      { id: "sequencing", label: "Sequencing language and passive voice used" },
+    ],
+  },
+  map: {
+    label: "Map",
+    instructions: "The candidate compares maps. Look for the main changes between the maps, accurate location and direction language, and an overview of how the area developed overall.",
+    checks: [
+      { id: "changes", label: "Main changes between maps described" },
+      { id: "location_language", label: "Location and direction language used" },
+    ],
+  },
+};
+
+const LETTER_TONES: Record<LetterRegister, string> = {
+  formal: "a formal letter to someone the writer does not know (e.g. a company or official). Expect 'Dear Sir or Madam', no contractions, polite and impersonal phrasing, and 'Yours faithfully'.",
+  "semi-formal": "a semi-formal letter to someone the writer knows but not closely (e.g. a neighbour or manager). Expect 'Dear Mr/Ms + surname', a polite but personal tone, and 'Yours sincerely' or 'Kind regards'.",
+  informal: "an informal letter to a friend or relative. Expect a first-name greeting, a warm conversational tone, contractions and idiomatic language, and a friendly sign-off.",
+};
+
+const LETTER_CHECKS = (register: LetterRegister): TaskCheckDefinition[] => [
+  { id: "purpose", label: "Letter purpose stated clearly" },
+  { id: "bullet_points", label: "All bullet points covered and extended" },
+  { id: "tone", label: `Tone consistently ${register}` },
+  { id: "opening_closing", label: "Appropriate opening and closing" },
+];
+
+const task1Academic = (visual: AcademicVisual): TaskMode => {
+  const detail = ACADEMIC_VISUAL_DETAILS[visual];
+  return {
+    id: `task1-academic-${visual}`,
+    task: "Task 1",
+    module: "academic",
+    label: detail.label,
+    minWords: 150,
+    visual: visual === "process" || visual === "map" ? "steps" : "table",
+    instructions: `This is IELTS Academic Writing Task 1. ${detail.instructions} Assess the first criterion as Task Achievement: a clear overview is essential for band 6 and above, key features must be highlighted and supported with data, and the response must not include opinions or information that is not in the visual.`,
+    checks: [...ACADEMIC_CHECKS, ...detail.checks],
+  };
+};
+
+const task1General = (register: LetterRegister): TaskMode => ({
+  id: `task1-general-${register}`,
+  task: "Task 1",
+  module: "general",
+  label: `${register.charAt(0).toUpperCase()}${register.slice(1)} letter`,
+  minWords: 150,
+  instructions: `This is IELTS General Training Writing Task 1: ${LETTER_TONES[register]} Assess the first criterion as Task Achievement: the purpose of the letter must be clear, each bullet point in the question must be covered and extended, and the tone must suit the recipient throughout.`,
+  checks: LETTER_CHECKS(register),
+});
+
+const TASK2: TaskMode = {
+  id: "task2",
+  task: "Task 2",
+  label: "Essay",
+  minWords: 250,
+  instructions: "This is IELTS Writing Task 2. Assess the first criterion as Task Response: every part of the question must be addressed, a clear position must be presented throughout, and main ideas must be extended and supported.",
+  checks: [
+    { id: "all_parts", label: "All parts of the question addressed" },
+    { id: "position", label: "Clear position throughout" },
+    { id: "development", label: "Main ideas extended and supported" },
+    { id: "conclusion", label: "Relevant conclusion" },
+  ],
+};
+
+export const TASK_MODES: TaskMode[] = [
+  ...ACADEMIC_VISUALS.map(task1Academic),
+  ...LETTER_REGISTERS.map(task1General),
+  TASK2,
+];
+
+const TASK_MODES_BY_ID = new Map(TASK_MODES.map((mode) => [mode.id, mode]));
+
+export const DEFAULT_TASK_MODE: TaskModeId = "task2";
+
+export function isTaskModeId(value: unknown): value is TaskModeId {
+  return typeof value === "string" && TASK_MODES_BY_ID.has(value as TaskModeId);
+}
+
+export function getTaskMode(id: TaskModeId): TaskMode {
+  return TASK_MODES_BY_ID.get(id) ?? TASK2;
+}
+
+// Full name for headings and prompts, e.g. "Task 1 (Academic, Line graph)".
+export function describeTaskMode(mode: TaskMode): string {
+  if (mode.task === "Task 2") return "Task 2";
+  return `Task 1 (${mode.module === "academic" ? "Academic" : "General Training"}, ${mode.label})`;
+}
+
+export function criterionNames(mode: TaskMode): Record<CriterionKey, { label: string; short: string }> {
+  return {
+    task_achievement: mode.task === "Task 2" ? { label: "Task Response", short: "TR" } : { label: "Task Achievement", short: "TA" },
+    coherence_cohesion: { label: "Coherence & Cohesion", short: "CC" },
+    lexical_resource: { label: "Lexical Resource", short: "LR" },
+    grammatical_range_accuracy: { label: "Grammatical Range & Accuracy", short: "GRA" },
+  };
+}
@@ -0,0 +1,122 @@
+// A small logic-light template language for the prompt files in data/prompts:
+//
+//   {{name}} / {{a.b}}             the value at that path; arrays are joined with newlines
+//   {{#if path}}...{{else}}...{{/if}}   truthy test (empty strings and arrays are false)
+//   {{#unless path}}...{{/unless}}      the opposite test
+//   {{#each path}}...{{/each}}     repeats the block with the item in scope; {{this}} is the
+//                                  item itself and {{@number}} its 1-based position
+//
+// A block tag alone on its line takes the whole line with it, so templates can
+// put tags on their own lines without leaving blank lines behind. An unknown
+// variable is an error rather than an empty string, so a typo in a template
+// fails loudly instead of silently dropping part of the prompt.
+
+export class TemplateError extends Error {}
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "var"; path: string }
+  | { kind: "if"; path: string; then: Node[]; otherwise: Node[]; negate?: boolean }
+  | { kind: "each"; path: string; body: Node[] };
+
+type Scope = { value: unknown; number?: number }[];
+
+const TAG = /{{\s*([#/]?)([\w.@]*)(?:\s+([\w.@]+))?\s*}}/g;
+const STANDALONE = /^[ \t]*({{\s*(?:[#/][\w]+(?:\s+[\w.@]+)?|else)\s*}})[ \t]*\r?\n/gm;
+
+function parse(template: string): Node[] {
+  const source = template.replace(STANDALONE, "$1");
+  const root: Node[] = [];
+  // Open blocks, innermost last; `nodes` is where the next node goes.
+  const stack: { tag: string; node: Extract<Node, { kind: "if" | "each" }>; nodes: Node[] }[] = [];
+  let nodes = root;
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, sigil, name, argument] = match;
+    if (match.index > last) nodes.push({ kind: "text", text: source.slice(last, match.index) });
+    last = match.index + tag.length;
+
+    if (sigil === "#") {
+      if (!["if", "unless", "each"].includes(name) || !argument) throw new TemplateError(`Unknown block tag ${tag}`);
+      const node: Node =
+        name === "each"
+          ? { kind: "each", path: argument, body: [] }
+          : { kind: "if", path: argument, then: [], otherwise: [], negate: name === "unless" };
+      nodes.push(node);
+      stack.push({ tag: name, node, nodes: node.kind === "if" ? node.then : node.body });
+      nodes = stack[stack.length - 1].nodes;
+    } else if (sigil === "/") {
+      const open = stack.pop();
+      if (!open || open.tag !== name) throw new TemplateError(`Unexpected ${tag}`);
+      nodes = stack.length ? stack[stack.length - 1].nodes : root;
+    } else if (name === "else") {
+      const open = stack[stack.length - 1];
+      if (open?.node.kind !== "if" || open.nodes === open.node.otherwise) throw new TemplateError("Unexpected {{else}}");
+      open.nodes = open.node.otherwise;
+      nodes = open.nodes;
+    } else {
+      nodes.push({ kind: "var", path: name });
+    }
+  }
+
+  if (stack.length) throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].tag}}}`);
+  if (last < source.length) nodes.push({ kind: "text", text: source.slice(last) });
+  return root;
+}
+
+// Innermost scope first, so an item's fields shadow the outer variables.
+function lookup(path: string, scope: Scope): unknown {
+  const frame = scope[scope.length - 1];
+  if (path === "this") return frame.value;
+  if (path === "@number") {
+    if (frame.number === undefined) throw new TemplateError("{{@number}} used outside {{#each}}");
+    return frame.number;
+  }
+
+  const [head, ...rest] = path.split(".");
+  for (let i = scope.length - 1; i >= 0; i--) {
+    const value = scope[i].value;
+    if (value && typeof value === "object" && head in value) {
+      return rest.reduce<unknown>((current, key) => {
+        if (!current || typeof current !== "object" || !(key in current)) throw new TemplateError(`Unknown variable "${path}"`);
+        return (current as Record<string, unknown>)[key];
+      }, (value as Record<string, unknown>)[head]);
+    }
+  }
+  throw new TemplateError(`Unknown variable "${path}"`);
+}
+
+const truthy = (value: unknown) => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+function print(value: unknown, path: string): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map((item) => print(item, path)).join("\n");
+  if (typeof value === "object") throw new TemplateError(`"${path}" is an object; use one of its fields`);
+  return String(value);
+}
+
+function render(nodes: Node[], scope: Scope): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.text;
+        case "var":
+          return print(lookup(node.path, scope), node.path);
+        case "if":
+          return render(truthy(lookup(node.path, scope)) !== !!node.negate ? node.then : node.otherwise, scope);
+        case "each": {
+          const items = lookup(node.path, scope);
+          if (!Array.isArray(items)) throw new TemplateError(`{{#each ${node.path}}} needs a list`);
+          return items.map((item, index) => render(node.body, [...scope, { value: item, number: index + 1 }])).join("");
+        }
+      }
+    })
+    .join("");
+}
+
+/** Fills `template` with `variables`, throwing a TemplateError on bad syntax or unknown names. */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return render(parse(template), [{ value: variables }]);
+}
@@ -0,0 +1,298 @@
+// Measurable features of a response, computed locally and deterministically:
+// the same text always gives the same numbers, with no model involved. They
+// are shown next to the editor and given to the model as grounding.
+//
+// Everything here is a heuristic on plain text (no parser or dictionary beyond
+// the word lists below), so the numbers are indicators, not judgements.
+
+import awl from "@/data/academic-word-list.json";
+import { countWords } from "@/lib/word-count";
+
+export interface Repeat {
+  text: string;
+  count: number;
+}
+
+export interface LinkingFunction {
+  function: LinkingFunctionName;
+  count: number;
+  // Each linker used, most frequent first.
+  linkers: Repeat[];
+}
+
+export interface TextMetrics {
+  words: number;
+  sentences: {
+    count: number;
+    // Words per sentence.
+    mean: number;
+    min: number;
+    max: number;
+    // Fewer than SHORT_SENTENCE or more than LONG_SENTENCE words.
+    short: number;
+    long: number;
+    lengths: number[];
+  };
+  paragraphs: {
+    count: number;
+    // Words in each paragraph, in order.
+    lengths: number[];
+  };
+  // Distinct words / all words, 0-1. Falls as texts get longer, so compare like with like.
+  typeTokenRatio: number;
+  academicWords: {
+    count: number;
+    // Share of all words that belong to an Academic Word List family, 0-1.
+    coverage: number;
+    // Headwords of the families used, most frequent first.
+    families: Repeat[];
+  };
+  readability: {
+    fleschReadingEase: number;
+    fleschKincaidGrade: number;
+  };
+  // Content words used at least REPEATED_WORD times.
+  repeatedWords: Repeat[];
+  // Phrases of 2-4 words used more than once.
+  repeatedPhrases: Repeat[];
+  linking: {
+    total: number;
+    distinct: number;
+    perSentence: number;
+    functions: LinkingFunction[];
+  };
+  // Share of sentences with a passive construction, 0-1.
+  passiveRatio: number;
+  // Share of sentences with a subordinate or relative clause, 0-1.
+  complexRatio: number;
+}
+
+const SHORT_SENTENCE = 8;
+const LONG_SENTENCE = 35;
+const REPEATED_WORD = 4;
+const MAX_REPEATS = 8;
+
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+const words = (text: string) => (text.toLowerCase().match(WORD) ?? []).map((word) => word.replace(/’/g, "'"));
+
+// Common abbreviations whose full stop does not end a sentence.
+const ABBREVIATIONS = /\b(?:e\.g|i\.e|etc|vs|approx|mr|mrs|ms|dr|prof|no)\.$/i;
+
+// Initialisms such as "U.S." or "U.K.", which end a sentence only when the
+// next word starts one.
+const INITIALISM = /(?:^|[^\p{L}.])(?:\p{Lu}\.){2,}$/u;
+
+/** Whether a full stop at the end of `before` is not the end of the sentence that `after` continues. */
+export const continuesSentence = (before: string, after: string) =>
+  ABBREVIATIONS.test(before) || (INITIALISM.test(before) && /^[\p{Ll}\p{N}]/u.test(after));
+
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    for (const piece of line.split(/(?<=[.!?])\s+/)) {
+      const last = sentences.at(-1);
+      // Rejoin a piece split after an abbreviation on the same line
+      if (last !== undefined && continuesSentence(last, piece) && line.includes(`${last} ${piece}`)) {
+        sentences[sentences.length - 1] = `${last} ${piece}`;
+      } else if (/[\p{L}\p{N}]/u.test(piece)) {
+        sentences.push(piece.trim());
+      }
+    }
+  }
+  return sentences;
+}
+
+// Any line break starts a new paragraph, as in the editor.
+const splitParagraphs = (text: string) => text.split(/\n+/).filter((paragraph) => /[\p{L}\p{N}]/u.test(paragraph));
+
+// Vowel groups, less a silent final "e": close enough for readability formulas.
+function syllables(word: string): number {
+  const groups = word.replace(/(?:[^laeiouy]es|[^laeiouy]e|ed)$/, "").match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const ratio = (part: number, whole: number) => (whole ? round(part / whole) : 0);
+
+function tally(items: string[]): Repeat[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => counts.set(item, (counts.get(item) ?? 0) + 1));
+  return [...counts].map(([text, count]) => ({ text, count })).sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+}
+
+// Function words, ignored when looking for repetition.
+const STOPWORDS = new Set(
+  `a an the and or but nor so yet of in on at to for from by with about as into than then that this these those there their they them
+  it its it's is are was were be been being am do does did done have has had having i me my we our us you your he him his she her
+  which who whom whose what when where why how not no can could will would shall should may might must also more most very such
+  some any all each every other one many much if because while although though both either neither only just own same too over
+  under again further once here out up down off above below between through during before after`.split(/\s+/),
+);
+
+// --- Academic Word List -------------------------------------------------------
+
+// Family members are recognised by stripping a suffix and looking the stem up,
+// allowing for a dropped "e" or "y" and a doubled final consonant. This misses
+// irregular members (e.g. "analytical") and may count a few homographs.
+const SUFFIXES = [
+  "", "s", "es", "d", "ed", "ing", "ly", "al", "ally", "ial", "ially", "ic", "ical", "ically", "ive", "ively", "ion", "ions", "ation", "ations",
+  "ity", "ities", "ment", "ments", "ance", "ances", "ence", "ences", "ant", "ants", "ent", "ents", "er", "ers", "or", "ors", "ism", "ist", "ists",
+  "ness", "able", "ably", "ability", "ible", "ies", "ied", "is", "ure", "ures",
+].sort((a, b) => b.length - a.length);
+
+const headwords = new Map<string, string>();
+for (const headword of awl.sublists.flat()) {
+  headwords.set(headword, headword);
+  // American spellings
+  const american = headword.replace(/ise$/, "ize").replace(/yse$/, "yze").replace(/our$/, "or").replace(/^licence$/, "license");
+  if (american !== headword) headwords.set(american, headword);
+}
+
+function academicFamily(word: string): string | undefined {
+  for (const suffix of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 3) continue;
+    const stem = word.slice(0, word.length - suffix.length);
+    // A dropped "e" only before a vowel ending ("using"), not before "-ies" ("cities") or none at all ("them")
+    const candidates = /^[aeiou](?!e)/.test(suffix) ? [stem, `${stem}e`] : [stem];
+    if (suffix.startsWith("i")) candidates.push(`${stem}y`);
+    if (suffix && stem.at(-1) === stem.at(-2)) candidates.push(stem.slice(0, -1));
+    for (const candidate of candidates) {
+      const headword = headwords.get(candidate);
+      if (headword) return headword;
+    }
+  }
+  return undefined;
+}
+
+// --- Linking words --------------------------------------------------------------
+
+export type LinkingFunctionName = "addition" | "contrast" | "cause and effect" | "example" | "sequence" | "conclusion";
+
+const LINKERS: Record<LinkingFunctionName, string[]> = {
+  addition: ["furthermore", "moreover", "in addition", "additionally", "besides", "what is more", "as well as"],
+  contrast: ["however", "nevertheless", "nonetheless", "although", "even though", "whereas", "on the other hand", "in contrast", "conversely", "despite", "in spite of", "on the contrary"],
+  "cause and effect": ["therefore", "thus", "consequently", "as a result", "as a consequence", "hence", "because", "due to", "for this reason", "owing to", "thereby"],
+  example: ["for example", "for instance", "such as", "namely", "in particular", "to illustrate"],
+  sequence: ["firstly", "first of all", "secondly", "thirdly", "finally", "lastly", "subsequently", "meanwhile"],
+  conclusion: ["in conclusion", "to conclude", "to sum up", "in summary", "all in all", "overall", "to summarise"],
+};
+
+const linkerPattern = (linker: string) => new RegExp(`\\b${linker.replace(/ /g, "\\s+")}\\b`, "gi");
+
+// --- Sentence patterns ------------------------------------------------------------
+
+const IRREGULAR_PARTICIPLES =
+  "known|given|taken|seen|made|done|written|shown|built|taught|thought|brought|bought|found|held|kept|left|lost|paid|said|sent|spent|told|understood|won|chosen|driven|eaten|forgotten|grown|hidden|spoken|stolen|worn|begun|drawn|born|put|set|cut|read|meant|led|fed|spread|hit|hurt|shut|sold|met";
+
+// A form of "be" followed (perhaps after an adverb) by a past participle.
+const PASSIVE = new RegExp(`\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:(?!indeed\\b|need\\b)\\w+ed|${IRREGULAR_PARTICIPLES})\\b`, "i");
+
+const SUBORDINATE =
+  /\b(?:because|although|though|whereas|while|whilst|if|unless|when|whenever|since|until|which|who|whom|whose|where|so that|in order that|as long as|provided that)\b/i;
+
+// --- Measuring ---------------------------------------------------------------------
+
+function repeatedPhrases(sentences: string[][]): Repeat[] {
+  const phrases: string[] = [];
+  for (const tokens of sentences) {
+    for (let n = 2; n <= 4; n++) {
+      for (let i = 0; i + n <= tokens.length; i++) {
+        const phrase = tokens.slice(i, i + n);
+        if (phrase.some((word) => !STOPWORDS.has(word))) phrases.push(phrase.join(" "));
+      }
+    }
+  }
+  const repeated = tally(phrases).filter((phrase) => phrase.count > 1);
+  // Report "the number of people" rather than also "number of people" and "the number of"
+  return repeated
+    .filter((phrase) => !repeated.some((other) => other.count === phrase.count && other.text !== phrase.text && ` ${other.text} `.includes(` ${phrase.text} `)))
+    .slice(0, MAX_REPEATS);
+}
+
+export function measureText(text: string): TextMetrics {
+  const sentenceTexts = splitSentences(text);
+  const sentenceWords = sentenceTexts.map(words);
+  const lengths = sentenceTexts.map(countWords);
+  const tokens = words(text);
+  const totalSyllables = tokens.reduce((sum, word) => sum + syllables(word), 0);
+  const wordsPerSentence = sentenceTexts.length ? tokens.length / sentenceTexts.length : 0;
+  const syllablesPerWord = tokens.length ? totalSyllables / tokens.length : 0;
+
+  const academic = tokens.map(academicFamily).filter((family): family is string => family !== undefined);
+
+  const functions = (Object.entries(LINKERS) as [LinkingFunctionName, string[]][]).map(([name, linkers]) => {
+    const used = linkers.flatMap((linker) => Array<string>((text.match(linkerPattern(linker)) ?? []).length).fill(linker));
+    return { function: name, count: used.length, linkers: tally(used) };
+  });
+  const linkingTotal = functions.reduce((sum, f) => sum + f.count, 0);
+
+  return {
+    words: countWords(text),
+    sentences: {
+      count: sentenceTexts.length,
+      mean: lengths.length ? round(lengths.reduce((sum, n) => sum + n, 0) / lengths.length, 1) : 0,
+      min: lengths.length ? Math.min(...lengths) : 0,
+      max: lengths.length ? Math.max(...lengths) : 0,
+      short: lengths.filter((n) => n < SHORT_SENTENCE).length,
+      long: lengths.filter((n) => n > LONG_SENTENCE).length,
+      lengths,
+    },
+    paragraphs: {
+      count: splitParagraphs(text).length,
+      lengths: splitParagraphs(text).map(countWords),
+    },
+    typeTokenRatio: ratio(new Set(tokens).size, tokens.length),
+    academicWords: {
+      count: academic.length,
+      coverage: ratio(academic.length, tokens.length),
+      families: tally(academic),
+    },
+    readability: {
+      // The formulas overshoot on very short or very simple texts, so keep them on their scales
+      fleschReadingEase: tokens.length ? round(clamp(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 0, 100), 1) : 0,
+      fleschKincaidGrade: tokens.length ? round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59), 1) : 0,
+    },
+    repeatedWords: tally(tokens.filter((word) => !STOPWORDS.has(word) && !/^\d/.test(word)))
+      .filter((word) => word.count >= REPEATED_WORD)
+      .slice(0, MAX_REPEATS),
+    repeatedPhrases: repeatedPhrases(sentenceWords),
+    linking: {
+      total: linkingTotal,
+      distinct: functions.reduce((sum, f) => sum + f.linkers.length, 0),
+      perSentence: ratio(linkingTotal, sentenceTexts.length),
+      functions,
+    },
+    passiveRatio: ratio(sentenceTexts.filter((sentence) => PASSIVE.test(sentence)).length, sentenceTexts.length),
+    complexRatio: ratio(sentenceTexts.filter((sentence) => SUBORDINATE.test(sentence)).length, sentenceTexts.length),
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count} ${count === 1 ? noun : nouns}`;
+
+const list = (repeats: Repeat[]) => repeats.map((r) => `"${r.text}" ×${r.count}`).join(", ");
+
+// A summary for the analysis prompt, one line per feature.
+export function describeMetrics(metrics: TextMetrics): string[] {
+  const { sentences, paragraphs, linking } = metrics;
+  const lines = [
+    sentences.count
+      ? `${plural(sentences.count, "sentence")}, ${sentences.mean} words on average (shortest ${sentences.min}, longest ${sentences.max}; ${sentences.short} under ${SHORT_SENTENCE} words, ${sentences.long} over ${LONG_SENTENCE}).`
+      : "No sentences.",
+    paragraphs.count
+      ? `${plural(paragraphs.count, "paragraph")} of ${paragraphs.lengths.join(", ")} words.`
+      : "No paragraphs.",
+    `Type-token ratio ${metrics.typeTokenRatio}; Academic Word List coverage ${percent(metrics.academicWords.coverage)} (${plural(metrics.academicWords.families.length, "family", "families")}).`,
+    `Flesch reading ease ${metrics.readability.fleschReadingEase}, Flesch-Kincaid grade ${metrics.readability.fleschKincaidGrade}.`,
+    `${plural(linking.total, "linking expression")} (${linking.distinct} different): ${linking.functions.filter((f) => f.count).map((f) => `${f.function} ${list(f.linkers)}`).join("; ") || "none"}.`,
+    `Sentences with a passive: ${percent(metrics.passiveRatio)}; with a subordinate or relative clause: ${percent(metrics.complexRatio)}.`,
+  ];
+  if (metrics.repeatedWords.length) lines.push(`Most repeated content words: ${list(metrics.repeatedWords)}.`);
+  if (metrics.repeatedPhrases.length) lines.push(`Repeated phrases: ${list(metrics.repeatedPhrases)}.`);
+  return lines;
+}
@@ -0,0 +1,198 @@
+// The follow-up tutor: answers a student's question about one analysis,
+// streaming the reply as it is written. Edits the tutor suggests are located
+// in the essay here, and any it quoted wrongly are dropped, so the client only
+// ever offers edits that apply to the text they name.
+
+import type { AnalyzeInput } from "@/lib/analyze";
+import { createAnchorLocator } from "@/lib/anchors";
+import { CRITERIA, validateFeedback, type CriterionKey, type FeedbackData } from "@/lib/feedback";
+import { detectInjection, INJECTION_LABELS } from "@/lib/injection";
+import { fenceText, INPUT_LIMITS, parseAnalyzeRequest, tooLong } from "@/lib/input-safety";
+import { loadPrompts, PromptConfigError, type PromptSet } from "@/lib/prompts";
+import type { ChatMessage, LLMProvider, TokenUsage } from "@/lib/providers";
+import { formatVisual } from "@/lib/question";
+import { criterionNames, describeTaskMode, getTaskMode } from "@/lib/tasks";
+import { renderTemplate } from "@/lib/template";
+import { describeFocus, splitTutorReply, TUTOR_HISTORY, type TutorEdit, type TutorFocus, type TutorMessage } from "@/lib/tutor";
+import { createUsageMeter, type AnalysisUsage } from "@/lib/usage";
+
+// Edits kept from one reply; the prompt asks for at most three.
+const MAX_EDITS = 5;
+
+export interface TutorInput extends AnalyzeInput {
+  // The analysis being discussed, with anchors into `essay` as it is now.
+  feedback: FeedbackData;
+  // What the latest question is about.
+  focus?: TutorFocus;
+  // The conversation so far, ending with the student's question.
+  messages: Pick<TutorMessage, "role" | "content">[];
+}
+
+export interface TutorOutcome {
+  message: TutorMessage;
+  usage: AnalysisUsage;
+}
+
+export interface TutorOptions {
+  signal?: AbortSignal;
+  // Called with each piece of the raw reply as it arrives.
+  onDelta?: (text: string) => void;
+  // Defaults to the version chosen by PROMPT_VERSION (see lib/prompts.ts).
+  prompts?: PromptSet;
+}
+
+// The analysis as plain text for the model, without anchors or usage.
+function formatFeedback(feedback: FeedbackData, names: Record<CriterionKey, { label: string }>): string {
+  const lines = [`Overall band: ${feedback.band_score}`];
+  for (const key of CRITERIA) {
+    const detail = feedback.feedback[key];
+    lines.push("", `${names[key].label}: band ${detail.band}`, detail.summary);
+    if (detail.justification) lines.push(`Why: ${detail.justification}`);
+    detail.tips.forEach((tip, i) => lines.push(`Tip ${i + 1}: ${tip.tip}`));
+  }
+  if (feedback.corrections.length) {
+    lines.push("", "Corrections:");
+    feedback.corrections.forEach((c, i) => lines.push(`${i + 1}. "${c.original}" → "${c.replacement}" (${c.type}): ${c.explanation}`));
+  }
+  if (feedback.prioritized_suggestions.length) {
+    lines.push("", "Action plan:");
+    feedback.prioritized_suggestions.forEach((s) => lines.push(`- (${s.priority}) ${s.issue}: ${s.suggestion}`));
+  }
+  if (feedback.general_comment) lines.push("", `General comment: ${feedback.general_comment}`);
+  return lines.join("\n");
+}
+
+function formatFocus(feedback: FeedbackData, focus: TutorFocus, names: Record<CriterionKey, { label: string }>): string {
+  if (focus.kind === "criterion") return `The examiner's feedback on ${names[focus.criterion].label}`;
+  const text = describeFocus(feedback, focus);
+  if (focus.kind === "tip") return `A tip on ${names[focus.criterion].label}: ${text}`;
+  return `The correction ${text}: ${feedback.corrections[focus.index].explanation}`;
+}
+
+export function buildTutorMessages(input: TutorInput, prompts: PromptSet): ChatMessage[] {
+  if (!prompts.tutor || !prompts.submission) {
+    throw new PromptConfigError(`Prompt version "${prompts.version}" has no tutor.md and submission.md.`);
+  }
+  const { essay, taskMode, question, feedback, focus, messages } = input;
+  const mode = getTaskMode(taskMode);
+  const names = criterionNames(mode);
+
+  const system = renderTemplate(prompts.tutor, {
+    task: describeTaskMode(mode),
+    instructions: mode.instructions,
+    band: feedback.band_score,
+    injection_flags: [...new Set(detectInjection(essay, question).map((flag) => `${INJECTION_LABELS[flag.kind]} (in the ${flag.source})`))],
+    focus: !!focus,
+  });
+  const material = renderTemplate(prompts.submission, {
+    question: question && {
+      text: fenceText(question.text),
+      visual: question.visual ? fenceText(formatVisual(question.visual)) : "",
+    },
+    essay: fenceText(essay),
+  });
+
+  const conversation: ChatMessage[] = messages.map(({ role, content }) => ({ role: role === "student" ? "user" : "assistant", content }));
+  if (focus) {
+    const last = conversation[conversation.length - 1];
+    last.content += `\n\n<focus>\n${fenceText(formatFocus(feedback, focus, names))}\n</focus>`;
+  }
+  return [
+    { role: "system", content: system },
+    { role: "user", content: `${material}\n<feedback>\n${fenceText(formatFeedback(feedback, names))}\n</feedback>` },
+    ...conversation,
+  ];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export type ParsedTutorRequest = { ok: true; input: TutorInput } | { ok: false; error: string };
+
+function parseFocus(raw: unknown, feedback: TutorInput["feedback"]): TutorFocus | null {
+  if (!isObject(raw)) return null;
+  const { kind, criterion, index } = raw;
+  const inRange = (length: number) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < length;
+  if (kind === "correction") return inRange(feedback.corrections.length) ? { kind, index: index as number } : null;
+  if (!CRITERIA.includes(criterion as CriterionKey)) return null;
+  const key = criterion as CriterionKey;
+  if (kind === "tip") return inRange(feedback.feedback[key].tips.length) ? { kind, criterion: key, index: index as number } : null;
+  return kind === "criterion" ? { kind, criterion: key } : null;
+}
+
+/**
+ * Validates a decoded /api/tutor body: an analyze request plus the analysis
+ * being discussed, an optional focus on one of its items, and the
+ * conversation so far, ending with the student's question.
+ */
+export function parseTutorRequest(body: unknown): ParsedTutorRequest {
+  const parsed = parseAnalyzeRequest(body);
+  if (!parsed.ok) return parsed;
+  const { feedback: rawFeedback, focus: rawFocus, messages: rawMessages } = body as Json;
+
+  const { data: feedback, issues } = validateFeedback(rawFeedback);
+  if (issues.length) return { ok: false, error: "feedback must be a complete analysis." };
+
+  const focus = rawFocus === undefined || rawFocus === null ? undefined : parseFocus(rawFocus, feedback);
+  if (focus === null) return { ok: false, error: "focus does not match an item of the analysis." };
+
+  if (!Array.isArray(rawMessages) || rawMessages.length === 0 || rawMessages.length > TUTOR_HISTORY) {
+    return { ok: false, error: `messages must be an array of 1 to ${TUTOR_HISTORY} messages.` };
+  }
+  const messages: TutorInput["messages"] = [];
+  for (const message of rawMessages) {
+    if (!isObject(message) || (message.role !== "student" && message.role !== "tutor") || typeof message.content !== "string" || !message.content.trim()) {
+      return { ok: false, error: 'Each message needs a role of "student" or "tutor" and some content.' };
+    }
+    if (message.content.length > INPUT_LIMITS.tutorMessageChars) {
+      return { ok: false, error: tooLong("A message", message.content.length, INPUT_LIMITS.tutorMessageChars) };
+    }
+    messages.push({ role: message.role, content: message.content });
+  }
+  if (messages[messages.length - 1].role !== "student") return { ok: false, error: "The last message must be the student's question." };
+
+  return { ok: true, input: { ...parsed.input, feedback, focus, messages } };
+}
+
+/** Keeps the suggested edits that quote the essay exactly and change something, anchored where they were found. */
+export function parseTutorEdits(raw: unknown[], essay: string): TutorEdit[] {
+  const locate = createAnchorLocator(essay);
+  return raw
+    .flatMap((item) => {
+      if (!isObject(item) || typeof item.original !== "string" || typeof item.replacement !== "string") return [];
+      if (!item.original || item.original === item.replacement) return [];
+      const anchor = locate(item.original);
+      if (!anchor) return [];
+      const explanation = typeof item.explanation === "string" ? item.explanation.trim() : "";
+      return [{ original: item.original, replacement: item.replacement, explanation, anchor }];
+    })
+    .slice(0, MAX_EDITS);
+}
+
+/** Streams the tutor's answer to the last question and returns it with its edits parsed out. */
+export async function replyAsTutor(
+  input: TutorInput,
+  provider: LLMProvider,
+  { signal, onDelta, prompts = loadPrompts() }: TutorOptions = {},
+): Promise<TutorOutcome> {
+  const messages = buildTutorMessages(input, prompts);
+  const meter = createUsageMeter(provider);
+
+  let reply = "";
+  let reported: TokenUsage | undefined;
+  const onUsage = (usage: TokenUsage) => (reported = usage);
+  for await (const delta of provider.stream({ messages, subject: { purpose: "tutor", essay: input.essay, taskMode: input.taskMode }, signal, onUsage })) {
+    reply += delta;
+    onDelta?.(delta);
+  }
+  meter.add(messages.map((message) => message.content).join("\n"), reply, reported);
+
+  const { content, edits } = splitTutorReply(reply);
+  const parsed = parseTutorEdits(edits, input.essay);
+  return {
+    message: { role: "tutor", content, ...(parsed.length && { edits: parsed }), createdAt: Date.now() },
+    usage: meter.usage(1),
+  };
+}
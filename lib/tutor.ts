@@ -0,0 +1,90 @@
+// Shared contract for /api/tutor: a conversation about one analysis, where
+// the student asks about the feedback and the tutor answers in plain text,
+// optionally with edits the student can apply to the essay. Client-safe; the
+// server side is lib/tutor-reply.ts.
+
+import type { TextAnchor } from "@/lib/anchors";
+import type { CriterionKey, PartialFeedback } from "@/lib/feedback";
+
+// What a question is about: an item of the analysis it belongs to, by its
+// position in that analysis's lists, or a criterion as a whole.
+export type TutorFocus =
+  | { kind: "correction"; index: number }
+  | { kind: "tip"; criterion: CriterionKey; index: number }
+  | { kind: "criterion"; criterion: CriterionKey };
+
+// A change the tutor suggests, applied the same way as a correction.
+export interface TutorEdit {
+  original: string;
+  replacement: string;
+  explanation: string;
+  // Where `original` was in the essay when the tutor replied.
+  anchor?: TextAnchor;
+}
+
+export interface TutorMessage {
+  role: "student" | "tutor";
+  content: string;
+  // Student messages only.
+  focus?: TutorFocus;
+  // Tutor messages only.
+  edits?: TutorEdit[];
+  createdAt: number;
+}
+
+// One line of the NDJSON stream from /api/tutor. `delta` is raw reply text,
+// edit lines included; `done` carries the reply with its edits parsed out.
+export type TutorStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; message: TutorMessage }
+  | { type: "error"; error: string };
+
+// Conversation turns sent with each question, most recent last.
+export const TUTOR_HISTORY = 20;
+
+// The tutor puts each suggested edit on its own line as EDIT {"original": …}.
+const EDIT_LINE = /^\s*EDIT\s*(\{.*\})\s*$/;
+
+/** Splits a reply into the text shown to the student and the raw edit objects. */
+export function splitTutorReply(reply: string): { content: string; edits: unknown[] } {
+  const lines: string[] = [];
+  const edits: unknown[] = [];
+  for (const line of reply.split("\n")) {
+    const match = line.match(EDIT_LINE);
+    if (!match) {
+      lines.push(line);
+      continue;
+    }
+    try {
+      edits.push(JSON.parse(match[1]));
+    } catch {
+      // A malformed edit is dropped rather than shown as text
+    }
+  }
+  return { content: lines.join("\n").trim(), edits };
+}
+
+// Whether a line, possibly still being streamed, is or may become an edit line.
+const mayBeEdit = (line: string) => {
+  const text = line.trimStart();
+  return text.length < 4 ? "EDIT".startsWith(text) : /^EDIT\b/.test(text);
+};
+
+/** The part of a reply still being streamed that is safe to show: no edit lines, whole or partial. */
+export function visibleTutorText(partial: string): string {
+  const lines = partial.split("\n");
+  const last = lines.pop() ?? "";
+  const shown = lines.filter((line) => !/^\s*EDIT\b/.test(line));
+  if (!mayBeEdit(last)) shown.push(last);
+  return shown.join("\n").trim();
+}
+
+/** The focused item's text, for labelling a question; null if the analysis no longer has it. */
+export function describeFocus(feedback: PartialFeedback, focus: TutorFocus): string | null {
+  if (focus.kind === "correction") {
+    const correction = feedback.corrections?.[focus.index];
+    return correction ? `"${correction.original}" → "${correction.replacement}"` : null;
+  }
+  if (focus.kind === "tip") return feedback.feedback?.[focus.criterion]?.tips[focus.index]?.tip ?? null;
+  return null;
+}
@@ -0,0 +1,24 @@
+// Server-side record of every analysis request, read back by the admin
+// usage report. Kept in the "usage" log of the configured store.
+
+import { randomUUID } from "crypto";
+import { getLog } from "@/lib/store";
+import { getTaskMode } from "@/lib/tasks";
+import type { UsageRecord } from "@/lib/usage";
+
+const usageLog = () => getLog<UsageRecord>("usage");
+
+// Recording never fails the request it describes.
+export async function recordUsage(entry: Omit<UsageRecord, "id" | "createdAt" | "task">): Promise<void> {
+  const record: UsageRecord = { id: randomUUID(), createdAt: Date.now(), task: getTaskMode(entry.taskMode).task, ...entry };
+  try {
+    await usageLog().append(record);
+  } catch (error) {
+    console.warn("Could not record usage:", error);
+  }
+}
+
+// Records created in [from, to), both epoch milliseconds.
+export async function readUsage(from = 0, to = Infinity): Promise<UsageRecord[]> {
+  return (await usageLog().read()).filter((record) => record.createdAt >= from && record.createdAt < to);
+}
@@ -0,0 +1,159 @@
+// What one analysis cost: tokens, time and an estimated price. Prices come
+// from data/model-prices.json, keyed "provider/model" with "provider/*" as a
+// catch-all, and can be overridden with MODEL_PRICES, a JSON object in the
+// same shape as its "prices", e.g. {"openai/gpt-4o":{"input":2.5,"output":10}}.
+
+import defaultPrices from "@/data/model-prices.json";
+import type { TaskModeId, TaskType } from "@/lib/tasks";
+
+export interface ModelPrice {
+  // US dollars per million tokens.
+  input: number;
+  output: number;
+}
+
+export interface AnalysisUsage {
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  // Set when the provider reported no counts and they were estimated from the text.
+  tokens_estimated?: boolean;
+  latency_ms: number;
+  // Null when the model has no price in the table.
+  cost_usd: number | null;
+  attempts: number;
+  cache: "hit" | "miss";
+}
+
+// One analysis request as the server saw it, for the admin usage report.
+export interface UsageRecord {
+  id: string;
+  createdAt: number;
+  client: string;
+  taskMode: TaskModeId;
+  task: TaskType;
+  promptVersion: string;
+  // Absent for records written before model answers existed, which were all analyses.
+  kind?: "analysis" | "rewrite" | "tutor";
+  outcome: "ok" | "malformed" | "error";
+  usage: AnalysisUsage;
+}
+
+export interface UsageSummary {
+  key: string;
+  analyses: number;
+  cacheHits: number;
+  failures: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Analyses whose model had no price, so are missing from costUsd.
+  unpriced: number;
+  meanLatencyMs: number;
+}
+
+// Roughly four characters a token for English text.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function priceTable(env: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+  if (!env.MODEL_PRICES) return defaultPrices.prices;
+  try {
+    return { ...defaultPrices.prices, ...(JSON.parse(env.MODEL_PRICES) as Record<string, ModelPrice>) };
+  } catch {
+    console.warn("MODEL_PRICES is not valid JSON; using data/model-prices.json.");
+    return defaultPrices.prices;
+  }
+}
+
+export function estimateCost(
+  provider: string,
+  model: string,
+  { promptTokens, completionTokens }: { promptTokens: number; completionTokens: number },
+  prices: Record<string, ModelPrice> = priceTable(),
+): number | null {
+  const price = prices[`${provider}/${model}`] ?? prices[`${provider}/*`];
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Totals the tokens of one request across its attempts. An attempt whose
+ * provider reported no counts is charged an estimate from the text.
+ */
+export function createUsageMeter(provider: { name: string; model: string }) {
+  const started = Date.now();
+  const tokens = { promptTokens: 0, completionTokens: 0 };
+  let estimated = false;
+
+  return {
+    add(prompt: string, reply: string, reported?: { promptTokens: number; completionTokens: number }) {
+      if (!reported) {
+        estimated = true;
+        reported = { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(reply) };
+      }
+      tokens.promptTokens += reported.promptTokens;
+      tokens.completionTokens += reported.completionTokens;
+    },
+    usage(attempts: number): AnalysisUsage {
+      return {
+        provider: provider.name,
+        model: provider.model,
+        prompt_tokens: tokens.promptTokens,
+        completion_tokens: tokens.completionTokens,
+        ...(estimated && { tokens_estimated: true }),
+        latency_ms: Date.now() - started,
+        cost_usd: estimateCost(provider.name, provider.model, tokens),
+        attempts,
+        cache: "miss",
+      };
+    },
+  };
+}
+
+const formatCost = (cost: number) => (cost === 0 ? "free" : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`);
+
+// The one-line summary shown under a result.
+export function describeUsage(usage: AnalysisUsage): string {
+  if (usage.cache === "hit") return `Returned from cache in ${usage.latency_ms} ms · ${usage.provider}/${usage.model} · no new cost`;
+
+  const tokens = `${usage.prompt_tokens.toLocaleString("en")} in / ${usage.completion_tokens.toLocaleString("en")} out tokens${usage.tokens_estimated ? " (estimated)" : ""}`;
+  const retries = usage.attempts - 1;
+  return [
+    `${usage.provider}/${usage.model}`,
+    tokens,
+    usage.cost_usd === null ? "cost unknown" : formatCost(usage.cost_usd),
+    `${(usage.latency_ms / 1000).toFixed(1)} s`,
+    retries > 0 && `${retries} ${retries === 1 ? "retry" : "retries"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Totals for each group of records, in the order the groups first appear. */
+export function summariseUsage(records: UsageRecord[], groupOf: (record: UsageRecord) => string): UsageSummary[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = groupOf(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+
+  return [...groups].map(([key, group]) => {
+    const sum = (value: (record: UsageRecord) => number) => group.reduce((total, record) => total + value(record), 0);
+    return {
+      key,
+      analyses: group.length,
+      cacheHits: group.filter((record) => record.usage.cache === "hit").length,
+      failures: group.filter((record) => record.outcome !== "ok").length,
+      retries: sum((record) => Math.max(0, record.usage.attempts - 1)),
+      promptTokens: sum((record) => record.usage.prompt_tokens),
+      completionTokens: sum((record) => record.usage.completion_tokens),
+      costUsd: Math.round(sum((record) => record.usage.cost_usd ?? 0) * 1_000_000) / 1_000_000,
+      unpriced: group.filter((record) => record.usage.cost_usd === null).length,
+      meanLatencyMs: Math.round(sum((record) => record.usage.latency_ms) / group.length),
+    };
+  });
+}
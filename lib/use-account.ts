@@ -0,0 +1,34 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { Account } from "@/lib/classroom";
+import { ClassroomRequestError, getSession } from "@/lib/classroom-client";
+
+/**
+ * The signed-in classroom account (undefined while checking, null when
+ * signed out) and the page's error. `fail` reports a failed request, treating
+ * a 401 as the session having ended.
+ */
+export function useAccount() {
+  const [account, setAccount] = useState<Account | null | undefined>(undefined);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getSession()
+      .then(setAccount)
+      .catch((err) => {
+        setAccount(null);
+        setError(err?.message || "Could not check your session");
+      });
+  }, []);
+
+  // Stable, so pages can list it among the dependencies of their loading effects
+  const fail = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof ClassroomRequestError && err.status === 401) {
+      setAccount(null);
+      return;
+    }
+    setError((err as Error)?.message || fallback);
+  }, []);
+
+  return { account, setAccount, error, setError, fail };
+}
@@ -0,0 +1,75 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { EXAM_PLANS, type ExamKind, type ExamPlan, type ExamWarning } from "@/lib/exam";
+
+export type ExamStatus = "idle" | "running" | "finished";
+
+interface ExamTimerOptions {
+  onWarning: (warning: ExamWarning) => void;
+  onTimeUp: () => void;
+}
+
+/**
+ * Countdown for a timed exam. Time is measured against a fixed deadline, so
+ * a throttled background tab catches up instead of drifting; if several
+ * warnings were missed while throttled only the most urgent one fires.
+ */
+export function useExamTimer({ onWarning, onTimeUp }: ExamTimerOptions) {
+  const [plan, setPlan] = useState<ExamPlan | null>(null);
+  const [status, setStatus] = useState<ExamStatus>("idle");
+  const [deadline, setDeadline] = useState(0);
+  const [now, setNow] = useState(0);
+
+  const callbacks = useRef({ onWarning, onTimeUp });
+  useEffect(() => {
+    callbacks.current = { onWarning, onTimeUp };
+  });
+
+  useEffect(() => {
+    if (status !== "running" || !plan) return;
+    const fired = new Set<number>();
+
+    const tick = () => {
+      const current = Date.now();
+      const remaining = deadline - current;
+      setNow(current);
+
+      if (remaining <= 0) {
+        clearInterval(interval);
+        setStatus("finished");
+        callbacks.current.onTimeUp();
+        return;
+      }
+      const due = plan.warnings.filter((w) => !fired.has(w.remainingMinutes) && remaining <= w.remainingMinutes * 60_000);
+      due.forEach((w) => fired.add(w.remainingMinutes));
+      if (due.length > 0) {
+        callbacks.current.onWarning(due.reduce((a, b) => (a.remainingMinutes < b.remainingMinutes ? a : b)));
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [status, plan, deadline]);
+
+  const start = (kind: ExamKind) => {
+    const current = Date.now();
+    const next = EXAM_PLANS[kind];
+    setPlan(next);
+    setDeadline(current + next.minutes * 60_000);
+    setNow(current);
+    setStatus("running");
+  };
+
+  // Stops the clock early, e.g. when the candidate submits before time is up.
+  const finish = () => {
+    setNow(Date.now());
+    setStatus("finished");
+  };
+
+  const reset = () => {
+    setPlan(null);
+    setStatus("idle");
+  };
+
+  return { plan, status, remainingMs: plan ? Math.max(0, deadline - now) : 0, start, finish, reset };
+}
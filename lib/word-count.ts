@@ -0,0 +1,24 @@
+// Word counting as IELTS examiners do it:
+// - hyphenated words count once ("well-known", "twenty-first")
+// - contractions count once ("don't", "it's")
+// - numbers count once, with their separators and units ("2,000", "3.5", "25%")
+// - stray symbols and punctuation on their own ("&", "-", "...") do not count
+// Dashes used as punctuation ("word—word", "word – word") separate words.
+
+const WORD_SEPARATORS = /[\s–—]+/;
+const HAS_LETTER_OR_DIGIT = /[\p{L}\p{N}]/u;
+
+export function countWords(text: string): number {
+  return text.split(WORD_SEPARATORS).filter((token) => HAS_LETTER_OR_DIGIT.test(token)).length;
+}
+
+export interface WordCount {
+  count: number;
+  minimum: number;
+  under_length: boolean;
+}
+
+export function checkWordCount(text: string, minimum: number): WordCount {
+  const count = countWords(text);
+  return { count, minimum, under_length: count < minimum };
+}
@@ -0,0 +1,58 @@
+// Word-level diff for previewing and comparing essay text. Whitespace runs
+// are kept as their own tokens so joining the parts of either side gives
+// back the original text exactly.
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts.at(-1);
+  if (last?.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Essays change locally, so only the middle needs the quadratic LCS table.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  // lcs[i * cols + j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j] ? lcs[(i + 1) * cols + j + 1] + 1 : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (prefix > 0) push(parts, "same", a.slice(0, prefix).join(""));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      push(parts, "same", midA[i]);
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+      // Removals first, so a replaced word reads old then new
+      push(parts, "removed", midA[i++]);
+    } else {
+      push(parts, "added", midB[j++]);
+    }
+  }
+  if (suffix > 0) push(parts, "same", a.slice(a.length - suffix).join(""));
+  return parts;
+}
@@ -0,0 +1,135 @@
+// Scoring calibration against a labelled corpus (see lib/calibration.ts).
+//
+//   npm run calibrate -- [options]
+//
+//   --corpus <dir>          essays with examiner bands (default data/calibration)
+//   --runs <n>              analyses per essay, for run-to-run variance (default 3)
+//   --prompt-version <v>    prompt version to score with (default PROMPT_VERSION or the latest)
+//   --baseline <file>       baseline to compare with (default <corpus>/baseline.json)
+//   --update-baseline       save this run as the baseline
+//   --json <file>           also write every run and the metrics as JSON
+//   --allow-remote          allow LLM_PROVIDER=openai; by default only local and mock run
+//
+// Without LLM_PROVIDER the mock provider is used. Exits with 1 when a metric
+// regressed against the baseline, and 2 when the run could not be made.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  BASELINE_FILE,
+  CalibrationError,
+  compareToBaseline,
+  loadCorpus,
+  runCalibration,
+  summariseCalibration,
+  type CalibrationBaseline,
+  type CalibrationMetrics,
+  type ErrorMetrics,
+} from "@/lib/calibration";
+import { CRITERIA } from "@/lib/feedback";
+import { loadPrompts, PromptConfigError } from "@/lib/prompts";
+import { getProvider, ProviderConfigError } from "@/lib/providers";
+
+const band = (value: number) => value.toFixed(2);
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+function printMetrics(metrics: CalibrationMetrics) {
+  const { overall, stability } = metrics;
+  const error = ({ n, meanAbsoluteError, bias }: ErrorMetrics) => `MAE ${band(meanAbsoluteError)}  bias ${signed(bias)}  (n=${n})`;
+
+  console.log(`\n${metrics.essays} essays, ${metrics.runs} runs, ${metrics.failedRuns} failed\n`);
+  console.log(`Overall band        ${error(overall)}`);
+  console.log(`                    exact ${percent(overall.exactAgreement)}  within half a band ${percent(overall.withinHalfBand)}`);
+  for (const key of CRITERIA) {
+    const criterion = metrics.criteria[key];
+    if (criterion) console.log(`${key.padEnd(28)}${error(criterion)}`);
+  }
+  console.log(
+    `Run-to-run spread   variance ${band(stability.meanVariance)}  std dev ${band(stability.meanStdDev)}  max ${band(stability.maxStdDev)}` +
+      (stability.leastStable ? ` (${stability.leastStable})` : ""),
+  );
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: "string", default: path.join("data", "calibration") },
+      runs: { type: "string", default: "3" },
+      "prompt-version": { type: "string" },
+      baseline: { type: "string" },
+      "update-baseline": { type: "boolean", default: false },
+      json: { type: "string" },
+      "allow-remote": { type: "boolean", default: false },
+    },
+  });
+
+  const runs = Number(values.runs);
+  if (!Number.isInteger(runs) || runs < 1) throw new CalibrationError("--runs must be a whole number of at least 1.");
+  process.env.LLM_PROVIDER ||= "mock";
+  if (process.env.LLM_PROVIDER === "openai" && !values["allow-remote"]) {
+    throw new CalibrationError("Calibration runs offline: set LLM_PROVIDER=mock or local, or pass --allow-remote.");
+  }
+
+  const corpus = loadCorpus(values.corpus);
+  const provider = getProvider();
+  const prompts = loadPrompts(values["prompt-version"]);
+  const baselinePath = values.baseline ?? path.join(values.corpus, BASELINE_FILE);
+  console.log(`Scoring ${corpus.length} essays ${runs} times each with ${provider.name}/${provider.model}, prompt ${prompts.version}`);
+
+  const results = await runCalibration(corpus, provider, {
+    runs,
+    prompts,
+    onRun: (essay, run, index) => {
+      const result = run.overall === null ? run.outcome : `${run.overall} (examiner ${essay.examiner.overall})`;
+      console.log(`  ${essay.id} #${index + 1}: ${result}`);
+    },
+  });
+  const metrics = summariseCalibration(results);
+  printMetrics(metrics);
+
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify({ provider: provider.name, model: provider.model, promptVersion: prompts.version, metrics, results }, null, 2));
+  }
+
+  let regressed = false;
+  if (existsSync(baselinePath)) {
+    const baseline = JSON.parse(readFileSync(baselinePath, "utf8")) as CalibrationBaseline;
+    console.log(`\nAgainst the baseline from ${baseline.createdAt} (${baseline.provider}/${baseline.model}, prompt ${baseline.promptVersion}):`);
+    const ids = corpus.map((essay) => essay.id);
+    if ([...ids].sort().join() !== [...baseline.essayIds].sort().join()) console.log("  Warning: the corpus has changed since the baseline, so the figures are not like for like.");
+    for (const row of compareToBaseline(metrics, baseline.metrics)) {
+      const format = row.metric === "failed runs" ? String : /agreement|half/.test(row.metric) ? percent : band;
+      console.log(`  ${row.regressed ? "REGRESSED" : "ok       "}  ${row.metric.padEnd(36)}${format(row.baseline).padStart(8)} → ${format(row.current)}`);
+      regressed ||= row.regressed;
+    }
+  } else if (!values["update-baseline"]) {
+    console.log(`\nNo baseline at ${baselinePath}; pass --update-baseline to save this run as one.`);
+  }
+
+  if (values["update-baseline"]) {
+    const baseline: CalibrationBaseline = {
+      createdAt: new Date().toISOString(),
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: prompts.version,
+      runsPerEssay: runs,
+      essayIds: corpus.map((essay) => essay.id),
+      metrics,
+    };
+    writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + "\n");
+    console.log(`\nSaved the baseline to ${baselinePath}.`);
+    return 0;
+  }
+  return regressed ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    const expected = error instanceof CalibrationError || error instanceof ProviderConfigError || error instanceof PromptConfigError;
+    console.error(expected ? error.message : error);
+    process.exit(2);
+  },
+);
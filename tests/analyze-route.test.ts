@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AnalyzeStreamEvent } from "@/lib/feedback";
+import { TECHNOLOGY_ESSAY, TECHNOLOGY_QUESTION } from "./fixtures/essays";
+
+const { recordUsage, cacheSet } = vi.hoisted(() => ({
+  recordUsage: vi.fn(async () => {}),
+  cacheSet: vi.fn(async () => {
+    throw new Error("disk full");
+  }),
+}));
+
+vi.mock("@/lib/usage-log", () => ({ recordUsage }));
+vi.mock("@/lib/analysis-cache", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/analysis-cache")>()),
+  createAnalysisCache: () => ({ get: async () => undefined, set: cacheSet }),
+}));
+
+const { POST } = await import("@/app/api/analyze/route");
+
+const readEvents = async (response: Response) =>
+  (await response.text())
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as AnalyzeStreamEvent);
+
+describe("POST /api/analyze, streamed", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("RATE_LIMIT_PER_MINUTE", "0");
+    vi.stubEnv("DAILY_ANALYSIS_QUOTA", "0");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    recordUsage.mockClear();
+  });
+
+  it("ends with done and records usage once when caching the result fails", async () => {
+    const response = await POST(
+      new Request("http://localhost/api/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
+        body: JSON.stringify({ essay: TECHNOLOGY_ESSAY, question: TECHNOLOGY_QUESTION, taskMode: "task2" }),
+      }),
+    );
+    const events = await readEvents(response);
+
+    expect(events.at(-1)?.type).toBe("done");
+    expect(events.filter((event) => event.type === "error")).toEqual([]);
+    expect(cacheSet).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ outcome: "ok" }));
+  });
+});
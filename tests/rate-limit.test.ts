@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientId, consume, getLimits, getTrustedProxies } from "@/lib/rate-limit";
+import { createMemoryStore } from "@/lib/store/memory";
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/api/analyze", { headers });
+
+describe("getTrustedProxies", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [undefined, 0],
+    ["", 0],
+    ["false", 0],
+    ["0", 0],
+    ["true", 1],
+    ["2", 2],
+    ["-1", 0],
+    ["proxy", 0],
+  ])("reads TRUST_PROXY=%s as %i", (value, hops) => {
+    expect(getTrustedProxies({ NODE_ENV: "test", TRUST_PROXY: value })).toBe(hops);
+  });
+
+  it("warns once when it is left unset in production", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    getTrustedProxies({ NODE_ENV: "production", TRUST_PROXY: "0" });
+    expect(warn).not.toHaveBeenCalled();
+    getTrustedProxies({ NODE_ENV: "production" });
+    getTrustedProxies({ NODE_ENV: "production" });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/TRUST_PROXY is not set/);
+  });
+});
+
+describe("clientId", () => {
+  it("ignores forwarded headers without a trusted proxy", () => {
+    expect(clientId(request({ "X-Forwarded-For": "203.0.113.7", "X-Real-IP": "203.0.113.8" }), 0)).toBe("local");
+  });
+
+  it("takes the address the trusted proxy appended, not one the client sent", () => {
+    expect(clientId(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7" }), 1)).toBe("203.0.113.7");
+    expect(clientId(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7, 10.0.0.2" }), 2)).toBe("203.0.113.7");
+  });
+
+  it("takes the last entry when the request passed fewer proxies than trusted", () => {
+    expect(clientId(request({ "X-Forwarded-For": "1.2.3.4, 203.0.113.7" }), 3)).toBe("203.0.113.7");
+  });
+
+  it("never reads X-Real-IP, which the client controls", () => {
+    expect(clientId(request({ "X-Real-IP": "203.0.113.8" }), 1)).toBe("local");
+  });
+});
+
+describe("consume", () => {
+  it("counts clients with different addresses separately", async () => {
+    const store = createMemoryStore();
+    const limit = getLimits({ NODE_ENV: "test", RATE_LIMIT_PER_MINUTE: "2" }).rate;
+    const first = clientId(request({ "X-Forwarded-For": "203.0.113.7" }), 1);
+    const second = clientId(request({ "X-Forwarded-For": "198.51.100.4" }), 1);
+    const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+    expect((await consume(store, first, limit, now)).ok).toBe(true);
+    expect((await consume(store, first, limit, now)).ok).toBe(true);
+    expect(await consume(store, first, limit, now)).toMatchObject({ ok: false, retryAfter: 60 });
+    expect(await consume(store, second, limit, now)).toEqual({ ok: true, remaining: 1 });
+  });
+});
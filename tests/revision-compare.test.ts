@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { anchorAt } from "@/lib/anchors";
+import { CRITERIA, type Correction, type CriterionKey, type FeedbackData, type FeedbackDetail } from "@/lib/feedback";
+import type { SavedAnalysis } from "@/lib/library";
+import { compareAnalyses } from "@/lib/revision-compare";
+
+const BEFORE = "First, its cold. Then its late.";
+
+const detail: FeedbackDetail = { band: 6, justification: "", summary: "", tips: [] };
+
+// A correction of the `nth` occurrence (from 0) of `original` in `essay`.
+function correction(essay: string, original: string, replacement: string, nth = 0): Correction {
+  let start = -1;
+  for (let i = 0; i <= nth; i++) start = essay.indexOf(original, start + 1);
+  return { original, replacement, type: "grammar", explanation: "", anchor: anchorAt(essay, start, start + original.length) };
+}
+
+function analysis(essay: string, corrections: Correction[]): SavedAnalysis {
+  const data: FeedbackData = {
+    band_score: 6,
+    prioritized_suggestions: [],
+    feedback: Object.fromEntries(CRITERIA.map((key) => [key, detail])) as Record<CriterionKey, FeedbackDetail>,
+    task_checks: [],
+    question_coverage: [],
+    corrections,
+    general_comment: "",
+  };
+  return { id: essay, revision: null, essay, taskMode: "task2", question: { text: "" }, data, createdAt: 0 };
+}
+
+describe("compareAnalyses", () => {
+  it("follows an earlier correction past text inserted before it", () => {
+    const after = `Well, actually ${BEFORE}`;
+    const earlier = correction(BEFORE, "its", "it's", 1);
+    const comparison = compareAnalyses(analysis(BEFORE, [earlier]), analysis(after, [correction(after, "its", "it's", 1)]));
+
+    expect(comparison.persisting).toEqual([earlier]);
+    expect(comparison.introduced).toEqual([]);
+  });
+
+  it("does not match a repeated phrase at the earlier correction's old offsets", () => {
+    // The insertion moves the first "its" to where the second one was.
+    const after = "Well, actually First, its cold. Then it's late.";
+    const earlier = correction(BEFORE, "its", "it's", 1);
+    const later = correction(after, "its", "it's");
+    expect(later.anchor!.start).toBe(earlier.anchor!.start);
+
+    const comparison = compareAnalyses(analysis(BEFORE, [earlier]), analysis(after, [later]));
+    expect(comparison.resolved).toEqual([earlier]);
+    expect(comparison.persisting).toEqual([]);
+    expect(comparison.introduced).toEqual([later]);
+  });
+});
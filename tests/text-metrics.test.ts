@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { describeMetrics, measureText, splitSentences } from "@/lib/text-metrics";
+import { ABBREVIATION_ESSAY, PUBLIC_TRANSPORT_ESSAY, SHORT_ESSAY, TECHNOLOGY_ESSAY } from "./fixtures/essays";
+
+describe("splitSentences", () => {
+  it("does not end a sentence at a title or an initialism mid-sentence", () => {
+    expect(splitSentences("Dr. Smith was born in the U.S. in 1990.")).toEqual(["Dr. Smith was born in the U.S. in 1990."]);
+  });
+
+  it("ends a sentence at an initialism when the next one starts with a capital", () => {
+    expect(splitSentences(ABBREVIATION_ESSAY)).toEqual(["Dr. Smith was born in the U.S. in 1990.", "He moved to the U.K.", "Then he studied law, e.g. contracts."]);
+  });
+
+  it("treats every line as a new sentence", () => {
+    expect(splitSentences("Dear Sir or Madam\nI am writing to complain")).toEqual(["Dear Sir or Madam", "I am writing to complain"]);
+  });
+});
+
+describe("measureText", () => {
+  it("measures a four-paragraph essay", () => {
+    const metrics = measureText(PUBLIC_TRANSPORT_ESSAY);
+
+    expect(metrics.words).toBe(89);
+    expect(metrics.sentences).toMatchObject({ count: 8, min: 7, max: 17, short: 1, long: 0 });
+    expect(metrics.paragraphs).toEqual({ count: 4, lengths: [20, 29, 29, 11] });
+    expect(metrics.linking.total).toBe(6);
+    expect(metrics.linking.functions.find((f) => f.function === "contrast")?.linkers.map((l) => l.text)).toEqual(["however", "on the other hand"]);
+    // "should be spent" and "are used by"
+    expect(metrics.passiveRatio).toBe(0.25);
+    expect(metrics.academicWords.families.map((f) => f.text)).toEqual(["transport", "alternative", "fund", "invest"]);
+    expect(metrics.repeatedPhrases[0]).toEqual({ text: "public transport", count: 3 });
+  });
+
+  it("finds the repetition in the mock provider's essay", () => {
+    const metrics = measureText(TECHNOLOGY_ESSAY);
+
+    expect(metrics.paragraphs.count).toBe(4);
+    expect(metrics.repeatedWords).toEqual([
+      { text: "computers", count: 4 },
+      { text: "students", count: 4 },
+    ]);
+  });
+
+  it("keeps readability scores on their scales", () => {
+    const { readability } = measureText(SHORT_ESSAY);
+
+    expect(readability.fleschReadingEase).toBe(100);
+    expect(readability.fleschKincaidGrade).toBe(0);
+  });
+
+  it("gives zeros for an empty text", () => {
+    const metrics = measureText("  \n ");
+
+    expect(metrics.words).toBe(0);
+    expect(metrics.sentences.count).toBe(0);
+    expect(metrics.paragraphs.count).toBe(0);
+    expect(metrics.readability).toEqual({ fleschReadingEase: 0, fleschKincaidGrade: 0 });
+  });
+
+  it("is deterministic", () => {
+    expect(measureText(TECHNOLOGY_ESSAY)).toEqual(measureText(TECHNOLOGY_ESSAY));
+  });
+});
+
+describe("describeMetrics", () => {
+  it("summarises an essay one feature per line", () => {
+    const lines = describeMetrics(measureText(PUBLIC_TRANSPORT_ESSAY));
+
+    expect(lines[0]).toBe("8 sentences, 11.1 words on average (shortest 7, longest 17; 1 under 8 words, 0 over 35).");
+    expect(lines[1]).toBe("4 paragraphs of 20, 29, 29, 11 words.");
+    expect(lines).toContain("Flesch reading ease 69.1, Flesch-Kincaid grade 6.4.");
+    expect(lines.at(-1)).toBe('Repeated phrases: "public transport" ×3, "believe that" ×2, "roads are" ×2.');
+  });
+
+  it("uses the singular for one of something", () => {
+    const lines = describeMetrics(measureText("Moreover, the analysis was short."));
+
+    expect(lines[0]).toMatch(/^1 sentence, /);
+    expect(lines[1]).toBe("1 paragraph of 5 words.");
+    expect(lines[2]).toMatch(/\(1 family\)\.$/);
+    expect(lines[4]).toMatch(/^1 linking expression \(1 different\)/);
+  });
+
+  it("describes an empty essay without blanks", () => {
+    const lines = describeMetrics(measureText(""));
+
+    expect(lines.slice(0, 2)).toEqual(["No sentences.", "No paragraphs."]);
+    expect(lines.join("\n")).not.toMatch(/\bof\s+words/);
+  });
+});